@@ -1,7 +1,56 @@
 import { GraphQLClient } from 'graphql-request';
+import { z } from 'zod';
+
+import {
+  authenticationSchema,
+  getAuthenticationHeaders,
+  getConfig,
+  type AuthenticationConfig,
+  type OAuthClientCredentialsConfig,
+} from './config.js';
+
+export interface EndpointConfig {
+  name: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Sends requests with OAuth tokens when the endpoint uses client credentials */
+  fetch?: typeof fetch;
+}
+
+export interface TokenProvider {
+  /** Returns the cached access token, requesting a new one if there is none or it is about to expire */
+  getToken(): Promise<string>;
+  /** Forgets a token the API rejected, unless it has already been replaced */
+  invalidate(token: string): void;
+}
+
+/** Name of the endpoint configured by GRAPHQL_ENDPOINT */
+export const DEFAULT_ENDPOINT_NAME = 'default';
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'content-type': 'application/json',
+  'accept': '*/*',
+  'user-agent': 'GraphQL-MCP-Server/1.0.0',
+};
+
+// Tokens are renewed this long before they expire, or halfway through their lifetime if that is sooner
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// GRAPHQL_ENDPOINTS maps endpoint names to their URL, headers and authentication
+// like the config file's, e.g.
+// {"github": {"url": "https://api.github.com/graphql", "headers": {"authorization": "Bearer ..."}}}
+const namedEndpointsSchema = z.record(
+  z.string().regex(/^[a-z][a-z0-9_]*$/, 'Endpoint names must be snake_case starting with a letter'),
+  z.object({
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+    authentication: authenticationSchema.optional(),
+  })
+);
 
 function buildHeaders(): Record<string, string> {
-  const headers: Record<string, string> = {};
+  // Environment variables override headers from the config file's authentication block
+  const headers: Record<string, string> = getAuthenticationHeaders();
 
   // Scan for GRAPHQL_HEADER_* environment variables
   for (const [key, value] of Object.entries(process.env)) {
@@ -28,27 +77,238 @@ function buildHeaders(): Record<string, string> {
   }
 
   // Add minimal default headers if none are set
-  if (Object.keys(headers).length === 0) {
-    headers['content-type'] = 'application/json';
-    headers['accept'] = '*/*';
-    headers['user-agent'] = 'GraphQL-MCP-Server/1.0.0';
+  return Object.keys(headers).length === 0 ? { ...DEFAULT_HEADERS } : headers;
+}
+
+function readEndpoints(): EndpointConfig[] {
+  const endpoints: EndpointConfig[] = [];
+
+  // GRAPHQL_ENDPOINT overrides graphql_endpoint from the config file
+  const graphqlEndpoint = process.env['GRAPHQL_ENDPOINT']?.trim() || getConfig().graphql_endpoint;
+  if (graphqlEndpoint) {
+    const headers = buildHeaders();
+    // An authorization header from environment variables overrides OAuth from the config file
+    const oauthFetch = createOAuthFetch(getConfig().authentication, headers);
+    endpoints.push({ name: DEFAULT_ENDPOINT_NAME, url: graphqlEndpoint, headers, ...(oauthFetch && { fetch: oauthFetch }) });
+  }
+
+  const namedEndpoints = process.env['GRAPHQL_ENDPOINTS'];
+  if (namedEndpoints && namedEndpoints.trim() !== '') {
+    for (const [name, { url, headers, authentication }] of Object.entries(parseNamedEndpoints(namedEndpoints))) {
+      if (endpoints.some(endpoint => endpoint.name === name)) {
+        throw new Error(`Invalid GRAPHQL_ENDPOINTS: '${name}' is reserved for GRAPHQL_ENDPOINT`);
+      }
+      // Headers given for the endpoint override those its authentication adds
+      const endpointHeaders = { ...(authentication && getAuthenticationHeaders(authentication)), ...headers };
+      const resolvedHeaders = Object.keys(endpointHeaders).length === 0 ? { ...DEFAULT_HEADERS } : endpointHeaders;
+      const oauthFetch = createOAuthFetch(authentication, resolvedHeaders);
+      endpoints.push({ name, url, headers: resolvedHeaders, ...(oauthFetch && { fetch: oauthFetch }) });
+    }
+  }
+
+  if (endpoints.length === 0) {
+    throw new Error('GRAPHQL_ENDPOINT environment variable is required (or set graphql_endpoint in the config file, or configure named endpoints with GRAPHQL_ENDPOINTS)');
+  }
+  return endpoints;
+}
+
+function parseNamedEndpoints(value: string): z.infer<typeof namedEndpointsSchema> {
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid GRAPHQL_ENDPOINTS: ${errorMessage}`);
+  }
+
+  const result = namedEndpointsSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid GRAPHQL_ENDPOINTS: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Returns a fetch sending OAuth tokens for endpoints that authenticate with client
+ * credentials, each with its own token cache, unless an authorization header is set.
+ */
+function createOAuthFetch(authentication: AuthenticationConfig | undefined, headers: Record<string, string>): typeof fetch | undefined {
+  return authentication?.type === 'oauth_client_credentials' && headers['authorization'] === undefined
+    ? createAuthenticatedFetch(createClientCredentialsProvider(authentication))
+    : undefined;
+}
+
+/**
+ * Creates a token provider for the OAuth 2.0 client credentials grant. Tokens
+ * are requested from the token endpoint when first needed and cached until
+ * shortly before they expire. Concurrent callers share one token request.
+ */
+export function createClientCredentialsProvider(auth: OAuthClientCredentialsConfig): TokenProvider {
+  let cached: { token: string; renewAt: number } | null = null;
+  let pendingToken: Promise<string> | null = null;
+
+  return {
+    getToken: (): Promise<string> => {
+      if (cached && Date.now() < cached.renewAt) {
+        return Promise.resolve(cached.token);
+      }
+      pendingToken ??= requestClientCredentialsToken(auth).then(
+        ({ token, expiresInMs }) => {
+          // Tokens without an expiry are used until the API rejects them
+          const renewAt = expiresInMs === null ? Infinity : Date.now() + expiresInMs - Math.min(TOKEN_EXPIRY_MARGIN_MS, expiresInMs / 2);
+          cached = { token, renewAt };
+          pendingToken = null;
+          return token;
+        },
+        (error: unknown) => {
+          pendingToken = null;
+          throw error;
+        }
+      );
+      return pendingToken;
+    },
+    invalidate: (token: string): void => {
+      if (cached?.token === token) {
+        cached = null;
+      }
+    },
+  };
+}
+
+/**
+ * Wraps fetch to send a bearer token from the provider with each request. A
+ * request the API answers with 401 is retried once with a new token, in case
+ * the cached one was revoked or expired early.
+ */
+export function createAuthenticatedFetch(provider: TokenProvider): typeof fetch {
+  const send = (input: Parameters<typeof fetch>[0], init: RequestInit | undefined, token: string): Promise<Response> => {
+    const headers = new Headers(init?.headers);
+    headers.set('authorization', `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+  };
+
+  return async (input, init) => {
+    const token = await provider.getToken();
+    const response = await send(input, init, token);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    provider.invalidate(token);
+    return send(input, init, await provider.getToken());
+  };
+}
+
+async function requestClientCredentialsToken(auth: OAuthClientCredentialsConfig): Promise<{ token: string; expiresInMs: number | null }> {
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded',
+    'accept': 'application/json',
+  };
+  if (auth.client_authentication === 'basic') {
+    const credentials = `${encodeURIComponent(auth.client_id)}:${encodeURIComponent(auth.client_secret)}`;
+    headers['authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', auth.client_id);
+    body.set('client_secret', auth.client_secret);
+  }
+  if (auth.scope !== undefined) {
+    body.set('scope', auth.scope);
+  }
+  if (auth.audience !== undefined) {
+    body.set('audience', auth.audience);
+  }
+
+  const failurePrefix = `Failed to obtain an OAuth token from ${auth.token_url}`;
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(auth.token_url, { method: 'POST', headers, body: body.toString() });
+    text = await response.text();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`${failurePrefix}: ${errorMessage}`);
+  }
+  const result = parseJsonObject(text);
+
+  if (!response.ok) {
+    // Token endpoints describe failures with error and error_description (RFC 6749 section 5.2)
+    const details = [result['error'], result['error_description']].filter(value => typeof value === 'string');
+    const detail = details.length > 0 ? ` (${details.join(': ')})` : '';
+    throw new Error(`${failurePrefix}: HTTP ${response.status}${detail}`);
+  }
+
+  const token = result['access_token'];
+  if (typeof token !== 'string' || token === '') {
+    throw new Error(`${failurePrefix}: the response has no access_token`);
+  }
+  const expiresIn = Number(result['expires_in']);
+  return { token, expiresInMs: Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn * 1000 : null };
+}
+
+function parseJsonObject(text: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(text);
+    return value !== null && typeof value === 'object' ? value as Record<string, unknown> : {};
+  } catch {
+    return {};
   }
+}
+
+function createClients(): Map<string, GraphQLClient> {
+  return new Map(readEndpoints().map(({ name, url, headers, fetch: endpointFetch }) => [
+    name,
+    new GraphQLClient(url, { headers, ...(endpointFetch && { fetch: endpointFetch }) }),
+  ]));
+}
 
-  return headers;
+const clients = createClients();
+
+/**
+ * Returns the names of all configured endpoints. The first one is the default.
+ */
+export function getEndpointNames(): string[] {
+  return [...clients.keys()];
+}
+
+/**
+ * Returns the name of the endpoint requests go to when none is specified:
+ * GRAPHQL_ENDPOINT if set, otherwise the first endpoint in GRAPHQL_ENDPOINTS.
+ */
+export function getDefaultEndpointName(): string {
+  return getEndpointNames()[0] ?? DEFAULT_ENDPOINT_NAME;
 }
 
-function createClient(): GraphQLClient {
-  const graphqlEndpoint = process.env['GRAPHQL_ENDPOINT'];
-  
-  if (!graphqlEndpoint || graphqlEndpoint.trim() === '') {
-    throw new Error('GRAPHQL_ENDPOINT environment variable is required');
+/**
+ * Returns the name of the given endpoint, or of the default endpoint if none is
+ * given. Throws if no endpoint with that name is configured.
+ */
+export function resolveEndpointName(endpoint?: string): string {
+  if (endpoint === undefined || endpoint === '') {
+    return getDefaultEndpointName();
+  }
+  if (!clients.has(endpoint)) {
+    throw new Error(`Unknown endpoint '${endpoint}'. Configured endpoints: ${getEndpointNames().join(', ')}`);
   }
+  return endpoint;
+}
 
-  const headers = buildHeaders();
-  
-  return new GraphQLClient(graphqlEndpoint, {
-    headers,
-  });
+/**
+ * Returns the client for a named endpoint, or for the default endpoint if none is given.
+ */
+export function getClient(endpoint?: string): GraphQLClient {
+  const name = resolveEndpointName(endpoint);
+  const client = clients.get(name);
+  if (!client) {
+    throw new Error(`Unknown endpoint '${name}'`);
+  }
+  return client;
 }
 
-export const client = createClient();
+/**
+ * Describes the configured endpoints for the endpoint argument of tools.
+ */
+export function describeEndpoints(): string {
+  return `Configured endpoints: ${getEndpointNames().join(', ')} (default: ${getDefaultEndpointName()})`;
+}
@@ -0,0 +1,124 @@
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+import { readConfigFile } from './storage.js';
+
+// Strings may reference environment variables, e.g. value: '${GITHUB_TOKEN}'
+const ENV_REFERENCE_PATTERN = /\$\{([A-Z_a-z]\w*)\}/g;
+
+const optionValueSchema = z.union([z.string(), z.number()], { errorMap: () => ({ message: 'Expected a string or number' }) });
+
+export const authenticationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('bearer'), value: z.string().min(1) }).strict(),
+  z.object({ type: z.literal('api_key'), value: z.string().min(1), header_name: z.string().min(1).default('x-api-key') }).strict(),
+  z.object({ type: z.literal('header'), value: z.string().min(1), header_name: z.string().min(1) }).strict(),
+  z
+    .object({
+      type: z.literal('oauth_client_credentials'),
+      token_url: z.string().url(),
+      client_id: z.string().min(1),
+      client_secret: z.string().min(1),
+      scope: z.string().min(1).optional(),
+      audience: z.string().min(1).optional(),
+      // How the client authenticates to the token endpoint: form fields or an HTTP Basic header
+      client_authentication: z.enum(['body', 'basic']).default('body'),
+    })
+    .strict(),
+]);
+
+const configSchema = z
+  .object({
+    graphql_endpoint: z.string().url().optional(),
+    authentication: authenticationSchema.optional(),
+    context_variables: z.record(z.union([z.string(), z.number(), z.boolean()])).default({}),
+    enumerations: z.record(z.array(z.object({ name: z.string().min(1), value: optionValueSchema }).strict())).default({}),
+    mappings: z.record(z.record(optionValueSchema)).default({}),
+    disable_core_tools: z.enum(['none', 'management', 'all']).optional(),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+export type AuthenticationConfig = z.infer<typeof authenticationSchema>;
+
+export type OAuthClientCredentialsConfig = Extract<AuthenticationConfig, { type: 'oauth_client_credentials' }>;
+
+/**
+ * Parses and validates a startup config file. `.json` files are read as JSON,
+ * anything else as YAML. `${VAR}` references in string values are replaced by
+ * the environment variable, which must be set.
+ */
+export function parseConfig(text: string, filePath: string): ServerConfig {
+  try {
+    const data: unknown = filePath.toLowerCase().endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+    // An empty YAML file parses to null
+    const result = configSchema.safeParse(interpolateEnvVars(data ?? {}, []));
+    if (!result.success) {
+      throw new Error(result.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`).join('; '));
+    }
+    return result.data;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid config file '${filePath}': ${errorMessage}`);
+  }
+}
+
+/**
+ * Returns the headers the configured authentication adds to requests to the default endpoint.
+ * OAuth tokens aren't static headers; the client requests them when it sends a request.
+ */
+export function getAuthenticationHeaders(authentication: AuthenticationConfig | undefined = config.authentication): Record<string, string> {
+  switch (authentication?.type) {
+    case undefined:
+    case 'oauth_client_credentials': {
+      return {};
+    }
+    case 'bearer': {
+      return { authorization: `Bearer ${authentication.value}` };
+    }
+    case 'api_key':
+    case 'header': {
+      return { [authentication.header_name.toLowerCase()]: authentication.value };
+    }
+  }
+}
+
+/**
+ * Returns the startup config, or an empty config if MCP_GRAPHQL_CONFIG isn't set.
+ */
+export function getConfig(): ServerConfig {
+  return config;
+}
+
+function loadConfig(): ServerConfig {
+  const filePath = process.env['MCP_GRAPHQL_CONFIG'] ?? '';
+  if (filePath.trim() === '') {
+    return configSchema.parse({});
+  }
+  return parseConfig(readConfigFile(filePath), filePath);
+}
+
+function interpolateEnvVars(value: unknown, path: (string | number)[]): unknown {
+  if (typeof value === 'string') {
+    return value.replaceAll(ENV_REFERENCE_PATTERN, (_match, name: string) => {
+      const envValue = process.env[name];
+      if (envValue === undefined) {
+        throw new Error(`${formatPath(path)}: environment variable ${name} is not set`);
+      }
+      return envValue;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnvVars(item, [...path, index]));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateEnvVars(item, [...path, key])]));
+  }
+  return value;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.length === 0 ? 'config' : path.join('.');
+}
+
+const config = loadConfig();
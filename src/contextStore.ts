@@ -0,0 +1,90 @@
+import { loadPersistentContextFile, savePersistentContextFile } from './storage.js';
+import type { ContextEntry, ContextValue } from './types.js';
+
+const context = new Map<string, ContextEntry>();
+
+/**
+ * Loads persisted context values into the store, keeping any values already set
+ * in this session.
+ */
+export function loadPersistentContext(): void {
+  const values = loadPersistentContextFile();
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!context.has(key)) {
+      context.set(key, { key, value, persistent: true });
+    }
+  }
+}
+
+/**
+ * Adds context values pre-configured in the config file, keeping any values
+ * already set, whether in this session or persisted by set_graphql_context.
+ */
+export function loadConfiguredContext(values: Record<string, ContextValue>): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (!context.has(key)) {
+      context.set(key, { key, value, persistent: false });
+    }
+  }
+}
+
+/**
+ * Sets a context value. Returns the previous value, if any.
+ *
+ * Persistent values are written to disk so they survive restarts. When `persistent`
+ * is not given, an existing key keeps its current setting and a new key is session-only.
+ */
+export function setContextValue(key: string, value: ContextValue, persistent?: boolean): ContextValue | undefined {
+  const previous = context.get(key);
+  const entry = { key, value, persistent: persistent ?? previous?.persistent ?? false };
+  context.set(key, entry);
+
+  if (entry.persistent || previous?.persistent === true) {
+    savePersistentContext();
+  }
+  return previous?.value;
+}
+
+export function getContextValue(key: string): ContextValue | undefined {
+  return context.get(key)?.value;
+}
+
+export function getContextEntry(key: string): ContextEntry | undefined {
+  return context.get(key);
+}
+
+/**
+ * Returns all context entries, sorted by key.
+ */
+export function getAllContext(): ContextEntry[] {
+  return [...context.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Removes a single context value, or all of them if no key is given, including
+ * persisted values. Returns the number of values removed.
+ */
+export function clearContext(key?: string): number {
+  const entries = key === undefined ? [...context.values()] : [context.get(key)].filter(entry => entry !== undefined);
+
+  for (const entry of entries) {
+    context.delete(entry.key);
+  }
+
+  if (entries.some(entry => entry.persistent)) {
+    savePersistentContext();
+  }
+  return entries.length;
+}
+
+function savePersistentContext(): void {
+  const values: Record<string, ContextValue> = {};
+  for (const entry of getAllContext()) {
+    if (entry.persistent) {
+      values[entry.key] = entry.value;
+    }
+  }
+
+  savePersistentContextFile(values);
+}
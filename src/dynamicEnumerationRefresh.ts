@@ -0,0 +1,115 @@
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { extractEnumerationOptions, setEnumerationError, setEnumerationOptions } from './dynamicEnumerations.js';
+import { fetchToolData, refreshToolsUsingType } from './dynamicToolHandler.js';
+import { loadAllTypes, loadToolFromFile, loadTypeFromFile } from './storage.js';
+import type { EnumerationOption, SavedTypeConfig } from './types.js';
+
+export interface EnumerationRefreshResult {
+  typeName: string;
+  toolName: string;
+  options: EnumerationOption[];
+  /** Whether the options differ from the previously loaded ones */
+  changed: boolean;
+  /** Saved tools whose input schema was re-published with the new options */
+  updatedTools: string[];
+}
+
+const refreshTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Runs the saved query a type is populated from and stores the options it
+ * returns. If they changed, the saved tools using the type are updated so
+ * clients are notified of their new input schemas. On failure the previously
+ * loaded options stay in use.
+ */
+export async function refreshEnumeration(
+  typeName: string,
+  registeredTools: Map<string, RegisteredTool>
+): Promise<EnumerationRefreshResult> {
+  const type = loadTypeFromFile(typeName);
+  if (!type) {
+    throw new Error(`Type '${typeName}' not found`);
+  }
+  const { source } = type;
+  if (!source) {
+    throw new Error(`Type '${typeName}' is not populated from a saved query`);
+  }
+
+  let options;
+  try {
+    const toolConfig = loadToolFromFile(source.tool_name);
+    if (!toolConfig) {
+      throw new Error(`Saved tool '${source.tool_name}' not found`);
+    }
+    options = extractEnumerationOptions(await fetchToolData(toolConfig, source.parameters ?? {}), source);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    setEnumerationError(typeName, errorMessage);
+    throw new Error(`Failed to load values for type '${typeName}' from '${source.tool_name}': ${errorMessage}`);
+  }
+
+  const changed = setEnumerationOptions(typeName, options);
+  const updatedTools = changed ? refreshToolsUsingType(typeName, registeredTools) : [];
+  return { typeName, toolName: source.tool_name, options, changed, updatedTools };
+}
+
+/**
+ * Loads the options of every type populated from a saved query in the
+ * background, then reloads each type every refresh_seconds if it sets them.
+ */
+export function startEnumerationRefresh(registeredTools: Map<string, RegisteredTool>): void {
+  stopEnumerationRefresh();
+  for (const type of loadAllTypes().values()) {
+    scheduleEnumerationRefresh(type, registeredTools);
+  }
+}
+
+/**
+ * Loads a type's options in the background, replacing any schedule it already
+ * has, and keeps reloading them every refresh_seconds if set. Failures are
+ * logged to stderr and retried at the next interval.
+ */
+export function scheduleEnumerationRefresh(type: SavedTypeConfig, registeredTools: Map<string, RegisteredTool>): void {
+  stopEnumerationRefresh(type.name);
+  if (!type.source) {
+    return;
+  }
+  const intervalMs = (type.source.refresh_seconds ?? 0) * 1000;
+
+  const schedule = (delayMs: number): void => {
+    const timer = setTimeout(() => {
+      const next = (): void => {
+        // The type may have been rescheduled or deleted while the query ran
+        if (refreshTimers.get(type.name) !== timer) {
+          return;
+        }
+        refreshTimers.delete(type.name);
+        if (intervalMs > 0) {
+          schedule(intervalMs);
+        }
+      };
+      refreshEnumeration(type.name, registeredTools).then(next, (error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(errorMessage);
+        next();
+      });
+    }, delayMs);
+    // Background refreshes shouldn't keep the process alive on their own
+    timer.unref();
+    refreshTimers.set(type.name, timer);
+  };
+  schedule(0);
+}
+
+/**
+ * Stops reloading a type's options, or every type's if none is given.
+ */
+export function stopEnumerationRefresh(typeName?: string): void {
+  for (const [name, timer] of refreshTimers) {
+    if (typeName === undefined || name === typeName) {
+      clearTimeout(timer);
+      refreshTimers.delete(name);
+    }
+  }
+}
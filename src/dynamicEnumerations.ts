@@ -0,0 +1,105 @@
+import { findListPath, parsePath, resolvePath } from './pagination.js';
+import type { EnumerationOption, EnumerationSource, SavedTypeConfig } from './types.js';
+
+export interface EnumerationStatus {
+  /** Options from the last successful load, or null if they haven't been loaded */
+  options: EnumerationOption[] | null;
+  loadedAt: number | null;
+  /** Why the last load failed, or null if it succeeded */
+  error: string | null;
+}
+
+const enumerationStatuses = new Map<string, EnumerationStatus>();
+
+/**
+ * Returns the type's definition with the options loaded from its source query
+ * added as a oneOf list of values described by their names. Types without a
+ * source, or whose options haven't been loaded, are returned as saved.
+ */
+export function resolveTypeDefinition(type: SavedTypeConfig): Record<string, any> {
+  const options = type.source ? enumerationStatuses.get(type.name)?.options : null;
+  if (!options || options.length === 0) {
+    return type.type_definition;
+  }
+
+  return {
+    ...type.type_definition,
+    oneOf: options.map(option => ({ const: option.value, description: option.name })),
+  };
+}
+
+export function getEnumerationStatus(typeName: string): EnumerationStatus | null {
+  return enumerationStatuses.get(typeName) ?? null;
+}
+
+/**
+ * Stores the options loaded for a type. Returns whether they differ from the
+ * previously loaded options.
+ */
+export function setEnumerationOptions(typeName: string, options: EnumerationOption[]): boolean {
+  const previous = enumerationStatuses.get(typeName)?.options ?? null;
+  enumerationStatuses.set(typeName, { options, loadedAt: Date.now(), error: null });
+  return JSON.stringify(previous) !== JSON.stringify(options);
+}
+
+/**
+ * Records a failed load. The previously loaded options stay in use.
+ */
+export function setEnumerationError(typeName: string, error: string): void {
+  const previous = enumerationStatuses.get(typeName);
+  enumerationStatuses.set(typeName, { options: previous?.options ?? null, loadedAt: previous?.loadedAt ?? null, error });
+}
+
+export function clearEnumerationOptions(typeName?: string): void {
+  if (typeName === undefined) {
+    enumerationStatuses.clear();
+  } else {
+    enumerationStatuses.delete(typeName);
+  }
+}
+
+/**
+ * Validates the paths of a source, throwing for ones that can't be parsed.
+ */
+export function validateEnumerationSource(source: EnumerationSource): void {
+  for (const key of ['items_path', 'name_path', 'value_path'] as const) {
+    const path = source[key];
+    if (path === undefined) {
+      continue;
+    }
+    try {
+      parsePath(path);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Invalid ${key}: ${errorMessage}`);
+    }
+  }
+}
+
+/**
+ * Extracts a name/value pair from each item of the list in a saved query's
+ * response. Items without a name or value are skipped, as are repeated names.
+ */
+export function extractEnumerationOptions(data: unknown, source: EnumerationSource): EnumerationOption[] {
+  const itemsPath = source.items_path === undefined ? findListPath(data) : parsePath(source.items_path);
+  const items = itemsPath === null ? undefined : resolvePath(data, itemsPath);
+  if (!Array.isArray(items)) {
+    const location = source.items_path === undefined ? 'anywhere in the response' : `at '${source.items_path}'`;
+    throw new TypeError(`No list of items found ${location}`);
+  }
+
+  const namePath = parsePath(source.name_path);
+  const valuePath = parsePath(source.value_path);
+  const options = new Map<string, EnumerationOption>();
+  for (const item of items) {
+    const name = resolvePath(item, namePath);
+    const value = resolvePath(item, valuePath);
+    if ((typeof name === 'string' || typeof name === 'number') && (typeof value === 'string' || typeof value === 'number')) {
+      const optionName = String(name);
+      if (!options.has(optionName)) {
+        options.set(optionName, { name: optionName, value });
+      }
+    }
+  }
+  return [...options.values()];
+}
@@ -1,68 +1,336 @@
 import { type McpServer, type RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 
-import { client } from './client.js';
+import { getClient } from './client.js';
+import { getContextValue } from './contextStore.js';
+import { extractOperation } from './graphqlDocument.js';
+import { formatGraphQLFailure, parseGraphQLFailure, requestWithErrorDetails } from './graphqlErrors.js';
 import { convertJsonSchemaToZod, convertJsonSchemaToMcpZod } from './jsonSchemaValidator.js';
+import { fetchAllPages, type PaginatedResult } from './pagination.js';
+import { buildCacheKey, getCachedResponse, setCachedResponse } from './responseCache.js';
 import { withErrorHandling, type Logger } from './responses.js';
-import { loadAllTools } from './storage.js';
-import type { SavedToolConfig } from './types.js';
+import { validateGraphQLQuery } from './schemaService.js';
+import { loadAllTools, loadAllTypes } from './storage.js';
+import { findDependentTools } from './typeReferences.js';
+import type { SavedToolConfig, SavedToolVariable } from './types.js';
+import { recordToolCall } from './usageStats.js';
+import { applyValueMappings } from './valueMappings.js';
 
 export function registerAllTools(server: McpServer): Map<string, RegisteredTool> {
   const savedTools = loadAllTools();
   const registeredTools = new Map<string, RegisteredTool>();
 
-  // Register all loaded saved tools
+  // Register all loaded saved tools; one with an unresolvable parameter schema is skipped
   for (const [toolName, toolConfig] of savedTools) {
-    const dynamicHandler = createDynamicToolHandler(toolConfig);
+    try {
+      const dynamicHandler = createDynamicToolHandler(toolConfig);
 
-    const dynamicToolConfig = {
-      title: toolConfig.description,
-      description: toolConfig.description,
-      inputSchema: convertJsonSchemaToMcpZod(toolConfig.parameter_schema),
-    };
+      const dynamicToolConfig = {
+        title: toolConfig.description,
+        description: toolConfig.description,
+        inputSchema: getToolInputSchema(toolConfig),
+      };
 
-    const registeredTool = server.registerTool(toolName, dynamicToolConfig, dynamicHandler);
-    registeredTools.set(toolName, registeredTool);
+      const registeredTool = server.registerTool(toolName, dynamicToolConfig, dynamicHandler);
+      registeredTools.set(toolName, registeredTool);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Skipping saved tool '${toolName}': ${errorMessage}`);
+    }
   }
 
   return registeredTools;
 }
 
-export function createDynamicToolHandler(toolConfig: SavedToolConfig) {
+/**
+ * Updates the registered saved tools that use a custom type, directly or through
+ * other types, so clients see the type's current definition. Returns the names
+ * of the updated tools. Tools whose parameter schema no longer resolves keep their
+ * previous definition, and the error is logged to stderr.
+ */
+export function refreshToolsUsingType(typeName: string, registeredTools: Map<string, RegisteredTool>): string[] {
+  const savedTools = loadAllTools();
+  const updatedTools: string[] = [];
+
+  for (const toolName of findDependentTools(typeName, savedTools, loadAllTypes())) {
+    const registeredTool = registeredTools.get(toolName);
+    const toolConfig = savedTools.get(toolName);
+    if (!registeredTool || !toolConfig) {
+      continue;
+    }
+
+    try {
+      registeredTool.update({
+        paramsSchema: getToolInputSchema(toolConfig),
+        callback: createDynamicToolHandler(toolConfig),
+      });
+      updatedTools.push(toolName);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to update saved tool '${toolName}': ${errorMessage}`);
+    }
+  }
+
+  return updatedTools;
+}
+
+/**
+ * Converts a saved tool's parameter_schema to the input schema clients see.
+ * Required parameters named after a query variable can also come from context,
+ * so clients may leave them out; the handler checks them once context is applied.
+ */
+export function getToolInputSchema(toolConfig: SavedToolConfig): Record<string, z.ZodSchema> {
+  const { parameter_schema: parameterSchema } = toolConfig;
+  const properties: Record<string, Record<string, any>> = { ...parameterSchema['properties'] };
+  const required: string[] = Array.isArray(parameterSchema['required']) ? parameterSchema['required'] : [];
+  const contextParameters = toolConfig.variables
+    .map(variable => variable.name)
+    .filter(name => required.includes(name) && properties[name] !== undefined);
+  if (contextParameters.length === 0) {
+    return convertJsonSchemaToMcpZod(parameterSchema);
+  }
+
+  for (const name of contextParameters) {
+    const description = properties[name]?.['description'];
+    const hint = 'required unless set in context';
+    properties[name] = { ...properties[name], description: typeof description === 'string' ? `${description} (${hint})` : hint };
+  }
+  return convertJsonSchemaToMcpZod({
+    ...parameterSchema,
+    properties,
+    required: required.filter(name => !contextParameters.includes(name)),
+  });
+}
+
+export interface DynamicToolHandlerOptions {
+  /**
+   * Test invocations report the resolved variables, timing and, on failure, the
+   * tool definition. They bypass the response cache and are counted separately.
+   */
+  test?: boolean;
+  /** Only check the parameters, variables and query against the schema, without executing */
+  validateOnly?: boolean;
+}
+
+export function createDynamicToolHandler(toolConfig: SavedToolConfig, options: DynamicToolHandlerOptions = {}) {
   const paramSchema = convertJsonSchemaToZod(toolConfig.parameter_schema);
+  const testMode = options.test === true;
+  const validateOnly = options.validateOnly === true;
 
   return async (params: Record<string, any>): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> => {
-    return withErrorHandling(`executing tool '${toolConfig.name}'`, async (log: Logger) => {
+    const startedAt = Date.now();
+    let variables: Record<string, any> | null = null;
+
+    const response = await withErrorHandling(`${testMode ? 'testing' : 'executing'} tool '${toolConfig.name}'`, async (log: Logger) => {
       log('validating parameters');
-      let validatedParams;
-      try {
-        validatedParams = paramSchema.parse(params);
-      } catch (error) {
-        if (error instanceof z.ZodError) {
-          throw new TypeError(`Parameter validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+      const validatedParams = validateParams(paramSchema, withContextValues(toolConfig, params));
+
+      log('extracting variables');
+      variables = extractVariables(toolConfig.variables, applyValueMappings(toolConfig.parameter_schema, validatedParams));
+
+      if (validateOnly) {
+        log('validating query and variables against schema');
+        const validation = await validateGraphQLQuery(
+          toolConfig.graphql_query,
+          variables,
+          toolConfig.operation_name,
+          toolConfig.endpoint
+        );
+        const text = validation.content[0]?.text ?? '';
+        if (validation.isError === true) {
+          throw new Error(text);
         }
-        throw error;
+        return text;
       }
 
-      log('extracting variables');
-      const variables = extractVariables(toolConfig.graphql_query, validatedParams);
+      const { idempotency } = toolConfig;
+      // Tests always run the query, so they neither use nor fill the cache
+      const cacheKey = idempotency?.enabled === true && !testMode
+        ? buildCacheKey(toolConfig.name, idempotency, { ...validatedParams, ...variables })
+        : null;
+      if (cacheKey !== null) {
+        log('checking response cache');
+        const cached = getCachedResponse(cacheKey);
+        if (cached) {
+          return `${cached.value}\n\nNote: cached response from ${cached.ageSeconds}s ago (expires in ${cached.expiresInSeconds}s).`;
+        }
+      }
 
-      log('executing GraphQL query');
-      const result = await client.request(toolConfig.graphql_query, variables);
-      return JSON.stringify(result, null, 2);
+      const { text, complete } = await executeToolQuery(toolConfig, variables, log);
+
+      // Partial data with errors may succeed on the next call, so it isn't cached
+      if (cacheKey !== null && idempotency && complete) {
+        setCachedResponse(cacheKey, toolConfig.name, text, idempotency.ttl_seconds);
+      }
+      return text;
     });
+
+    recordToolCall(toolConfig.name, { test: testMode, failed: response.isError === true });
+    if (!testMode) {
+      return response;
+    }
+    return formatTestResponse(toolConfig, response, { variables, durationMs: Date.now() - startedAt, validateOnly });
   };
 }
 
-function extractVariables(query: string, params: Record<string, any>): Record<string, any> {
-  const variables: Record<string, any> = {};
+/**
+ * Surrounds a test invocation's response with diagnostics: the variables that were
+ * resolved from parameters and context, how long it took, and on failure the
+ * query and parameter schema, so configuration problems are easy to spot.
+ */
+function formatTestResponse(
+  toolConfig: SavedToolConfig,
+  response: { content: { type: 'text'; text: string }[]; isError?: boolean },
+  run: { variables: Record<string, unknown> | null; durationMs: number; validateOnly: boolean }
+): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  const failed = response.isError === true;
+  const mode = run.validateOnly ? 'validation only, nothing was sent' : 'query executed';
+  const variables = run.variables === null
+    ? 'Resolved variables: none (failed before variables were resolved)'
+    : `Resolved variables:\n\`\`\`json\n${JSON.stringify(run.variables, null, 2)}\n\`\`\``;
 
-  const variableMatches = query.match(/\$(\w+)/g) || [];
+  const sections = [
+    `TEST MODE: ${toolConfig.name} (${mode})`,
+    variables,
+    `Duration: ${run.durationMs}ms`,
+    `${failed ? 'Failed' : 'Result'}:\n${response.content.map(item => item.text).join('\n')}`,
+  ];
+  if (failed) {
+    sections.push(
+      `Query:\n\`\`\`graphql\n${toolConfig.graphql_query}\n\`\`\``,
+      `Parameter schema:\n\`\`\`json\n${JSON.stringify(toolConfig.parameter_schema, null, 2)}\n\`\`\``
+    );
+  }
+
+  return {
+    content: [{ type: 'text', text: sections.join('\n\n') }],
+    ...(failed && { isError: true }),
+  };
+}
 
-  for (const match of variableMatches) {
-    const variableName = match.slice(1);
+/**
+ * Runs the tool's query, following pages if pagination is enabled. The result is
+ * incomplete when the server returned partial data with errors.
+ */
+async function executeToolQuery(
+  toolConfig: SavedToolConfig,
+  variables: Record<string, any>,
+  log: Logger
+): Promise<{ text: string; complete: boolean }> {
+  return requestToolQuery(toolConfig, variables, log, {
+    pages: result => {
+      const output = JSON.stringify(result.data, null, 2);
+      const text = result.truncated
+        ? `${output}\n\nNote: results truncated at ${result.items} items from ${result.pages} pages; more results are available.`
+        : output;
+      return { text, complete: true };
+    },
+    single: request => requestWithErrorDetails(request),
+  });
+}
+
+/**
+ * Runs a saved tool's query with the given parameters and returns the response
+ * data, following pages if pagination is enabled. Unlike calling the tool, this
+ * bypasses the response cache and usage counts, and any GraphQL error fails it.
+ */
+export async function fetchToolData(toolConfig: SavedToolConfig, params: Record<string, any>): Promise<unknown> {
+  const validatedParams = validateParams(convertJsonSchemaToZod(toolConfig.parameter_schema), withContextValues(toolConfig, params));
+  const variables = extractVariables(toolConfig.variables, applyValueMappings(toolConfig.parameter_schema, validatedParams));
+
+  return requestToolQuery(toolConfig, variables, () => {}, {
+    pages: result => result.data,
+    single: request => requestData(request),
+  });
+}
+
+/**
+ * Sends a saved tool's query to its endpoint. With pagination enabled, every page
+ * is fetched and merged, and since pages can't be merged around missing data any
+ * GraphQL error fails the whole request. Otherwise the query is sent once through
+ * `single`, which decides how errors are handled.
+ */
+async function requestToolQuery<T>(
+  toolConfig: SavedToolConfig,
+  variables: Record<string, any>,
+  log: Logger,
+  handle: { pages: (result: PaginatedResult) => T; single: (request: () => Promise<unknown>) => Promise<T> }
+): Promise<T> {
+  const query = getToolQuery(toolConfig);
+  const client = getClient(toolConfig.endpoint);
+  const paginationConfig = toolConfig.pagination_config;
+  if (paginationConfig?.enabled === true) {
+    const result = await fetchAllPages(
+      paginationConfig,
+      variables,
+      toolConfig.variables.map(variable => variable.name),
+      pageVariables => requestData(() => client.request(query, pageVariables)),
+      log
+    );
+    return handle.pages(result);
+  }
+
+  log('executing GraphQL query');
+  return handle.single(() => client.request(query, variables));
+}
+
+/**
+ * Fills in parameters named after a query variable from context when the caller
+ * left them out, so context values also satisfy required parameters.
+ */
+function withContextValues(toolConfig: SavedToolConfig, params: Record<string, any>): Record<string, any> {
+  const properties: Record<string, unknown> = toolConfig.parameter_schema['properties'] ?? {};
+  let filled = params;
+  for (const { name: variableName } of toolConfig.variables) {
+    const contextValue = params[variableName] === undefined && variableName in properties ? getContextValue(variableName) : undefined;
+    if (contextValue !== undefined) {
+      filled = { ...filled, [variableName]: contextValue };
+    }
+  }
+  return filled;
+}
+
+function validateParams(paramSchema: z.ZodSchema, params: Record<string, any>): Record<string, any> {
+  try {
+    return paramSchema.parse(params) as Record<string, any>;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new TypeError(`Parameter validation error: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+    }
+    throw error;
+  }
+}
+
+function getToolQuery(toolConfig: SavedToolConfig): string {
+  return toolConfig.operation_name === undefined
+    ? toolConfig.graphql_query
+    : extractOperation(toolConfig.graphql_query, toolConfig.operation_name);
+}
+
+/**
+ * Requests data without accepting partial results: any GraphQL error is thrown.
+ */
+async function requestData(request: () => Promise<unknown>): Promise<unknown> {
+  try {
+    return await request();
+  } catch (error) {
+    const failure = parseGraphQLFailure(error);
+    throw failure ? new Error(formatGraphQLFailure({ ...failure, data: null })) : error;
+  }
+}
+
+function extractVariables(toolVariables: SavedToolVariable[], params: Record<string, any>): Record<string, any> {
+  const variables: Record<string, any> = {};
+
+  for (const { name: variableName } of toolVariables) {
     if (params[variableName] !== undefined) {
       variables[variableName] = params[variableName];
+    } else {
+      // Fall back to session context for variables the caller did not supply
+      const contextValue = getContextValue(variableName);
+      if (contextValue !== undefined) {
+        variables[variableName] = contextValue;
+      }
     }
   }
 
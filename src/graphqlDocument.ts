@@ -0,0 +1,84 @@
+import {
+  type DocumentNode,
+  type OperationDefinitionNode,
+  Kind,
+  parse,
+  print,
+  separateOperations,
+  valueFromASTUntyped,
+} from 'graphql';
+
+import type { SavedToolVariable } from './types.js';
+
+/**
+ * Parses a GraphQL document, reporting syntax errors the same way query validation does.
+ */
+export function parseDocument(query: string): DocumentNode {
+  try {
+    return parse(query);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown parse error';
+    throw new Error(`GraphQL syntax error: ${errorMessage}`);
+  }
+}
+
+export function getOperations(document: DocumentNode): OperationDefinitionNode[] {
+  return document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+  );
+}
+
+/**
+ * Returns the operation with the given name, or the document's only operation if
+ * no name is given. Documents with several operations require a name, since it
+ * would otherwise be ambiguous which one runs.
+ */
+export function selectOperation(document: DocumentNode, operationName?: string): OperationDefinitionNode {
+  const operations = getOperations(document);
+  const names = operations.map(({ name }) => name?.value ?? '<anonymous>').join(', ');
+
+  if (operationName !== undefined) {
+    const operation = operations.find(({ name }) => name?.value === operationName);
+    if (!operation) {
+      throw new Error(`Operation '${operationName}' not found; the document contains: ${names || 'no operations'}`);
+    }
+    return operation;
+  }
+
+  const [operation] = operations;
+  if (!operation) {
+    throw new Error('The document does not contain an operation');
+  }
+  if (operations.length > 1) {
+    throw new Error(`The document contains ${operations.length} operations (${names}); an operation name is required to choose one`);
+  }
+  return operation;
+}
+
+/**
+ * Returns the query to send for the named operation: the operation and the
+ * fragments it uses, without the document's other operations. Documents that
+ * only contain that operation are returned unchanged.
+ */
+export function extractOperation(query: string, operationName: string): string {
+  const document = parseDocument(query);
+  selectOperation(document, operationName);
+  if (getOperations(document).length === 1) {
+    return query;
+  }
+
+  const operationDocument = separateOperations(document)[operationName];
+  return operationDocument ? print(operationDocument) : query;
+}
+
+/**
+ * Describes the variables an operation declares, in declaration order.
+ */
+export function extractOperationVariables(operation: OperationDefinitionNode): SavedToolVariable[] {
+  return (operation.variableDefinitions ?? []).map(definition => ({
+    name: definition.variable.name.value,
+    type: print(definition.type),
+    required: definition.type.kind === Kind.NON_NULL_TYPE && !definition.defaultValue,
+    ...(definition.defaultValue && { default_value: valueFromASTUntyped(definition.defaultValue) }),
+  }));
+}
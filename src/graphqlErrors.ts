@@ -0,0 +1,126 @@
+import { ClientError } from 'graphql-request';
+
+/**
+ * Whose problem a failed request is: the saved tool's query or variables don't
+ * fit the API, or the API failed while handling a well-formed request.
+ */
+export type GraphQLFailureKind = 'tool_configuration' | 'upstream_execution';
+
+export interface GraphQLErrorDetail {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  code?: string;
+}
+
+export interface GraphQLFailure {
+  kind: GraphQLFailureKind;
+  httpStatus: number;
+  errors: GraphQLErrorDetail[];
+  /** Data the server returned alongside the errors, or null if there was none */
+  data: unknown;
+}
+
+// Error codes servers use for requests that fail before execution starts
+const CONFIGURATION_ERROR_CODES = new Set([
+  'GRAPHQL_PARSE_FAILED',
+  'GRAPHQL_VALIDATION_FAILED',
+  'BAD_USER_INPUT',
+  'BAD_REQUEST',
+  'PERSISTED_QUERY_NOT_FOUND',
+  'OPERATION_RESOLUTION_FAILURE',
+]);
+
+const FAILURE_DESCRIPTIONS: Record<GraphQLFailureKind, string> = {
+  tool_configuration: 'the query or variables do not match the API; fix them rather than retrying',
+  upstream_execution: 'the API failed while executing the query',
+};
+
+/**
+ * Extracts the errors, partial data and HTTP status from a failed request. Returns
+ * null for failures that never got a GraphQL response, such as network errors.
+ */
+export function parseGraphQLFailure(error: unknown): GraphQLFailure | null {
+  if (!(error instanceof ClientError)) {
+    return null;
+  }
+
+  const { response } = error;
+  const errors = (response.errors ?? []).map(graphqlError => toErrorDetail(graphqlError));
+  const data = response.data ?? null;
+  return { kind: classifyFailure(response.status, errors, data), httpStatus: response.status, errors, data };
+}
+
+/**
+ * Formats a failure with its classification, a JSON list of errors and any partial data.
+ */
+export function formatGraphQLFailure(failure: GraphQLFailure): string {
+  const label = failure.kind === 'tool_configuration' ? 'Tool configuration error' : 'Upstream execution error';
+  const errorCount = `${failure.errors.length} error${failure.errors.length === 1 ? '' : 's'}`;
+  const heading = failure.data === null
+    ? `${label} (HTTP ${failure.httpStatus}): ${FAILURE_DESCRIPTIONS[failure.kind]}.`
+    : `Partial data with ${errorCount} (${label.toLowerCase()}, HTTP ${failure.httpStatus}).`;
+
+  const sections = [heading];
+  if (failure.errors.length > 0) {
+    sections.push(`Errors:\n${jsonBlock(failure.errors)}`);
+  }
+  if (failure.data !== null) {
+    sections.push(`Data:\n${jsonBlock(failure.data)}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Runs a GraphQL request and formats its result. Responses with partial data are
+ * returned along with their errors, marked as incomplete; other failures are
+ * thrown with the errors formatted into the message.
+ */
+export async function requestWithErrorDetails(request: () => Promise<unknown>): Promise<{ text: string; complete: boolean }> {
+  try {
+    return { text: JSON.stringify(await request(), null, 2), complete: true };
+  } catch (error) {
+    const failure = parseGraphQLFailure(error);
+    if (!failure) {
+      throw error;
+    }
+    if (failure.data === null) {
+      throw new Error(formatGraphQLFailure(failure));
+    }
+    return { text: formatGraphQLFailure(failure), complete: false };
+  }
+}
+
+function classifyFailure(httpStatus: number, errors: GraphQLErrorDetail[], data: unknown): GraphQLFailureKind {
+  if (errors.some(error => error.code !== undefined && CONFIGURATION_ERROR_CODES.has(error.code))) {
+    return 'tool_configuration';
+  }
+  if (httpStatus === 400) {
+    return 'tool_configuration';
+  }
+  // Per the GraphQL spec, errors without data are request errors raised before execution,
+  // such as syntax errors, validation errors and invalid variables
+  if (httpStatus < 300 && data === null && errors.length > 0 && errors.every(error => error.path === undefined)) {
+    return 'tool_configuration';
+  }
+  return 'upstream_execution';
+}
+
+function toErrorDetail(error: {
+  message: string;
+  path?: readonly (string | number)[] | undefined;
+  locations?: readonly { line: number; column: number }[] | undefined;
+  extensions?: Record<string, unknown> | undefined;
+}): GraphQLErrorDetail {
+  const code = error.extensions?.['code'];
+  return {
+    message: error.message,
+    ...(error.path && { path: [...error.path] }),
+    ...(error.locations && { locations: error.locations.map(({ line, column }) => ({ line, column })) }),
+    ...(typeof code === 'string' && { code }),
+  };
+}
+
+function jsonBlock(value: unknown): string {
+  return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+}
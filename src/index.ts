@@ -2,12 +2,15 @@
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 
+import { checkSavedToolsOnStartup } from './savedQueryChecker.js';
 import { server, registeredTools, coreToolsStatus } from './server.js';
 
 async function main(): Promise<void> {
   try {
     const transport = new StdioServerTransport();
     console.error(`Starting GraphQL MCP Metatool: ${coreToolsStatus}, ${registeredTools.size} saved tools loaded`);
+    // Runs before connecting so that clients never see tools disabled by the check
+    await checkSavedToolsOnStartup(registeredTools);
     await server.connect(transport);
   } catch (error) {
     console.error('Failed to start GraphQL MCP server:', error);
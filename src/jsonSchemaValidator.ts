@@ -2,6 +2,12 @@ import Ajv from 'ajv';
 import { jsonSchemaToZod } from 'json-schema-to-zod';
 import { z } from 'zod';
 
+import { resolveTypeDefinition } from './dynamicEnumerations.js';
+import { loadAllTypes } from './storage.js';
+import { dereferenceSchema, findTypeReferences } from './typeReferences.js';
+import type { SavedTypeConfig } from './types.js';
+import { expandValueMappings } from './valueMappings.js';
+
 const ajv = new Ajv({
   strict: false,
   validateFormats: false,
@@ -25,9 +31,11 @@ export function validateJsonSchema(schema: unknown): boolean {
 }
 
 /**
- * Converts a JSON Schema to a Zod schema
+ * Converts a JSON Schema to a Zod schema. Throws if a $ref can't be resolved.
  */
 export function convertJsonSchemaToZod(jsonSchema: Record<string, any>): z.ZodSchema {
+  jsonSchema = prepareJsonSchema(jsonSchema);
+
   try {
     // Use json-schema-to-zod for comprehensive conversion
     const zodSchemaString = jsonSchemaToZod(jsonSchema);
@@ -43,9 +51,11 @@ export function convertJsonSchemaToZod(jsonSchema: Record<string, any>): z.ZodSc
 }
 
 /**
- * Converts a JSON Schema to a Zod schema in the format expected by MCP tools
+ * Converts a JSON Schema to a Zod schema in the format expected by MCP tools.
+ * Throws if a $ref can't be resolved.
  */
 export function convertJsonSchemaToMcpZod(jsonSchema: Record<string, any>): Record<string, z.ZodSchema> {
+  jsonSchema = prepareJsonSchema(jsonSchema);
   const schemaFields: Record<string, z.ZodSchema> = {};
   
   if (jsonSchema['type'] === 'object' && jsonSchema['properties']) {
@@ -63,6 +73,82 @@ export function convertJsonSchemaToMcpZod(jsonSchema: Record<string, any>): Reco
   return schemaFields;
 }
 
+/**
+ * Resolves $refs to local definitions and custom types, and turns lists of
+ * const values and mapped parameters into enums so they survive conversion.
+ * Types, including the options loaded for types populated from saved queries,
+ * are read when the schema is converted, so re-converting picks up changes to them.
+ * Missing and circular references throw rather than leaving the parameter unconstrained.
+ */
+function prepareJsonSchema(jsonSchema: Record<string, any>): Record<string, any> {
+  jsonSchema = expandValueMappings(jsonSchema);
+  const types = findTypeReferences(jsonSchema).length > 0 ? loadResolvedTypes() : new Map();
+  return constUnionsToEnums(dereferenceSchema(jsonSchema, types)) as Record<string, any>;
+}
+
+function loadResolvedTypes(): Map<string, SavedTypeConfig> {
+  return new Map([...loadAllTypes()].map(([typeName, type]) => [typeName, { ...type, type_definition: resolveTypeDefinition(type) }]));
+}
+
+/**
+ * Rewrites oneOf/anyOf lists of const values, the usual way to describe enum
+ * values, as an enum with the value descriptions appended to the description.
+ */
+function constUnionsToEnums(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(item => constUnionsToEnums(item));
+  }
+  if (node === null || typeof node !== 'object') {
+    return node;
+  }
+
+  const schema = Object.fromEntries(
+    Object.entries(node).map(([key, value]) => [key, constUnionsToEnums(value)])
+  ) as Record<string, any>;
+
+  const unionKey = ['oneOf', 'anyOf'].find(key => Array.isArray(schema[key]) && schema[key].length > 0 &&
+    schema[key].every((option: any) => typeof option === 'object' && option !== null && 'const' in option &&
+      Object.keys(option).every(optionKey => ['const', 'title', 'description'].includes(optionKey))));
+  if (unionKey === undefined || schema['enum'] !== undefined) {
+    return schema;
+  }
+
+  const { [unionKey]: options, ...rest } = schema;
+  const values = (options as Record<string, any>[]).map(option => option['const']);
+  const valueDescriptions = (options as Record<string, any>[])
+    .filter(option => typeof option['description'] === 'string')
+    .map(option => `- ${String(option['const'])}: ${option['description']}`);
+
+  const enumSchema: Record<string, any> = { ...rest, enum: values };
+  if (enumSchema['type'] === undefined) {
+    const type = enumValueType(values);
+    if (type !== undefined) {
+      enumSchema['type'] = type;
+    }
+  }
+  if (valueDescriptions.length > 0) {
+    const description = typeof rest['description'] === 'string' ? `${rest['description']}\n` : '';
+    enumSchema['description'] = `${description}${valueDescriptions.join('\n')}`;
+  }
+  return enumSchema;
+}
+
+/**
+ * Returns the JSON Schema type shared by all enum values, if there is one.
+ */
+function enumValueType(values: unknown[]): 'string' | 'integer' | 'number' | undefined {
+  if (values.every(value => typeof value === 'string')) {
+    return 'string';
+  }
+  if (values.every(value => Number.isInteger(value))) {
+    return 'integer';
+  }
+  if (values.every(value => typeof value === 'number')) {
+    return 'number';
+  }
+  return undefined;
+}
+
 /**
  * Safely evaluates a Zod schema string
  */
@@ -119,34 +205,45 @@ function createZodFieldFromJsonSchema(
 ): z.ZodSchema {
   let schema: z.ZodSchema;
   
-  switch (jsonSchema['type']) {
-    case 'string': {
-      schema = z.string();
-      break;
-    }
-    case 'number': {
-      schema = z.number();
-      break;
-    }
-    case 'integer': {
-      schema = z.number().int();
-      break;
-    }
-    case 'boolean': {
-      schema = z.boolean();
-      break;
-    }
-    case 'array': {
-      const itemSchema = jsonSchema['items'] ? createZodFieldFromJsonSchema(jsonSchema['items']) : z.any();
-      schema = z.array(itemSchema);
-      break;
-    }
-    default: {
-      schema = z.any();
-      break;
+  const enumValues = jsonSchema['enum'];
+  const enumSchema = Array.isArray(enumValues) && enumValues.length > 0 ? createZodEnum(enumValues) : undefined;
+
+  if (enumSchema) {
+    schema = enumSchema;
+  } else {
+    switch (jsonSchema['type']) {
+      case 'string': {
+        schema = z.string();
+        break;
+      }
+      case 'number': {
+        schema = z.number();
+        break;
+      }
+      case 'integer': {
+        schema = z.number().int();
+        break;
+      }
+      case 'boolean': {
+        schema = z.boolean();
+        break;
+      }
+      case 'array': {
+        const itemSchema = jsonSchema['items'] ? createZodFieldFromJsonSchema(jsonSchema['items']) : z.any();
+        schema = z.array(itemSchema);
+        break;
+      }
+      default: {
+        schema = z.any();
+        break;
+      }
     }
   }
   
+  if (typeof jsonSchema['description'] === 'string') {
+    schema = schema.describe(jsonSchema['description']);
+  }
+
   // Apply default value if specified
   if (defaultValue !== undefined) {
     schema = schema.default(defaultValue);
@@ -157,4 +254,20 @@ function createZodFieldFromJsonSchema(
   }
   
   return schema;
-}
\ No newline at end of file
+}
+
+/**
+ * Builds a Zod enum for string values, or a union of literals for numeric and
+ * mixed values. Returns undefined when a value can't be used as a literal.
+ */
+function createZodEnum(values: unknown[]): z.ZodSchema | undefined {
+  if (values.every(value => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  if (!values.every(value => value === null || ['string', 'number', 'boolean'].includes(typeof value))) {
+    return undefined;
+  }
+
+  const [first, second, ...rest] = (values as z.Primitive[]).map(value => z.literal(value));
+  return second ? z.union([first as z.ZodLiteral<z.Primitive>, second, ...rest]) : first;
+}
@@ -0,0 +1,534 @@
+import { type DocumentNode, type FragmentDefinitionNode, type SelectionSetNode, Kind, visit } from 'graphql';
+
+import type { Logger } from './responses.js';
+import type { PaginationConfig } from './types.js';
+
+export type PageFetcher = (variables: Record<string, unknown>) => Promise<unknown>;
+
+export interface PaginatedResult {
+  data: unknown;
+  pages: number;
+  items: number;
+  truncated: boolean;
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  /** Undefined when the query doesn't select it */
+  endCursor?: string | null;
+}
+
+/**
+ * Style-specific logic for reading one page and working out the next request.
+ */
+interface PageReader {
+  /** Returns the items on the page and the variables for the next page, or null when done */
+  read(page: unknown, pageNumber: number): { items: unknown[]; nextVariables: Record<string, unknown> | null };
+  /**
+   * Builds the merged response from the first page and all collected items.
+   * `cutOff` is true when max_items dropped items from the last page fetched.
+   */
+  merge(firstPage: unknown, items: unknown[], cutOff: boolean): unknown;
+}
+
+const DEFAULT_CURSOR_VARIABLE = 'after';
+const DEFAULT_OFFSET_VARIABLE = 'offset';
+const DEFAULT_PAGE_SIZE_VARIABLES = { relay: 'first', offset: 'limit', cursor: 'limit' } as const;
+const DEFAULT_MAX_PAGES = 50;
+
+/**
+ * Executes a paginated query, following pages until the list is exhausted or a
+ * configured limit is reached, and merges the results into the shape of a single response.
+ */
+export async function fetchAllPages(
+  config: PaginationConfig,
+  variables: Record<string, unknown>,
+  queryVariables: string[],
+  fetchPage: PageFetcher,
+  log: Logger
+): Promise<PaginatedResult> {
+  validatePaginationConfig(config, queryVariables);
+
+  const pageSizeVariable = config.page_size_variable ?? DEFAULT_PAGE_SIZE_VARIABLES[config.style];
+  const initialVariables = { ...variables };
+  if (queryVariables.includes(pageSizeVariable) && initialVariables[pageSizeVariable] === undefined) {
+    initialVariables[pageSizeVariable] = config.page_size;
+  }
+
+  let reader: PageReader;
+  if (config.merge_strategy === 'custom') {
+    reader = createCustomReader(config, initialVariables, pageSizeVariable);
+  } else if (config.style === 'offset') {
+    reader = createOffsetReader(config, initialVariables, pageSizeVariable);
+  } else {
+    reader = createRelayReader(config, initialVariables, log);
+  }
+
+  return collectPages(config, initialVariables, reader, fetchPage, log);
+}
+
+/**
+ * Checks that a pagination config is supported and can be applied to a query
+ * declaring the given variables. When the query document is given, Relay
+ * pagination also requires it to select the page info needed to follow pages.
+ * Throws with a descriptive message otherwise.
+ */
+export function validatePaginationConfig(config: PaginationConfig, queryVariables: string[], document?: DocumentNode): void {
+  const isCustom = config.merge_strategy === 'custom';
+  if (isCustom) {
+    validateCustomPaths(config);
+  }
+
+  switch (config.style) {
+    case 'relay': {
+      if (!isCustom) {
+        connectionListKey(config);
+      }
+      requireVariable(queryVariables, config.cursor_variable ?? DEFAULT_CURSOR_VARIABLE, 'Relay');
+      if (!isCustom && document && !selectsPageInfo(document)) {
+        throw new Error('Relay pagination requires the query to select pageInfo { hasNextPage endCursor } on the connection');
+      }
+      break;
+    }
+    case 'offset': {
+      requireVariable(queryVariables, config.offset_variable ?? DEFAULT_OFFSET_VARIABLE, 'Offset');
+      requireVariable(queryVariables, config.page_size_variable ?? DEFAULT_PAGE_SIZE_VARIABLES.offset, 'Offset');
+      break;
+    }
+    case 'cursor': {
+      if (!isCustom) {
+        throw new Error(`Cursor pagination requires merge_strategy 'custom' with list_path and cursor_path`);
+      }
+      requireVariable(queryVariables, config.cursor_variable ?? DEFAULT_CURSOR_VARIABLE, 'Cursor');
+      break;
+    }
+  }
+
+  if (config.max_pages !== undefined && config.max_pages < 1) {
+    throw new Error('max_pages must be at least 1');
+  }
+  if (config.max_items !== undefined && config.max_items < 1) {
+    throw new Error('max_items must be at least 1');
+  }
+}
+
+function validateCustomPaths(config: PaginationConfig): void {
+  if (config.list_path === undefined) {
+    throw new Error(`Merge strategy 'custom' requires list_path`);
+  }
+  parsePath(config.list_path);
+
+  if (config.style !== 'offset' && config.cursor_path === undefined) {
+    throw new Error(`Merge strategy 'custom' with ${config.style} pagination requires cursor_path`);
+  }
+  if (config.cursor_path !== undefined) {
+    parsePath(config.cursor_path);
+  }
+  if (config.has_more_path !== undefined) {
+    parsePath(config.has_more_path);
+  }
+}
+
+/**
+ * Whether some `pageInfo` field in the document selects both hasNextPage and
+ * endCursor without aliases, directly or through fragments.
+ */
+function selectsPageInfo(document: DocumentNode): boolean {
+  const fragments = new Map(
+    document.definitions
+      .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+      .map(fragment => [fragment.name.value, fragment])
+  );
+
+  let found = false;
+  visit(document, {
+    Field(node) {
+      if (node.name.value === 'pageInfo' && node.alias === undefined && node.selectionSet) {
+        const { selectionSet } = node;
+        found ||= ['hasNextPage', 'endCursor'].every(fieldName => selectsField(selectionSet, fieldName, fragments, new Set()));
+      }
+    },
+  });
+  return found;
+}
+
+function selectsField(
+  selectionSet: SelectionSetNode,
+  fieldName: string,
+  fragments: Map<string, FragmentDefinitionNode>,
+  visited: Set<string>
+): boolean {
+  return selectionSet.selections.some(selection => {
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        return selection.name.value === fieldName && selection.alias === undefined;
+      }
+      case Kind.INLINE_FRAGMENT: {
+        return selectsField(selection.selectionSet, fieldName, fragments, visited);
+      }
+      case Kind.FRAGMENT_SPREAD: {
+        const fragmentName = selection.name.value;
+        const fragment = fragments.get(fragmentName);
+        return fragment !== undefined && !visited.has(fragmentName) &&
+          selectsField(fragment.selectionSet, fieldName, fragments, new Set([...visited, fragmentName]));
+      }
+    }
+  });
+}
+
+/**
+ * Returns the query variables pagination fills in itself: the cursor or offset
+ * and the page size.
+ */
+export function getPaginationVariables(config: PaginationConfig): string[] {
+  const positionVariable = config.style === 'offset'
+    ? config.offset_variable ?? DEFAULT_OFFSET_VARIABLE
+    : config.cursor_variable ?? DEFAULT_CURSOR_VARIABLE;
+  return [positionVariable, config.page_size_variable ?? DEFAULT_PAGE_SIZE_VARIABLES[config.style]];
+}
+
+function requireVariable(queryVariables: string[], variable: string, style: string): void {
+  if (!queryVariables.includes(variable)) {
+    throw new Error(`${style} pagination requires the query to declare a $${variable} variable`);
+  }
+}
+
+async function collectPages(
+  config: PaginationConfig,
+  initialVariables: Record<string, unknown>,
+  reader: PageReader,
+  fetchPage: PageFetcher,
+  log: Logger
+): Promise<PaginatedResult> {
+  const maxPages = config.max_pages ?? DEFAULT_MAX_PAGES;
+  const maxItems = config.max_items;
+
+  let items: unknown[] = [];
+  let firstPage: unknown;
+  let pages = 0;
+  let truncated = false;
+  let cutOff = false;
+  let variables: Record<string, unknown> | null = initialVariables;
+
+  while (variables !== null) {
+    if (pages >= maxPages) {
+      truncated = true;
+      break;
+    }
+
+    pages++;
+    log(`fetching page ${pages}`);
+    const page = await fetchPage(variables);
+    if (pages === 1) {
+      firstPage = page;
+    }
+
+    const result = reader.read(page, pages);
+    items.push(...result.items);
+    variables = result.nextVariables;
+
+    if (maxItems !== undefined && items.length >= maxItems) {
+      cutOff = items.length > maxItems;
+      truncated = cutOff || variables !== null;
+      items = items.slice(0, maxItems);
+      break;
+    }
+  }
+
+  return { data: reader.merge(firstPage, items, cutOff), pages, items: items.length, truncated };
+}
+
+function createRelayReader(config: PaginationConfig, initialVariables: Record<string, unknown>, log: Logger): PageReader {
+  const cursorVariable = config.cursor_variable ?? DEFAULT_CURSOR_VARIABLE;
+  const listKey = connectionListKey(config);
+  let path: string[] | null = null;
+  let pageInfo: PageInfo | null = null;
+
+  return {
+    read(page, pageNumber) {
+      if (pageNumber === 1) {
+        path = findConnectionPath(page);
+        if (!path) {
+          log('no Relay connection found in response, returning single page');
+          return { items: [], nextVariables: null };
+        }
+      }
+
+      const connection = path ? getAtPath(page, path) : undefined;
+      if (!path || !isConnection(connection)) {
+        throw new Error(`Page ${pageNumber} is missing the connection at '${path?.join('.') ?? ''}'`);
+      }
+
+      const items = readConnectionList(connection, listKey, path);
+      pageInfo = connection['pageInfo'] as PageInfo;
+      // Without endCursor the next request would fetch the first page again
+      if (pageInfo.hasNextPage && pageInfo.endCursor === undefined) {
+        throw new Error(`Connection at '${path.join('.')}' has no pageInfo.endCursor; select endCursor in the query to follow pages`);
+      }
+      const hasNext = pageInfo.hasNextPage && typeof pageInfo.endCursor === 'string';
+      return {
+        items,
+        nextVariables: hasNext ? { ...initialVariables, [cursorVariable]: pageInfo.endCursor } : null,
+      };
+    },
+    merge(firstPage, items, cutOff) {
+      if (!path) {
+        return firstPage;
+      }
+      if (!cutOff) {
+        return replaceAtPath(firstPage, path, connection => ({ ...connection, [listKey]: items, pageInfo }));
+      }
+
+      // The last page's cursor points past items that were dropped, so resume from
+      // the last edge kept, or leave pageInfo out when there is no edge cursor
+      const lastCursor = listKey === 'edges' ? (items[items.length - 1] as Record<string, unknown> | undefined)?.['cursor'] : undefined;
+      return replaceAtPath(firstPage, path, ({ pageInfo: _pageInfo, ...connection }) => ({
+        ...connection,
+        [listKey]: items,
+        ...(typeof lastCursor === 'string' && { pageInfo: { hasNextPage: true, endCursor: lastCursor } }),
+      }));
+    },
+  };
+}
+
+function createOffsetReader(
+  config: PaginationConfig,
+  initialVariables: Record<string, unknown>,
+  pageSizeVariable: string
+): PageReader {
+  const offsetVariable = config.offset_variable ?? DEFAULT_OFFSET_VARIABLE;
+  const startOffset = Number(initialVariables[offsetVariable] ?? 0);
+  const pageSize = Number(initialVariables[pageSizeVariable] ?? config.page_size);
+  let path: string[] | null = null;
+
+  return {
+    read(page, pageNumber) {
+      if (pageNumber === 1) {
+        path = findListPath(page);
+        if (!path) {
+          throw new Error('Offset pagination could not find a list in the response');
+        }
+      }
+
+      const list = path ? getAtPath(page, path) : undefined;
+      if (!path || !Array.isArray(list)) {
+        throw new Error(`Page ${pageNumber} is missing the list at '${path?.join('.') ?? ''}'`);
+      }
+
+      // A short page means the server has run out of results
+      const hasNext = list.length > 0 && list.length >= pageSize;
+      return {
+        items: list,
+        nextVariables: hasNext ? { ...initialVariables, [offsetVariable]: startOffset + pageNumber * pageSize } : null,
+      };
+    },
+    merge(firstPage, items) {
+      if (!path) {
+        return firstPage;
+      }
+      return replaceAtPath(firstPage, path, () => items);
+    },
+  };
+}
+
+/**
+ * Reads pages using the paths named in the config, for APIs that don't follow
+ * Relay conventions (e.g. `{ items, nextToken }`).
+ */
+function createCustomReader(
+  config: PaginationConfig,
+  initialVariables: Record<string, unknown>,
+  pageSizeVariable: string
+): PageReader {
+  const listPath = parsePath(config.list_path ?? '');
+  const cursorPath = config.cursor_path === undefined ? null : parsePath(config.cursor_path);
+  const hasMorePath = config.has_more_path === undefined ? null : parsePath(config.has_more_path);
+  const cursorVariable = config.cursor_variable ?? DEFAULT_CURSOR_VARIABLE;
+  const offsetVariable = config.offset_variable ?? DEFAULT_OFFSET_VARIABLE;
+  const startOffset = Number(initialVariables[offsetVariable] ?? 0);
+  const pageSize = Number(initialVariables[pageSizeVariable] ?? config.page_size);
+  let lastPage: unknown;
+
+  return {
+    read(page, pageNumber) {
+      lastPage = page;
+      const list = resolvePath(page, listPath);
+      if (!Array.isArray(list)) {
+        throw new TypeError(`Page ${pageNumber} has no list at list_path '${config.list_path ?? ''}'`);
+      }
+
+      const hasMoreFlag = hasMorePath ? resolvePath(page, hasMorePath) : undefined;
+      if (hasMorePath && typeof hasMoreFlag !== 'boolean') {
+        throw new TypeError(`Page ${pageNumber} has no boolean at has_more_path '${config.has_more_path ?? ''}'`);
+      }
+
+      if (config.style === 'offset') {
+        const hasNext = hasMoreFlag ?? (list.length > 0 && list.length >= pageSize);
+        return {
+          items: list,
+          nextVariables: hasNext ? { ...initialVariables, [offsetVariable]: startOffset + pageNumber * pageSize } : null,
+        };
+      }
+
+      const cursor = cursorPath ? resolvePath(page, cursorPath) : undefined;
+      const hasCursor = cursor !== undefined && cursor !== null && cursor !== '';
+      const hasNext = hasCursor && (hasMoreFlag ?? true);
+      return {
+        items: list,
+        nextVariables: hasNext ? { ...initialVariables, [cursorVariable]: cursor } : null,
+      };
+    },
+    merge(firstPage, items) {
+      let merged = replaceAtPath(firstPage, normalizePath(firstPage, listPath), () => items);
+      // Report the final continuation state so the agent can tell whether results remain
+      for (const path of [cursorPath, hasMorePath]) {
+        if (path) {
+          const value = resolvePath(lastPage, path);
+          merged = replaceAtPath(merged, normalizePath(merged, path), () => value);
+        }
+      }
+      return merged;
+    },
+  };
+}
+
+/**
+ * Parses a simple JSONPath such as `$.data.items[0].nodes` or `data['items']`
+ * into its property segments.
+ */
+export function parsePath(path: string): string[] {
+  const segments: string[] = [];
+  const pattern = /\.?([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/gy;
+  const source = path.startsWith('$') ? path.slice(1) : path;
+
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    segments.push(match[1] ?? match[2] ?? match[3] ?? '');
+    if (pattern.lastIndex === source.length) {
+      break;
+    }
+  }
+
+  if (segments.length === 0 || pattern.lastIndex !== source.length) {
+    throw new Error(`Invalid path '${path}'; use dot notation such as data.repository.issues.nodes`);
+  }
+  return segments;
+}
+
+/**
+ * Responses are the GraphQL `data` object, so allow paths written from the
+ * root of the full response (`data.…`) as well.
+ */
+function normalizePath(value: unknown, path: string[]): string[] {
+  const hasDataKey = value !== null && typeof value === 'object' && 'data' in value;
+  return path[0] === 'data' && !hasDataKey ? path.slice(1) : path;
+}
+
+/**
+ * Returns the value at a path parsed by parsePath, or undefined if there is none.
+ */
+export function resolvePath(value: unknown, path: string[]): unknown {
+  return getAtPath(value, normalizePath(value, path));
+}
+
+function connectionListKey(config: PaginationConfig): 'nodes' | 'edges' {
+  switch (config.merge_strategy) {
+    case 'concat_nodes': {
+      return 'nodes';
+    }
+    case 'concat_edges': {
+      return 'edges';
+    }
+    case 'custom': {
+      throw new Error(`Merge strategy '${config.merge_strategy}' is not supported for Relay pagination`);
+    }
+  }
+}
+
+function readConnectionList(connection: Record<string, unknown>, listKey: string, path: string[]): unknown[] {
+  const list = connection[listKey];
+  if (!Array.isArray(list)) {
+    throw new TypeError(`Connection at '${path.join('.')}' has no '${listKey}' list; select ${listKey} in the query or change merge_strategy`);
+  }
+  return list;
+}
+
+/**
+ * Finds the first object in the response that looks like a Relay connection,
+ * i.e. has a pageInfo object with a hasNextPage flag.
+ */
+export function findConnectionPath(value: unknown, path: string[] = []): string[] | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  if (isConnection(value)) {
+    return path;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const found = findConnectionPath(child, [...path, key]);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the first list in the response, searching objects depth-first.
+ */
+export function findListPath(value: unknown, path: string[] = []): string[] | null {
+  if (Array.isArray(value)) {
+    return path;
+  }
+  if (value === null || typeof value !== 'object') {
+    return null;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const found = findListPath(child, [...path, key]);
+    if (found) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+function isConnection(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const { pageInfo } = value as Record<string, unknown>;
+  return pageInfo !== null && typeof pageInfo === 'object' && typeof (pageInfo as Record<string, unknown>)['hasNextPage'] === 'boolean';
+}
+
+function getAtPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function replaceAtPath(value: unknown, path: string[], replace: (current: Record<string, unknown>) => unknown): unknown {
+  if (path.length === 0) {
+    return replace(value as Record<string, unknown>);
+  }
+
+  const merged = structuredClone(value);
+  const parent = getAtPath(merged, path.slice(0, -1));
+  // Nothing to replace when the path runs through a null or missing value
+  if (typeof parent !== 'object' || parent === null) {
+    return merged;
+  }
+  const record = parent as Record<string, unknown>;
+  const key = path[path.length - 1] as string;
+  record[key] = replace(record[key] as Record<string, unknown>);
+  return merged;
+}
@@ -0,0 +1,245 @@
+import {
+  type GraphQLInputType,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type TypeNode,
+  Kind,
+  astFromValue,
+  isEnumType,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+  isScalarType,
+  valueFromASTUntyped,
+} from 'graphql';
+
+type JsonSchema = Record<string, any>;
+
+const BUILT_IN_SCALARS: Record<string, JsonSchema> = {
+  Int: { type: 'integer' },
+  Float: { type: 'number' },
+  String: { type: 'string' },
+  ID: { type: 'string' },
+  Boolean: { type: 'boolean' },
+};
+
+/**
+ * Derives a JSON Schema for a tool's parameters from the operation's variable
+ * definitions. Non-null variables without a default are required, which context
+ * values of the same name also satisfy. Enums and input objects are expanded
+ * using the schema; without one they accept any value.
+ */
+export function generateParameterSchema(operation: OperationDefinitionNode, schema: GraphQLSchema | null): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const definition of operation.variableDefinitions ?? []) {
+    const variableName = definition.variable.name.value;
+    const property = typeNodeToJsonSchema(definition.type, schema);
+    if (definition.defaultValue) {
+      property['default'] = valueFromASTUntyped(definition.defaultValue);
+    } else if (definition.type.kind === Kind.NON_NULL_TYPE) {
+      required.push(variableName);
+    }
+    properties[variableName] = property;
+  }
+
+  return { type: 'object', properties, ...(required.length > 0 && { required }) };
+}
+
+/**
+ * Compares a hand-written parameter_schema with the one generated from the
+ * query and describes where they disagree: missing or unknown variables,
+ * optional parameters for required variables, incompatible types and enum
+ * values the API doesn't accept. Pagination variables may be left out, since
+ * pagination fills them in.
+ */
+export function findParameterSchemaMismatches(
+  parameterSchema: JsonSchema,
+  generatedSchema: JsonSchema,
+  paginationVariables: string[] = []
+): string[] {
+  const properties = readProperties(parameterSchema);
+  const generatedProperties = readProperties(generatedSchema);
+  const required = readRequired(parameterSchema);
+  const mismatches: string[] = [];
+
+  for (const [variableName, generated] of Object.entries(generatedProperties)) {
+    const provided = properties[variableName];
+    const isNonNull = readRequired(generatedSchema).includes(variableName);
+    if (provided === undefined) {
+      if (paginationVariables.includes(variableName)) {
+        continue;
+      }
+      mismatches.push(isNonNull
+        ? `$${variableName} is non-null in the query but missing from parameter_schema, so calls fail unless context provides it`
+        : `$${variableName} is declared by the query but missing from parameter_schema, so it can only come from context`);
+      continue;
+    }
+    if (isNonNull && !required.includes(variableName)) {
+      mismatches.push(`$${variableName} is non-null in the query but not required in parameter_schema; require it, context values still satisfy required parameters`);
+    }
+    mismatches.push(...compareSchemas(provided, generated, `$${variableName}`));
+  }
+
+  for (const parameterName of Object.keys(properties)) {
+    if (!(parameterName in generatedProperties)) {
+      mismatches.push(`'${parameterName}' is in parameter_schema but is not a variable of the query`);
+    }
+  }
+
+  return mismatches;
+}
+
+function typeNodeToJsonSchema(typeNode: TypeNode, schema: GraphQLSchema | null): JsonSchema {
+  switch (typeNode.kind) {
+    case Kind.NON_NULL_TYPE: {
+      return typeNodeToJsonSchema(typeNode.type, schema);
+    }
+    case Kind.LIST_TYPE: {
+      return { type: 'array', items: typeNodeToJsonSchema(typeNode.type, schema) };
+    }
+    case Kind.NAMED_TYPE: {
+      const typeName = typeNode.name.value;
+      const type = schema?.getType(typeName);
+      if (type) {
+        return namedTypeToJsonSchema(type, new Set());
+      }
+      return { ...(BUILT_IN_SCALARS[typeName] ?? { description: `GraphQL ${typeName} value` }) };
+    }
+  }
+}
+
+function inputTypeToJsonSchema(type: GraphQLInputType, expanding: Set<string>): JsonSchema {
+  if (isNonNullType(type)) {
+    return inputTypeToJsonSchema(type.ofType, expanding);
+  }
+  if (isListType(type)) {
+    return { type: 'array', items: inputTypeToJsonSchema(type.ofType, expanding) };
+  }
+  return namedTypeToJsonSchema(type, expanding);
+}
+
+function namedTypeToJsonSchema(type: GraphQLNamedType, expanding: Set<string>): JsonSchema {
+  const description = typeof type.description === 'string' ? { description: type.description } : {};
+
+  if (isScalarType(type)) {
+    return { ...(BUILT_IN_SCALARS[type.name] ?? { description: type.description ?? `GraphQL ${type.name} scalar` }) };
+  }
+  if (isEnumType(type)) {
+    return { type: 'string', enum: type.getValues().map(value => value.name), ...description };
+  }
+  if (!isInputObjectType(type)) {
+    // Variables can only have input types; validation reports anything else
+    return {};
+  }
+  if (expanding.has(type.name)) {
+    // Recursive input types, e.g. filters combined with AND/OR, are only expanded once
+    return { type: 'object', description: `${type.name} input (recursive, not expanded)` };
+  }
+
+  expanding.add(type.name);
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const field of Object.values(type.getFields())) {
+    const property = inputTypeToJsonSchema(field.type, expanding);
+    if (typeof field.description === 'string') {
+      property['description'] = field.description;
+    }
+    const defaultValue = field.defaultValue === undefined ? undefined : astFromValue(field.defaultValue, field.type);
+    if (defaultValue) {
+      property['default'] = valueFromASTUntyped(defaultValue);
+    } else if (isNonNullType(field.type)) {
+      required.push(field.name);
+    }
+    properties[field.name] = property;
+  }
+  expanding.delete(type.name);
+
+  return { type: 'object', properties, ...(required.length > 0 && { required }), ...description };
+}
+
+function compareSchemas(provided: JsonSchema, generated: JsonSchema, label: string): string[] {
+  // Mapped parameters take names, which are translated to the variable's type when the tool runs
+  if (typeof provided['x-mapping'] === 'string') {
+    return [];
+  }
+
+  const generatedType = generated['type'];
+  if (typeof generatedType !== 'string') {
+    return [];
+  }
+
+  const providedTypes = readTypes(provided);
+  if (providedTypes.length > 0 && !providedTypes.every(type => isCompatibleType(type, generatedType))) {
+    return [`${label} is ${providedTypes.join(' or ')} in parameter_schema but ${generatedType} in the query`];
+  }
+
+  if (Array.isArray(generated['enum']) && Array.isArray(provided['enum'])) {
+    const allowed = new Set<unknown>(generated['enum']);
+    const unknownValues = (provided['enum'] as unknown[]).filter(value => value !== null && !allowed.has(value));
+    return unknownValues.length > 0
+      ? [`${label} allows values the API does not accept: ${unknownValues.map(value => JSON.stringify(value)).join(', ')}`]
+      : [];
+  }
+
+  if (generatedType === 'array' && isObject(provided['items']) && isObject(generated['items'])) {
+    return compareSchemas(provided['items'], generated['items'], `${label}[]`);
+  }
+
+  if (generatedType === 'object' && isObject(provided['properties']) && isObject(generated['properties'])) {
+    return compareInputFields(provided, generated, label);
+  }
+
+  return [];
+}
+
+function compareInputFields(provided: JsonSchema, generated: JsonSchema, label: string): string[] {
+  const fields = readProperties(provided);
+  const generatedFields = readProperties(generated);
+  const required = readRequired(provided);
+  const mismatches: string[] = [];
+
+  for (const [fieldName, field] of Object.entries(fields)) {
+    const generatedField = generatedFields[fieldName];
+    if (generatedField === undefined) {
+      mismatches.push(`${label}.${fieldName} is not a field of the input type`);
+    } else {
+      mismatches.push(...compareSchemas(field, generatedField, `${label}.${fieldName}`));
+    }
+  }
+
+  // Required input fields can't be left out, even if parameter_schema doesn't list them
+  for (const fieldName of readRequired(generated)) {
+    if (!required.includes(fieldName)) {
+      mismatches.push(`${label}.${fieldName} is required by the input type but not in parameter_schema`);
+    }
+  }
+
+  return mismatches;
+}
+
+function isCompatibleType(providedType: string, generatedType: string): boolean {
+  // Nullable variables accept null, and every integer is a valid Float
+  return providedType === generatedType || providedType === 'null' || (providedType === 'integer' && generatedType === 'number');
+}
+
+function readTypes(schema: JsonSchema): string[] {
+  const { type } = schema as { type?: unknown };
+  if (typeof type === 'string') {
+    return [type];
+  }
+  return Array.isArray(type) ? type.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function readProperties(schema: JsonSchema): Record<string, JsonSchema> {
+  return isObject(schema['properties']) ? (schema['properties'] as Record<string, JsonSchema>) : {};
+}
+
+function readRequired(schema: JsonSchema): string[] {
+  return Array.isArray(schema['required']) ? (schema['required'] as string[]) : [];
+}
+
+function isObject(value: unknown): value is JsonSchema {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,233 @@
+import { getResponseCacheFilePath, loadResponseCacheFile, saveResponseCacheFile } from './storage.js';
+import type { CachedResponseEntry, IdempotencyConfig } from './types.js';
+
+export interface CachedResponse {
+  value: string;
+  ageSeconds: number;
+  expiresInSeconds: number;
+}
+
+export interface ResponseCacheStats {
+  persistent: boolean;
+  location: string;
+  entries: number;
+  totalBytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  tools: { toolName: string; entries: number; bytes: number; oldestAgeSeconds: number }[];
+}
+
+const PERSIST_CACHE = process.env['MCP_GRAPHQL_CACHE_PERSIST']?.toLowerCase() === 'true';
+const MAX_ENTRIES = readPositiveInt('MCP_GRAPHQL_CACHE_MAX_ENTRIES', 1000);
+const MAX_BYTES = readPositiveInt('MCP_GRAPHQL_CACHE_MAX_BYTES', 5 * 1024 * 1024);
+
+// Entries are kept in least-recently-used order: the first entry is evicted first
+const cache = new Map<string, CachedResponseEntry>();
+let totalBytes = 0;
+let loaded = !PERSIST_CACHE;
+
+/**
+ * Builds the cache key for a saved tool call from the tool name and the
+ * values of the parameters listed in cache_key_params.
+ */
+export function buildCacheKey(toolName: string, config: IdempotencyConfig, params: Record<string, unknown>): string {
+  const keyValues = [...config.cache_key_params].sort().map(param => [param, params[param] ?? null]);
+  return `${toolName}:${stableStringify(keyValues)}`;
+}
+
+/**
+ * Returns the cached response for a key, or null if missing or expired.
+ */
+export function getCachedResponse(key: string, now: number = Date.now()): CachedResponse | null {
+  ensureLoaded(now);
+
+  const entry = cache.get(key);
+  if (!entry) {
+    return null;
+  }
+
+  if (entry.expiresAt <= now) {
+    removeEntry(key);
+    persist();
+    return null;
+  }
+
+  // Mark as most recently used. The new order is written to disk with the next change.
+  cache.delete(key);
+  cache.set(key, entry);
+
+  return {
+    value: entry.value,
+    ageSeconds: Math.floor((now - entry.createdAt) / 1000),
+    expiresInSeconds: Math.ceil((entry.expiresAt - now) / 1000),
+  };
+}
+
+export function setCachedResponse(
+  key: string,
+  toolName: string,
+  value: string,
+  ttlSeconds: number,
+  now: number = Date.now()
+): void {
+  ensureLoaded(now);
+
+  removeEntry(key);
+  if (entrySize(value) > MAX_BYTES) {
+    // Never worth evicting the whole cache for a single oversized response
+    persist();
+    return;
+  }
+
+  addEntry({ key, toolName, value, createdAt: now, expiresAt: now + ttlSeconds * 1000 });
+  evict(now);
+  persist();
+}
+
+/**
+ * Removes cached responses for one tool, or for all tools if no name is given.
+ * Returns the number of entries removed.
+ */
+export function clearCachedResponses(toolName?: string): number {
+  ensureLoaded(Date.now());
+
+  let removed = 0;
+  for (const [key, entry] of cache) {
+    if (toolName === undefined || entry.toolName === toolName) {
+      removeEntry(key);
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    persist();
+  }
+  return removed;
+}
+
+/**
+ * Summarises the cache contents, after dropping expired entries.
+ */
+export function getCacheStats(now: number = Date.now()): ResponseCacheStats {
+  ensureLoaded(now);
+  if (removeExpired(now) > 0) {
+    persist();
+  }
+
+  const tools = new Map<string, { toolName: string; entries: number; bytes: number; oldestAgeSeconds: number }>();
+  for (const entry of cache.values()) {
+    const stats = tools.get(entry.toolName) ?? { toolName: entry.toolName, entries: 0, bytes: 0, oldestAgeSeconds: 0 };
+    stats.entries++;
+    stats.bytes += entrySize(entry.value);
+    stats.oldestAgeSeconds = Math.max(stats.oldestAgeSeconds, Math.floor((now - entry.createdAt) / 1000));
+    tools.set(entry.toolName, stats);
+  }
+
+  return {
+    persistent: PERSIST_CACHE,
+    location: PERSIST_CACHE ? getResponseCacheFilePath() : 'memory',
+    entries: cache.size,
+    totalBytes,
+    maxEntries: MAX_ENTRIES,
+    maxBytes: MAX_BYTES,
+    tools: [...tools.values()].sort((a, b) => a.toolName.localeCompare(b.toolName)),
+  };
+}
+
+function ensureLoaded(now: number): void {
+  if (loaded) {
+    return;
+  }
+  loaded = true;
+
+  try {
+    for (const entry of loadResponseCacheFile()) {
+      if (entry.expiresAt > now) {
+        addEntry(entry);
+      }
+    }
+  } catch (error) {
+    // A corrupt cache file shouldn't stop tools from working; it is rewritten on the next change
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Ignoring response cache: ${errorMessage}`);
+  }
+  evict(now);
+}
+
+function persist(): void {
+  if (!PERSIST_CACHE) {
+    return;
+  }
+
+  try {
+    saveResponseCacheFile([...cache.values()]);
+  } catch (error) {
+    // Caching is an optimisation; a failed write must not fail the tool call
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(errorMessage);
+  }
+}
+
+function addEntry(entry: CachedResponseEntry): void {
+  cache.set(entry.key, entry);
+  totalBytes += entrySize(entry.value);
+}
+
+function removeEntry(key: string): void {
+  const entry = cache.get(key);
+  if (entry) {
+    cache.delete(key);
+    totalBytes -= entrySize(entry.value);
+  }
+}
+
+function removeExpired(now: number): number {
+  let removed = 0;
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt <= now) {
+      removeEntry(key);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Drops expired entries, then least recently used entries until within limits.
+ */
+function evict(now: number): void {
+  removeExpired(now);
+
+  for (const key of cache.keys()) {
+    if (cache.size <= MAX_ENTRIES && totalBytes <= MAX_BYTES) {
+      break;
+    }
+    removeEntry(key);
+  }
+}
+
+function entrySize(value: string): number {
+  return Buffer.byteLength(value, 'utf8');
+}
+
+function readPositiveInt(name: string, defaultValue: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isInteger(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal values always produce equal keys.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,152 @@
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type GraphQLSchema, NoDeprecatedCustomRule, parse, validate } from 'graphql';
+
+import { refreshSchema } from './schemaService.js';
+import { loadAllTools } from './storage.js';
+import type { SavedToolConfig } from './types.js';
+
+export interface SavedToolCheck {
+  toolName: string;
+  /** Reasons the query no longer runs, e.g. removed fields or changed argument types */
+  errors: string[];
+  /** Deprecated fields, arguments and enum values the query still uses */
+  deprecations: string[];
+}
+
+export type StartupCheckMode = 'off' | 'warn' | 'disable';
+
+const STARTUP_CHECK_MODE = readStartupCheckMode();
+
+/**
+ * Validates a saved tool's query against the schema.
+ */
+export function checkSavedTool(schema: GraphQLSchema, toolConfig: SavedToolConfig): SavedToolCheck {
+  let document;
+  try {
+    document = parse(toolConfig.graphql_query);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown parse error';
+    return { toolName: toolConfig.name, errors: [`GraphQL syntax error: ${errorMessage}`], deprecations: [] };
+  }
+
+  const errors = validate(schema, document).map(error => error.message);
+  // Deprecation checks are only meaningful for documents that are otherwise valid
+  const deprecations = errors.length > 0 ? [] : validate(schema, document, [NoDeprecatedCustomRule]).map(error => error.message);
+  return { toolName: toolConfig.name, errors, deprecations };
+}
+
+/**
+ * Validates every saved tool against the schema, sorted by tool name.
+ */
+export function checkSavedTools(schema: GraphQLSchema, tools: Map<string, SavedToolConfig>): SavedToolCheck[] {
+  return [...tools.values()]
+    .map(toolConfig => checkSavedTool(schema, toolConfig))
+    .sort((a, b) => a.toolName.localeCompare(b.toolName));
+}
+
+/**
+ * Refetches the schema of every endpoint the tools query and validates each tool
+ * against its endpoint's schema, sorted by tool name. Throws if a schema can't be fetched.
+ */
+export async function refreshAndCheckSavedTools(tools: Map<string, SavedToolConfig>): Promise<SavedToolCheck[]> {
+  const toolsByEndpoint = new Map<string | undefined, Map<string, SavedToolConfig>>();
+  for (const toolConfig of tools.values()) {
+    const endpointTools = toolsByEndpoint.get(toolConfig.endpoint) ?? new Map<string, SavedToolConfig>();
+    endpointTools.set(toolConfig.name, toolConfig);
+    toolsByEndpoint.set(toolConfig.endpoint, endpointTools);
+  }
+
+  const checks: SavedToolCheck[] = [];
+  for (const [endpoint, endpointTools] of toolsByEndpoint) {
+    const { schema } = await refreshSchema(endpoint);
+    checks.push(...checkSavedTools(schema, endpointTools));
+  }
+  return checks.sort((a, b) => a.toolName.localeCompare(b.toolName));
+}
+
+/**
+ * Disables registered tools whose query no longer validates, so clients stop
+ * seeing them, and enables tools that validate again. Returns the changed tools.
+ */
+export function applySavedToolChecks(
+  checks: SavedToolCheck[],
+  registeredTools: Map<string, RegisteredTool>
+): { disabled: string[]; enabled: string[] } {
+  const disabled: string[] = [];
+  const enabled: string[] = [];
+
+  for (const check of checks) {
+    const registeredTool = registeredTools.get(check.toolName);
+    if (!registeredTool) {
+      continue;
+    }
+
+    const broken = check.errors.length > 0;
+    if (broken && registeredTool.enabled) {
+      registeredTool.disable();
+      disabled.push(check.toolName);
+    } else if (!broken && !registeredTool.enabled) {
+      registeredTool.enable();
+      enabled.push(check.toolName);
+    }
+  }
+
+  return { disabled, enabled };
+}
+
+/**
+ * Formats a summary line followed by the problems found for each tool.
+ */
+export function formatSavedToolChecks(checks: SavedToolCheck[]): string {
+  const broken = checks.filter(check => check.errors.length > 0);
+  const deprecated = checks.filter(check => check.errors.length === 0 && check.deprecations.length > 0);
+  const ok = checks.length - broken.length - deprecated.length;
+
+  const toolCount = `${checks.length} saved tool${checks.length === 1 ? '' : 's'}`;
+  const summary = `Checked ${toolCount} against the current schema: ${broken.length} broken, ${deprecated.length} using deprecated fields, ${ok} OK.`;
+  const details = [
+    ...broken.map(check => `- **${check.toolName}** (broken): ${check.errors.join('; ')}`),
+    ...deprecated.map(check => `- **${check.toolName}** (deprecated): ${check.deprecations.join('; ')}`),
+  ];
+
+  return details.length > 0 ? `${summary}\n\n${details.join('\n')}` : summary;
+}
+
+/**
+ * Checks all saved tools at startup when MCP_GRAPHQL_CHECK_SAVED_QUERIES is set:
+ * `warn` logs problems to stderr, `disable` also disables broken tools. A schema
+ * that can't be fetched is logged and the tools are left as they are.
+ */
+export async function checkSavedToolsOnStartup(
+  registeredTools: Map<string, RegisteredTool>,
+  mode: StartupCheckMode = STARTUP_CHECK_MODE
+): Promise<void> {
+  if (mode === 'off') {
+    return;
+  }
+
+  let checks;
+  try {
+    checks = await refreshAndCheckSavedTools(loadAllTools());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Skipping saved tool check: ${errorMessage}`);
+    return;
+  }
+
+  if (checks.some(check => check.errors.length > 0 || check.deprecations.length > 0)) {
+    console.error(formatSavedToolChecks(checks));
+  }
+
+  if (mode === 'disable') {
+    const { disabled } = applySavedToolChecks(checks, registeredTools);
+    if (disabled.length > 0) {
+      console.error(`Disabled broken saved tools: ${disabled.join(', ')}`);
+    }
+  }
+}
+
+function readStartupCheckMode(): StartupCheckMode {
+  const value = process.env['MCP_GRAPHQL_CHECK_SAVED_QUERIES']?.toLowerCase();
+  return value === 'warn' || value === 'disable' ? value : 'off';
+}
@@ -0,0 +1,102 @@
+import {
+  findBreakingChanges,
+  findDangerousChanges,
+  type GraphQLInterfaceType,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  isInterfaceType,
+  isObjectType,
+} from 'graphql';
+
+export interface SchemaChanges {
+  /** Changes that can break existing queries, e.g. removed fields or changed argument types */
+  breaking: string[];
+  /** Changes that existing queries keep working with but whose results may differ, e.g. new enum values */
+  dangerous: string[];
+  /** Additions and deprecations that don't affect existing queries */
+  safe: string[];
+}
+
+/**
+ * Compares two versions of a schema, classifying each change with the graphql-js
+ * change finder. Safe changes, which the change finder ignores, are found separately.
+ */
+export function findSchemaChanges(oldSchema: GraphQLSchema, newSchema: GraphQLSchema): SchemaChanges {
+  return {
+    breaking: findBreakingChanges(oldSchema, newSchema).map(change => change.description),
+    dangerous: findDangerousChanges(oldSchema, newSchema).map(change => change.description),
+    safe: findSafeChanges(oldSchema, newSchema),
+  };
+}
+
+export function countSchemaChanges(changes: SchemaChanges): number {
+  return changes.breaking.length + changes.dangerous.length + changes.safe.length;
+}
+
+/**
+ * Formats changes as sections of bullet points, most severe first. Empty sections are left out.
+ */
+export function formatSchemaChanges(changes: SchemaChanges): string {
+  const sections: [string, string[]][] = [
+    ['Breaking changes', changes.breaking],
+    ['Dangerous changes', changes.dangerous],
+    ['Safe changes', changes.safe],
+  ];
+
+  return sections
+    .filter(([, descriptions]) => descriptions.length > 0)
+    .map(([label, descriptions]) => {
+      const items = descriptions.map(description => `- ${description}`);
+      return `${label} (${descriptions.length}):\n${items.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Finds added types, added output fields and newly deprecated fields.
+ */
+function findSafeChanges(oldSchema: GraphQLSchema, newSchema: GraphQLSchema): string[] {
+  const changes: string[] = [];
+  const oldTypes = oldSchema.getTypeMap();
+
+  for (const newType of Object.values(newSchema.getTypeMap())) {
+    if (newType.name.startsWith('__')) {
+      continue;
+    }
+
+    const oldType = oldTypes[newType.name];
+    if (!oldType) {
+      changes.push(`${newType.name} was added.`);
+      continue;
+    }
+
+    if ((isObjectType(oldType) || isInterfaceType(oldType)) && (isObjectType(newType) || isInterfaceType(newType))) {
+      changes.push(...findSafeFieldChanges(oldType, newType));
+    }
+  }
+
+  return changes;
+}
+
+function findSafeFieldChanges(
+  oldType: GraphQLObjectType | GraphQLInterfaceType,
+  newType: GraphQLObjectType | GraphQLInterfaceType
+): string[] {
+  const changes: string[] = [];
+  const oldFields = oldType.getFields();
+
+  for (const newField of Object.values(newType.getFields())) {
+    const oldField = oldFields[newField.name];
+    if (!oldField) {
+      changes.push(`${newType.name}.${newField.name} was added.`);
+    } else if (isDeprecated(newField) && !isDeprecated(oldField)) {
+      changes.push(`${newType.name}.${newField.name} was deprecated: ${newField.deprecationReason ?? ''}`);
+    }
+  }
+
+  return changes;
+}
+
+function isDeprecated(field: { deprecationReason?: string | null | undefined }): boolean {
+  return field.deprecationReason !== null && field.deprecationReason !== undefined;
+}
@@ -0,0 +1,174 @@
+import {
+  astFromValue,
+  type GraphQLArgument,
+  type GraphQLEnumType,
+  type GraphQLField,
+  type GraphQLInputField,
+  type GraphQLInputType,
+  type GraphQLNamedType,
+  type GraphQLObjectType,
+  type GraphQLSchema,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  isScalarType,
+  isSpecifiedScalarType,
+  isUnionType,
+  print,
+} from 'graphql';
+
+/**
+ * Formats the root operation fields and a list of all named types, grouped by kind.
+ */
+export function formatSchemaOverview(schema: GraphQLSchema): string {
+  const sections: string[] = [];
+
+  const rootTypes: [string, GraphQLObjectType | null | undefined][] = [
+    ['Query', schema.getQueryType()],
+    ['Mutation', schema.getMutationType()],
+    ['Subscription', schema.getSubscriptionType()],
+  ];
+  for (const [operation, rootType] of rootTypes) {
+    if (rootType) {
+      const fields = Object.values(rootType.getFields()).map(field => `- ${formatFieldLine(field)}`);
+      const heading = rootType.name === operation ? operation : `${operation} (${rootType.name})`;
+      sections.push(`## ${heading}\n${fields.join('\n')}`);
+    }
+  }
+
+  const groups: [string, (type: GraphQLNamedType) => boolean][] = [
+    ['Objects', isObjectType],
+    ['Interfaces', isInterfaceType],
+    ['Unions', isUnionType],
+    ['Enums', isEnumType],
+    ['Input objects', isInputObjectType],
+    ['Scalars', type => isScalarType(type) && !isSpecifiedScalarType(type)],
+  ];
+  const namedTypes = Object.values(schema.getTypeMap())
+    .filter(type => !type.name.startsWith('__') && !isRootType(schema, type))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const [label, matches] of groups) {
+    const names = namedTypes.filter(type => matches(type)).map(type => type.name);
+    if (names.length > 0) {
+      sections.push(`## ${label} (${names.length})\n${names.join(', ')}`);
+    }
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Formats a named type with its description, fields or values and related types.
+ */
+export function formatTypeDetails(schema: GraphQLSchema, type: GraphQLNamedType): string {
+  const lines = [formatTypeHeader(type)];
+  if (type.description) {
+    lines.push(type.description);
+  }
+
+  if (isObjectType(type) || isInterfaceType(type)) {
+    lines.push('', 'Fields:', ...Object.values(type.getFields()).flatMap(field => formatFieldDetails(field)));
+  }
+
+  if (isInterfaceType(type)) {
+    const implementations = schema.getPossibleTypes(type).map(implementation => implementation.name);
+    lines.push('', `Implemented by: ${implementations.length > 0 ? implementations.join(', ') : 'none'}`);
+  }
+
+  if (isUnionType(type)) {
+    lines.push('', `Possible types: ${type.getTypes().map(member => member.name).join(', ')}`);
+  }
+
+  if (isEnumType(type)) {
+    lines.push('', 'Values:', ...formatEnumValues(type));
+  }
+
+  if (isInputObjectType(type)) {
+    lines.push('', 'Input fields:', ...Object.values(type.getFields()).map(field => `- ${formatInputValue(field)}${formatNotes(field)}`));
+  }
+
+  if (isScalarType(type) && type.specifiedByURL) {
+    lines.push('', `Specified by: ${type.specifiedByURL}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Formats a field as a signature, e.g. `user(id: ID!): User`.
+ */
+export function formatFieldSignature(field: GraphQLField<unknown, unknown>): string {
+  const args = field.args.map(arg => formatInputValue(arg)).join(', ');
+  return `${field.name}${args ? `(${args})` : ''}: ${String(field.type)}`;
+}
+
+/**
+ * Formats an argument or input field, e.g. `first: Int = 10`.
+ */
+export function formatInputValue(value: GraphQLArgument | GraphQLInputField): string {
+  const defaultValue = formatDefaultValue(value.defaultValue, value.type);
+  return `${value.name}: ${String(value.type)}${defaultValue === null ? '' : ` = ${defaultValue}`}`;
+}
+
+function formatTypeHeader(type: GraphQLNamedType): string {
+  if (isObjectType(type) || isInterfaceType(type)) {
+    const keyword = isObjectType(type) ? 'type' : 'interface';
+    const interfaces = type.getInterfaces().map(iface => iface.name);
+    return `${keyword} ${type.name}${interfaces.length > 0 ? ` implements ${interfaces.join(' & ')}` : ''}`;
+  }
+  if (isUnionType(type)) {
+    return `union ${type.name}`;
+  }
+  if (isEnumType(type)) {
+    return `enum ${type.name}`;
+  }
+  if (isInputObjectType(type)) {
+    return `input ${type.name}`;
+  }
+  return `scalar ${type.name}`;
+}
+
+function formatFieldLine(field: GraphQLField<unknown, unknown>): string {
+  return `${formatFieldSignature(field)}${formatNotes(field)}`;
+}
+
+/**
+ * Formats a field, followed by indented argument descriptions when there are any.
+ */
+function formatFieldDetails(field: GraphQLField<unknown, unknown>): string[] {
+  const argLines = field.args
+    .filter(arg => arg.description || arg.deprecationReason)
+    .map(arg => `  - ${arg.name}${formatNotes(arg)}`);
+  return [`- ${formatFieldLine(field)}`, ...argLines];
+}
+
+function formatEnumValues(type: GraphQLEnumType): string[] {
+  return type.getValues().map(value => `- ${value.name}${formatNotes(value)}`);
+}
+
+/**
+ * Formats a description and deprecation reason as a compact suffix.
+ */
+function formatNotes(element: { description?: string | null | undefined; deprecationReason?: string | null | undefined }): string {
+  const notes: string[] = [];
+  if (element.description) {
+    notes.push(element.description.replaceAll(/\s*\n\s*/g, ' '));
+  }
+  if (element.deprecationReason !== null && element.deprecationReason !== undefined) {
+    notes.push(`(deprecated: ${element.deprecationReason})`);
+  }
+  return notes.length > 0 ? ` - ${notes.join(' ')}` : '';
+}
+
+function formatDefaultValue(value: unknown, type: GraphQLInputType): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  const ast = astFromValue(value, type);
+  return ast ? print(ast) : null;
+}
+
+function isRootType(schema: GraphQLSchema, type: GraphQLNamedType): boolean {
+  return type === schema.getQueryType() || type === schema.getMutationType() || type === schema.getSubscriptionType();
+}
@@ -0,0 +1,291 @@
+import {
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  isSpecifiedScalarType,
+  isUnionType,
+} from 'graphql';
+
+import { formatFieldSignature, formatInputValue } from './schemaFormatter.js';
+
+export type SchemaElementKind = 'type' | 'field' | 'argument' | 'enum_value' | 'input_field';
+
+export interface SchemaSearchResult {
+  kind: SchemaElementKind;
+  /** Schema coordinate, e.g. `User`, `Query.user`, `Query.user(id:)` or `Order.ASC` */
+  coordinate: string;
+  signature: string;
+  description: string | null;
+  score: number;
+}
+
+interface SchemaElement {
+  kind: SchemaElementKind;
+  name: string;
+  coordinate: string;
+  signature: string;
+  description: string | null;
+}
+
+// Matches scoring below this are too weak to be useful
+const MIN_SCORE = 30;
+
+// Ties are broken in favour of types, then fields, as they are usually what is being looked for
+const KIND_ORDER: SchemaElementKind[] = ['type', 'field', 'input_field', 'enum_value', 'argument'];
+
+/**
+ * Ranks schema types, fields, arguments, input fields and enum values by how
+ * well their name or description matches the query. Returns the best matches first.
+ */
+export function searchSchema(
+  schema: GraphQLSchema,
+  query: string,
+  options: { kind?: SchemaElementKind | undefined } = {}
+): SchemaSearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results: SchemaSearchResult[] = [];
+  for (const element of collectElements(schema)) {
+    if (options.kind !== undefined && element.kind !== options.kind) {
+      continue;
+    }
+
+    const score = Math.max(
+      scoreName(element.name, element.coordinate, terms),
+      scoreDescription(element.description, terms)
+    );
+    if (score >= MIN_SCORE) {
+      results.push({
+        kind: element.kind,
+        coordinate: element.coordinate,
+        signature: element.signature,
+        description: element.description,
+        score,
+      });
+    }
+  }
+
+  return results.sort((a, b) =>
+    b.score - a.score ||
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+    a.coordinate.length - b.coordinate.length ||
+    a.coordinate.localeCompare(b.coordinate)
+  );
+}
+
+function collectElements(schema: GraphQLSchema): SchemaElement[] {
+  const elements: SchemaElement[] = [];
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (type.name.startsWith('__') || isSpecifiedScalarType(type)) {
+      continue;
+    }
+
+    elements.push({
+      kind: 'type',
+      name: type.name,
+      coordinate: type.name,
+      signature: typeSignature(type),
+      description: type.description ?? null,
+    });
+
+    if (isObjectType(type) || isInterfaceType(type)) {
+      for (const field of Object.values(type.getFields())) {
+        const fieldCoordinate = `${type.name}.${field.name}`;
+        elements.push({
+          kind: 'field',
+          name: field.name,
+          coordinate: fieldCoordinate,
+          signature: formatFieldSignature(field),
+          description: field.description ?? null,
+        });
+
+        for (const arg of field.args) {
+          elements.push({
+            kind: 'argument',
+            name: arg.name,
+            coordinate: `${fieldCoordinate}(${arg.name}:)`,
+            signature: formatInputValue(arg),
+            description: arg.description ?? null,
+          });
+        }
+      }
+    }
+
+    if (isInputObjectType(type)) {
+      for (const field of Object.values(type.getFields())) {
+        elements.push({
+          kind: 'input_field',
+          name: field.name,
+          coordinate: `${type.name}.${field.name}`,
+          signature: formatInputValue(field),
+          description: field.description ?? null,
+        });
+      }
+    }
+
+    if (isEnumType(type)) {
+      for (const value of type.getValues()) {
+        elements.push({
+          kind: 'enum_value',
+          name: value.name,
+          coordinate: `${type.name}.${value.name}`,
+          signature: `${type.name}.${value.name}`,
+          description: value.description ?? null,
+        });
+      }
+    }
+  }
+
+  return elements;
+}
+
+function typeSignature(type: GraphQLNamedType): string {
+  if (isObjectType(type)) {
+    return `type ${type.name}`;
+  }
+  if (isInterfaceType(type)) {
+    return `interface ${type.name}`;
+  }
+  if (isUnionType(type)) {
+    return `union ${type.name} = ${type.getTypes().map(member => member.name).join(' | ')}`;
+  }
+  if (isEnumType(type)) {
+    return `enum ${type.name}`;
+  }
+  if (isInputObjectType(type)) {
+    return `input ${type.name}`;
+  }
+  return `scalar ${type.name}`;
+}
+
+/**
+ * Splits a query into lower case terms on whitespace, punctuation and camelCase boundaries.
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replaceAll(/([a-z\d])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter(term => term.length > 0);
+}
+
+/**
+ * Scores how well a name matches the query terms, from 0 to 100. Exact matches
+ * score highest, then prefixes and substrings, then near misses such as typos
+ * and abbreviations. Multi-word queries can also match across the coordinate,
+ * so "user email" finds `User.emailAddress`.
+ */
+function scoreName(name: string, coordinate: string, terms: string[]): number {
+  const lowerName = name.toLowerCase();
+  const query = terms.join('');
+
+  if (lowerName === query) {
+    return 100;
+  }
+  if (lowerName.startsWith(query)) {
+    return 90 - lengthPenalty(lowerName, query);
+  }
+  if (lowerName.includes(query)) {
+    return 80 - lengthPenalty(lowerName, query);
+  }
+
+  const lowerCoordinate = coordinate.toLowerCase();
+  if (terms.length > 1 && terms.every(term => lowerCoordinate.includes(term))) {
+    return 70 - lengthPenalty(lowerCoordinate, query);
+  }
+
+  return Math.max(typoScore(name, query), abbreviationScore(lowerName, query));
+}
+
+/**
+ * Scores a description by the fraction of query terms it contains, from 0 to 50.
+ */
+function scoreDescription(description: string | null, terms: string[]): number {
+  if (description === null) {
+    return 0;
+  }
+
+  const words = tokenize(description);
+  const matched = terms.filter(term => words.some(word => word.startsWith(term))).length;
+  return Math.round((50 * matched) / terms.length);
+}
+
+function lengthPenalty(name: string, query: string): number {
+  return Math.min(20, name.length - query.length);
+}
+
+/**
+ * Scores names where the whole name, its start or one of its words is within a
+ * small edit distance of the query, from 0 to 60.
+ */
+function typoScore(name: string, query: string): number {
+  if (query.length < 4) {
+    return 0;
+  }
+
+  const lowerName = name.toLowerCase();
+  const candidates = [lowerName, lowerName.slice(0, query.length), ...tokenize(name)];
+  const distance = Math.min(...candidates.map(candidate => editDistance(candidate, query)));
+  const maxDistance = query.length < 8 ? 1 : 2;
+  return distance <= maxDistance ? 60 - 10 * distance : 0;
+}
+
+/**
+ * Scores names containing the query's characters in order, e.g. "usrnm" in
+ * "username", from 0 to 50 depending on how closely they are packed.
+ */
+function abbreviationScore(name: string, query: string): number {
+  if (query.length < 3) {
+    return 0;
+  }
+
+  let position = -1;
+  let first = -1;
+  for (const char of query) {
+    position = name.indexOf(char, position + 1);
+    if (position === -1) {
+      return 0;
+    }
+    if (first === -1) {
+      first = position;
+    }
+  }
+
+  const span = position - first + 1;
+  return Math.round(50 * (query.length / span));
+}
+
+/**
+ * Edit distance between two strings, counting a swap of adjacent characters as one edit.
+ */
+function editDistance(a: string, b: string): number {
+  // distances[i][j] is the distance between the first i characters of a and the first j of b
+  const distances: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    distances.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    (distances[0] as number[])[j] = j;
+  }
+
+  const at = (i: number, j: number): number => distances[i]?.[j] ?? 0;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(at(i - 1, j) + 1, at(i, j - 1) + 1, at(i - 1, j - 1) + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, at(i - 2, j - 2) + 1);
+      }
+      (distances[i] as number[])[j] = distance;
+    }
+  }
+
+  return at(a.length, b.length);
+}
@@ -1,48 +1,291 @@
-import { buildClientSchema, getIntrospectionQuery, type GraphQLSchema, parse, validate, type IntrospectionQuery } from 'graphql';
+import {
+  buildClientSchema,
+  buildSchema,
+  coerceInputValue,
+  getIntrospectionQuery,
+  getOperationAST,
+  type DocumentNode,
+  type GraphQLSchema,
+  isInputType,
+  isNonNullType,
+  parse,
+  typeFromAST,
+  validate,
+  type IntrospectionQuery,
+  type IntrospectionSchema,
+} from 'graphql';
 
-import { client } from './client.js';
+import { getClient, getDefaultEndpointName, getEndpointNames, resolveEndpointName } from './client.js';
 import { withErrorHandling, type Logger } from './responses.js';
+import { countSchemaChanges, findSchemaChanges, formatSchemaChanges, type SchemaChanges } from './schemaChanges.js';
+import { findEndpointSchemaFile, readSchemaFile } from './storage.js';
 
-let cachedSchema: GraphQLSchema | null = null;
-let schemaFetchError: string | null = null;
+/** Where the cached schema came from: live introspection or the endpoint's schema file */
+export type SchemaSource = 'introspection' | 'file';
+
+// Seconds between background schema refreshes; 0 disables them
+const REFRESH_INTERVAL_SECONDS = readNonNegativeInt('MCP_GRAPHQL_SCHEMA_REFRESH_SECONDS', 0);
+
+// After a failed fetch, getSchema() waits before retrying. The wait doubles with each consecutive failure.
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Each endpoint has its own schema, retry and background refresh state
+interface EndpointSchemaState {
+  schema: GraphQLSchema | null;
+  source: SchemaSource | null;
+  fetchError: string | null;
+  consecutiveFailures: number;
+  retryAfter: number;
+  pendingFetch: Promise<GraphQLSchema> | null;
+  refreshTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const endpointStates = new Map<string, EndpointSchemaState>();
+
+export interface SchemaRefreshResult {
+  schema: GraphQLSchema;
+  source: SchemaSource;
+  /** Changes since the previously loaded schema, or null if there was none */
+  changes: SchemaChanges | null;
+}
 
 /**
- * Fetches the GraphQL schema using introspection and caches it.
- * Returns null if the schema cannot be fetched (e.g., introspection disabled).
+ * Fetches an endpoint's GraphQL schema using introspection and caches it. For the default
+ * endpoint, if MCP_GRAPHQL_SCHEMA_FILE is set, the schema is read from that file instead
+ * when introspection fails, or always when MCP_GRAPHQL_SCHEMA_FILE_MODE is `only`.
+ * Returns null if the schema cannot be fetched (e.g., introspection disabled and no schema file).
+ * Failed fetches are retried on later calls, backing off after repeated failures.
  */
-export async function getSchema(): Promise<GraphQLSchema | null> {
-  if (cachedSchema) {
-    return cachedSchema;
+export async function getSchema(endpoint?: string): Promise<GraphQLSchema | null> {
+  const state = getEndpointState(endpoint);
+  if (state.schema) {
+    return state.schema;
   }
 
-  if (schemaFetchError) {
-    // Don't retry if we've already failed
+  if (Date.now() < state.retryAfter) {
     return null;
   }
 
   try {
-    const introspectionQuery = getIntrospectionQuery();
-    const result = await client.request<IntrospectionQuery>(introspectionQuery);
-    
-    if (result.__schema) {
-      cachedSchema = buildClientSchema(result);
-      return cachedSchema;
-    } else {
-      schemaFetchError = 'Invalid introspection response: missing __schema';
-      return null;
+    return await fetchSchema(resolveEndpointName(endpoint), state);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns where an endpoint's cached schema came from, or null if no schema is loaded.
+ */
+export function getSchemaSource(endpoint?: string): SchemaSource | null {
+  const state = getEndpointState(endpoint);
+  return state.schema ? state.source : null;
+}
+
+/**
+ * Returns why the last schema fetch for an endpoint failed, or null if it succeeded.
+ */
+export function getSchemaFetchError(endpoint?: string): string | null {
+  return getEndpointState(endpoint).fetchError;
+}
+
+/**
+ * Refetches an endpoint's schema, replacing the cached one, and reports what changed.
+ * If the fetch fails, the previously loaded schema stays in use.
+ */
+export async function refreshSchema(endpoint?: string): Promise<SchemaRefreshResult> {
+  const state = getEndpointState(endpoint);
+  const previousSchema = state.schema;
+  const schema = await fetchSchema(resolveEndpointName(endpoint), state);
+  return {
+    schema,
+    source: state.source ?? 'introspection',
+    changes: previousSchema ? findSchemaChanges(previousSchema, schema) : null,
+  };
+}
+
+/**
+ * Starts refreshing every endpoint's schema in the background every
+ * MCP_GRAPHQL_SCHEMA_REFRESH_SECONDS seconds, if set. Changes and failures are logged
+ * to stderr. Failed refreshes are retried with a growing delay. Returns whether
+ * refreshing was started.
+ */
+export function startSchemaRefresh(intervalSeconds: number = REFRESH_INTERVAL_SECONDS): boolean {
+  stopSchemaRefresh();
+  if (intervalSeconds <= 0) {
+    return false;
+  }
+
+  for (const endpoint of getEndpointNames()) {
+    scheduleSchemaRefresh(endpoint, intervalSeconds * 1000);
+  }
+  return true;
+}
+
+export function stopSchemaRefresh(): void {
+  for (const state of endpointStates.values()) {
+    if (state.refreshTimer) {
+      clearTimeout(state.refreshTimer);
+      state.refreshTimer = null;
+    }
+  }
+}
+
+function scheduleSchemaRefresh(endpoint: string, intervalMs: number): void {
+  const state = getEndpointState(endpoint);
+  const maxDelayMs = Math.max(intervalMs, 60 * 60 * 1000);
+  // Only named endpoints are mentioned, so single-endpoint setups log as before
+  const isDefaultEndpoint = endpoint === getDefaultEndpointName();
+  const label = isDefaultEndpoint ? 'GraphQL schema' : `GraphQL schema for endpoint '${endpoint}'`;
+  const failurePrefix = isDefaultEndpoint ? '' : `Endpoint '${endpoint}': `;
+
+  const schedule = (delayMs: number): void => {
+    state.refreshTimer = setTimeout(() => {
+      refreshSchema(endpoint).then(
+        ({ changes }) => {
+          if (changes && countSchemaChanges(changes) > 0) {
+            console.error(`${label} changed:\n${formatSchemaChanges(changes)}`);
+          }
+          schedule(intervalMs);
+        },
+        (error: unknown) => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          const retryDelayMs = Math.min(intervalMs * 2 ** state.consecutiveFailures, maxDelayMs);
+          console.error(`${failurePrefix}${errorMessage}; retrying in ${Math.round(retryDelayMs / 1000)}s`);
+          schedule(retryDelayMs);
+        }
+      );
+    }, delayMs);
+    // Background refreshes shouldn't keep the process alive on their own
+    state.refreshTimer.unref();
+  };
+  schedule(intervalMs);
+}
+
+function getEndpointState(endpoint?: string): EndpointSchemaState {
+  const name = resolveEndpointName(endpoint);
+  let state = endpointStates.get(name);
+  if (!state) {
+    state = {
+      schema: null,
+      source: null,
+      fetchError: null,
+      consecutiveFailures: 0,
+      retryAfter: 0,
+      pendingFetch: null,
+      refreshTimer: null,
+    };
+    endpointStates.set(name, state);
+  }
+  return state;
+}
+
+/**
+ * Loads an endpoint's schema from its configured source and caches it.
+ * Concurrent callers share one request.
+ */
+function fetchSchema(endpoint: string, state: EndpointSchemaState): Promise<GraphQLSchema> {
+  state.pendingFetch ??= loadSchema(endpoint).then(
+    ({ schema, source }) => {
+      state.schema = schema;
+      state.source = source;
+      state.fetchError = null;
+      state.consecutiveFailures = 0;
+      state.retryAfter = 0;
+      state.pendingFetch = null;
+      return schema;
+    },
+    (error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      state.fetchError = errorMessage;
+      state.consecutiveFailures++;
+      state.retryAfter = Date.now() + Math.min(RETRY_BASE_DELAY_MS * 2 ** (state.consecutiveFailures - 1), RETRY_MAX_DELAY_MS);
+      state.pendingFetch = null;
+      throw new Error(errorMessage);
     }
+  );
+  return state.pendingFetch;
+}
+
+async function loadSchema(endpoint: string): Promise<{ schema: GraphQLSchema; source: SchemaSource }> {
+  // MCP_GRAPHQL_SCHEMA_FILE describes the default endpoint's API; named endpoints
+  // fall back to the file snapshot_schema saves for them, if there is one
+  const isDefaultEndpoint = endpoint === getDefaultEndpointName();
+  const schemaFile = isDefaultEndpoint ? process.env['MCP_GRAPHQL_SCHEMA_FILE'] ?? '' : findEndpointSchemaFile(endpoint);
+  if (schemaFile === '') {
+    return { schema: await fetchIntrospectionSchema(endpoint), source: 'introspection' };
+  }
+
+  if (isDefaultEndpoint && process.env['MCP_GRAPHQL_SCHEMA_FILE_MODE']?.toLowerCase() === 'only') {
+    return { schema: loadSchemaFile(schemaFile), source: 'file' };
+  }
+
+  try {
+    return { schema: await fetchIntrospectionSchema(endpoint), source: 'introspection' };
+  } catch (error) {
+    try {
+      return { schema: loadSchemaFile(schemaFile), source: 'file' };
+    } catch (fileError) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const fileErrorMessage = fileError instanceof Error ? fileError.message : 'Unknown error';
+      throw new Error(`${errorMessage}; schema file fallback also failed: ${fileErrorMessage}`);
+    }
+  }
+}
+
+/**
+ * Fetches an endpoint's live schema by introspection, without caching it.
+ */
+export async function fetchIntrospectionSchema(endpoint?: string): Promise<GraphQLSchema> {
+  try {
+    // Servers with introspection disabled may answer without __schema
+    const result = await getClient(endpoint).request<Partial<IntrospectionQuery>>(getIntrospectionQuery());
+    if (!result.__schema) {
+      throw new Error('Invalid introspection response: missing __schema');
+    }
+    return buildClientSchema({ __schema: result.__schema });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    schemaFetchError = `Failed to fetch schema: ${errorMessage}`;
-    return null;
+    throw new Error(`Failed to fetch schema: ${errorMessage}`);
   }
 }
 
 /**
- * Validates a GraphQL query string against the cached schema.
+ * Builds a schema from a file: introspection JSON if it ends in `.json`, SDL otherwise.
+ * Introspection JSON may be the bare result or wrapped in `data`, as GraphQL responses are.
+ */
+export function loadSchemaFile(filePath: string): GraphQLSchema {
+  const content = readSchemaFile(filePath);
+
+  try {
+    if (!filePath.toLowerCase().endsWith('.json')) {
+      return buildSchema(content);
+    }
+
+    const json = JSON.parse(content) as { __schema?: IntrospectionSchema; data?: { __schema?: IntrospectionSchema } };
+    const introspection = json.__schema ?? json.data?.__schema;
+    if (!introspection) {
+      throw new Error('missing __schema');
+    }
+    return buildClientSchema({ __schema: introspection });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid schema file '${filePath}': ${errorMessage}`);
+  }
+}
+
+/**
+ * Validates a GraphQL query string against an endpoint's cached schema.
+ * If variables are given, they are also checked against the operation's variable definitions,
+ * using the named operation when the document contains several.
  * Returns validation errors or null if valid.
  */
-export async function validateGraphQLQuery(queryString: string): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+export async function validateGraphQLQuery(
+  queryString: string,
+  variables?: Record<string, unknown>,
+  operationName?: string,
+  endpoint?: string
+): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
   return withErrorHandling('validating GraphQL query', async (log: Logger) => {
     log('parsing query');
     let parsedQuery;
@@ -54,7 +297,7 @@ export async function validateGraphQLQuery(queryString: string): Promise<{ conte
     }
 
     log('fetching schema for validation');
-    const schema = await getSchema();
+    const schema = await getSchema(endpoint);
     
     if (!schema) {
       // If we can't get the schema, we'll skip validation but warn
@@ -69,15 +312,88 @@ export async function validateGraphQLQuery(queryString: string): Promise<{ conte
       throw new Error(`GraphQL validation failed: ${errorMessages}`);
     }
 
-    return 'GraphQL query is valid';
+    if (variables === undefined) {
+      return 'GraphQL query is valid';
+    }
+
+    log('validating variables');
+    const unusedVariables = validateVariables(schema, parsedQuery, variables, operationName);
+    if (unusedVariables.length > 0) {
+      return `GraphQL query and variables are valid. Warning: the operation does not use these variables: ${unusedVariables.join(', ')}`;
+    }
+    return 'GraphQL query and variables are valid';
   });
 }
 
 /**
- * Clears the cached schema, forcing a refetch on next use.
+ * Checks variables against the operation's variable definitions, reporting
+ * missing required variables and values of the wrong type. Returns the names
+ * of supplied variables the operation doesn't define.
+ */
+function validateVariables(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables: Record<string, unknown>,
+  operationName: string | undefined
+): string[] {
+  const operation = getOperationAST(document, operationName);
+  if (!operation) {
+    throw new Error(operationName === undefined
+      ? 'Cannot validate variables: the document must contain exactly one operation, or an operation name must be given'
+      : `Cannot validate variables: operation '${operationName}' not found`);
+  }
+
+  const definitions = operation.variableDefinitions ?? [];
+  const errors: string[] = [];
+  for (const definition of definitions) {
+    const variableName = definition.variable.name.value;
+    const type = typeFromAST(schema, definition.type);
+    if (!type || !isInputType(type)) {
+      // Already reported by query validation
+      continue;
+    }
+
+    const value = variables[variableName];
+    if (value === undefined) {
+      if (isNonNullType(type) && !definition.defaultValue) {
+        errors.push(`Variable "$${variableName}" of required type "${String(type)}" was not provided`);
+      }
+      continue;
+    }
+
+    coerceInputValue(value, type, (path, invalidValue, error) => {
+      const location = path.length > 0 ? ` at "${formatValuePath(variableName, path)}"` : '';
+      errors.push(`Variable "$${variableName}" got invalid value ${JSON.stringify(invalidValue)}${location}: ${error.message}`);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Variable validation failed: ${errors.join('; ')}`);
+  }
+
+  const definedNames = new Set(definitions.map(definition => definition.variable.name.value));
+  return Object.keys(variables).filter(name => !definedNames.has(name));
+}
+
+function formatValuePath(variableName: string, path: readonly (string | number)[]): string {
+  return variableName + path.map(key => (typeof key === 'number' ? `[${key}]` : `.${key}`)).join('');
+}
+
+/**
+ * Clears every endpoint's cached schema, forcing a refetch on next use.
  * Useful for testing or when schema changes are expected.
  */
 export function clearSchemaCache(): void {
-  cachedSchema = null;
-  schemaFetchError = null;
+  for (const state of endpointStates.values()) {
+    state.schema = null;
+    state.source = null;
+    state.fetchError = null;
+    state.consecutiveFailures = 0;
+    state.retryAfter = 0;
+  }
+}
+
+function readNonNegativeInt(name: string, defaultValue: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : defaultValue;
 }
\ No newline at end of file
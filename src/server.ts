@@ -1,17 +1,45 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 
+import { getConfig } from './config.js';
+import { loadConfiguredContext, loadPersistentContext } from './contextStore.js';
+import { startEnumerationRefresh } from './dynamicEnumerationRefresh.js';
 import { registerAllTools } from './dynamicToolHandler.js';
+import { startSchemaRefresh } from './schemaService.js';
 import { ensureDataDirectory } from './storage.js';
+import * as checkSavedQueries from './tools/checkSavedQueries.js';
+import * as clearGraphqlContext from './tools/clearGraphqlContext.js';
+import * as createGraphqlType from './tools/createGraphqlType.js';
+import * as deleteGraphqlType from './tools/deleteGraphqlType.js';
 import * as deleteSavedQuery from './tools/deleteSavedQuery.js';
 import * as executeGraphqlQuery from './tools/executeGraphqlQuery.js';
+import * as getSchemaInfo from './tools/getSchemaInfo.js';
+import * as listGraphqlContext from './tools/listGraphqlContext.js';
+import * as listGraphqlTypes from './tools/listGraphqlTypes.js';
 import * as listSavedQueries from './tools/listSavedQueries.js';
+import * as manageResponseCache from './tools/manageResponseCache.js';
+import * as refreshGraphqlType from './tools/refreshGraphqlType.js';
+import * as refreshSchema from './tools/refreshSchema.js';
 import * as saveQuery from './tools/saveQuery.js';
+import * as searchSchema from './tools/searchSchema.js';
+import * as setGraphqlContext from './tools/setGraphqlContext.js';
 import * as showSavedQuery from './tools/showSavedQuery.js';
+import * as snapshotSchema from './tools/snapshotSchema.js';
+import * as testSavedQuery from './tools/testSavedQuery.js';
+import * as validateGraphqlQuery from './tools/validateGraphqlQuery.js';
 
 function createServer(): { server: McpServer; registeredTools: Map<string, RegisteredTool>; coreToolsStatus: string } {
   ensureDataDirectory();
 
+  try {
+    loadPersistentContext();
+  } catch (error) {
+    // Saved tools still work without persisted context; callers can pass the values directly
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(errorMessage);
+  }
+  loadConfiguredContext(getConfig().context_variables);
+
   const server = new McpServer({
     name: 'graphql-metatool',
     version: '1.0.0',
@@ -23,8 +51,8 @@ function createServer(): { server: McpServer; registeredTools: Map<string, Regis
     },
   });
 
-  // Check environment variable for disabling core tools
-  const disableSetting = process.env['DISABLE_CORE_TOOLS']?.toLowerCase() || 'none';
+  // DISABLE_CORE_TOOLS overrides disable_core_tools from the config file
+  const disableSetting = process.env['DISABLE_CORE_TOOLS']?.toLowerCase() || getConfig().disable_core_tools || 'none';
   let coreToolsStatus: string;
 
   // Register core tools based on settings
@@ -42,12 +70,33 @@ function createServer(): { server: McpServer; registeredTools: Map<string, Regis
     server.registerTool(deleteSavedQuery.name, deleteSavedQuery.config, deleteSavedQuery.handler);
     server.registerTool(listSavedQueries.name, listSavedQueries.config, listSavedQueries.handler);
     server.registerTool(showSavedQuery.name, showSavedQuery.config, showSavedQuery.handler);
+    server.registerTool(testSavedQuery.name, testSavedQuery.config, testSavedQuery.handler);
+    server.registerTool(manageResponseCache.name, manageResponseCache.config, manageResponseCache.handler);
+    server.registerTool(setGraphqlContext.name, setGraphqlContext.config, setGraphqlContext.handler);
+    server.registerTool(listGraphqlContext.name, listGraphqlContext.config, listGraphqlContext.handler);
+    server.registerTool(clearGraphqlContext.name, clearGraphqlContext.config, clearGraphqlContext.handler);
+    server.registerTool(createGraphqlType.name, createGraphqlType.config, createGraphqlType.handler);
+    server.registerTool(listGraphqlTypes.name, listGraphqlTypes.config, listGraphqlTypes.handler);
+    server.registerTool(deleteGraphqlType.name, deleteGraphqlType.config, deleteGraphqlType.handler);
+    server.registerTool(refreshGraphqlType.name, refreshGraphqlType.config, refreshGraphqlType.handler);
+    server.registerTool(getSchemaInfo.name, getSchemaInfo.config, getSchemaInfo.handler);
+    server.registerTool(searchSchema.name, searchSchema.config, searchSchema.handler);
+    server.registerTool(validateGraphqlQuery.name, validateGraphqlQuery.config, validateGraphqlQuery.handler);
+    server.registerTool(refreshSchema.name, refreshSchema.config, refreshSchema.handler);
+    server.registerTool(checkSavedQueries.name, checkSavedQueries.config, checkSavedQueries.handler);
+    server.registerTool(snapshotSchema.name, snapshotSchema.config, snapshotSchema.handler);
     coreToolsStatus = 'all core tools enabled';
   }
 
   // Register all saved tools and get the registeredTools map
   const registeredTools = registerAllTools(server);
 
+  // No-op unless MCP_GRAPHQL_SCHEMA_REFRESH_SECONDS is set
+  startSchemaRefresh();
+
+  // Types populated from saved queries start unconstrained; their tools are updated once the values load
+  startEnumerationRefresh(registeredTools);
+
   return { server, registeredTools, coreToolsStatus };
 }
 
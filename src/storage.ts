@@ -1,11 +1,18 @@
-import { existsSync, mkdirSync, writeFileSync, readFileSync, unlinkSync, readdirSync } from 'node:fs';
-import { join } from 'node:path';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, unlinkSync, readdirSync, renameSync } from 'node:fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
 
-import type { SavedToolConfig } from './types.js';
+import { extractOperationVariables, getOperations, parseDocument } from './graphqlDocument.js';
+import type { CachedResponseEntry, ContextValue, EnumerationSource, SavedToolConfig, SavedToolVariable, SavedTypeConfig } from './types.js';
 
 const DATA_DIR = process.env['MCP_GRAPHQL_DATA_DIR'] || './data';
 const TOOLS_DIR = join(DATA_DIR, 'tools');
 const TYPES_DIR = join(DATA_DIR, 'types');
+const CACHE_DIR = join(DATA_DIR, 'cache');
+const RESPONSE_CACHE_FILE = join(CACHE_DIR, 'responses.json');
+const CONTEXT_DIR = join(DATA_DIR, 'context');
+const PERSISTENT_CONTEXT_FILE = join(CONTEXT_DIR, 'persistent_context.json');
+const SCHEMA_DIR = join(DATA_DIR, 'schema');
+const DEFAULT_SCHEMA_FILE = join(SCHEMA_DIR, 'schema.graphql');
 
 export function ensureDataDirectory(): void {
   if (!existsSync(DATA_DIR)) {
@@ -48,7 +55,7 @@ export function loadToolFromFile(toolName: string): SavedToolConfig | null {
       throw new Error(`Invalid tool configuration in file: ${filePath}`);
     }
     
-    return config;
+    return upgradeLegacyVariables(config);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     throw new Error(`Failed to load tool '${toolName}' from file: ${errorMessage}`);
@@ -83,6 +90,10 @@ export function loadAllTools(): Map<string, SavedToolConfig> {
   return tools;
 }
 
+export function hasToolFile(toolName: string): boolean {
+  return existsSync(join(TOOLS_DIR, `${toolName}.json`));
+}
+
 export function deleteToolFile(toolName: string): void {
   const filePath = join(TOOLS_DIR, `${toolName}.json`);
   
@@ -98,6 +109,284 @@ export function deleteToolFile(toolName: string): void {
   }
 }
 
+export function saveTypeToFile(typeName: string, config: SavedTypeConfig): void {
+  ensureDataDirectory();
+
+  const filePath = join(TYPES_DIR, `${typeName}.json`);
+
+  try {
+    const jsonData = JSON.stringify(config, null, 2);
+    writeFileSync(filePath, jsonData, 'utf8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to save type '${typeName}' to file: ${errorMessage}`);
+  }
+}
+
+export function loadTypeFromFile(typeName: string): SavedTypeConfig | null {
+  const filePath = join(TYPES_DIR, `${typeName}.json`);
+
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const jsonData = readFileSync(filePath, 'utf8');
+    const config = JSON.parse(jsonData) as SavedTypeConfig;
+
+    if (!isValidTypeConfig(config)) {
+      throw new Error(`Invalid type configuration in file: ${filePath}`);
+    }
+
+    return config;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to load type '${typeName}' from file: ${errorMessage}`);
+  }
+}
+
+export function loadAllTypes(): Map<string, SavedTypeConfig> {
+  const types = new Map<string, SavedTypeConfig>();
+
+  if (!existsSync(TYPES_DIR)) {
+    return types;
+  }
+
+  try {
+    const files = readdirSync(TYPES_DIR);
+
+    for (const file of files) {
+      if (file.endsWith('.json')) {
+        const typeName = file.replace('.json', '');
+        const config = loadTypeFromFile(typeName);
+
+        if (config) {
+          types.set(typeName, config);
+        }
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to load types from directory: ${errorMessage}`);
+  }
+
+  return types;
+}
+
+export function deleteTypeFile(typeName: string): void {
+  const filePath = join(TYPES_DIR, `${typeName}.json`);
+
+  if (!existsSync(filePath)) {
+    return;
+  }
+
+  try {
+    unlinkSync(filePath);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to delete type file '${typeName}': ${errorMessage}`);
+  }
+}
+
+export function getResponseCacheFilePath(): string {
+  return RESPONSE_CACHE_FILE;
+}
+
+export function loadResponseCacheFile(): CachedResponseEntry[] {
+  if (!existsSync(RESPONSE_CACHE_FILE)) {
+    return [];
+  }
+
+  try {
+    const jsonData = readFileSync(RESPONSE_CACHE_FILE, 'utf8');
+    const entries = JSON.parse(jsonData) as unknown;
+
+    if (!Array.isArray(entries)) {
+      throw new TypeError('expected an array of cache entries');
+    }
+
+    return entries.filter(entry => isValidCacheEntry(entry));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to load response cache: ${errorMessage}`);
+  }
+}
+
+export function saveResponseCacheFile(entries: CachedResponseEntry[]): void {
+  if (!existsSync(CACHE_DIR)) {
+    mkdirSync(CACHE_DIR, { recursive: true });
+  }
+
+  try {
+    writeFileAtomic(RESPONSE_CACHE_FILE, JSON.stringify(entries));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to save response cache: ${errorMessage}`);
+  }
+}
+
+export function loadPersistentContextFile(): Record<string, ContextValue> {
+  if (!existsSync(PERSISTENT_CONTEXT_FILE)) {
+    return {};
+  }
+
+  try {
+    const jsonData = readFileSync(PERSISTENT_CONTEXT_FILE, 'utf8');
+    const values = JSON.parse(jsonData) as unknown;
+
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      throw new TypeError('expected an object of context values');
+    }
+
+    const context: Record<string, ContextValue> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (isValidContextValue(value)) {
+        context[key] = value;
+      }
+    }
+    return context;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to load persistent context: ${errorMessage}`);
+  }
+}
+
+export function savePersistentContextFile(values: Record<string, ContextValue>): void {
+  if (!existsSync(CONTEXT_DIR)) {
+    mkdirSync(CONTEXT_DIR, { recursive: true });
+  }
+
+  try {
+    writeFileAtomic(PERSISTENT_CONTEXT_FILE, JSON.stringify(values, null, 2));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to save persistent context: ${errorMessage}`);
+  }
+}
+
+/**
+ * Returns where schema snapshots are saved by default. Endpoints other than the
+ * default one get their own file, named after the endpoint.
+ */
+export function getDefaultSchemaFilePath(endpoint?: string): string {
+  return endpoint === undefined ? DEFAULT_SCHEMA_FILE : join(SCHEMA_DIR, `${endpoint}.graphql`);
+}
+
+/**
+ * Returns the schema file saved for a named endpoint, or '' if there is none.
+ */
+export function findEndpointSchemaFile(endpoint: string): string {
+  const filePath = getDefaultSchemaFilePath(endpoint);
+  return existsSync(filePath) ? filePath : '';
+}
+
+/**
+ * Resolves a schema snapshot path requested by a tool call relative to the schema
+ * directory in the data directory. Absolute paths and paths leading out of it are
+ * rejected, so tool calls can't overwrite other files, except `allowedFile`.
+ */
+export function resolveSchemaSnapshotPath(filePath: string, allowedFile = ''): string {
+  if (allowedFile !== '' && resolve(filePath) === resolve(allowedFile)) {
+    return allowedFile;
+  }
+  if (isAbsolute(filePath)) {
+    throw new Error(`Schema file path must be relative to ${SCHEMA_DIR}: ${filePath}`);
+  }
+
+  const resolvedPath = join(SCHEMA_DIR, filePath);
+  const pathInSchemaDir = relative(resolve(SCHEMA_DIR), resolve(resolvedPath));
+  if (pathInSchemaDir === '' || pathInSchemaDir === '..' || pathInSchemaDir.startsWith(`..${sep}`) || isAbsolute(pathInSchemaDir)) {
+    throw new Error(`Schema file path must stay within ${SCHEMA_DIR}: ${filePath}`);
+  }
+  return resolvedPath;
+}
+
+export function readSchemaFile(filePath: string): string {
+  if (!existsSync(filePath)) {
+    throw new Error(`Schema file not found: ${filePath}`);
+  }
+
+  try {
+    return readFileSync(filePath, 'utf8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read schema file '${filePath}': ${errorMessage}`);
+  }
+}
+
+export function readConfigFile(filePath: string): string {
+  if (!existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  try {
+    return readFileSync(filePath, 'utf8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to read config file '${filePath}': ${errorMessage}`);
+  }
+}
+
+export function writeSchemaFile(filePath: string, content: string): void {
+  const directory = dirname(filePath);
+  if (!existsSync(directory)) {
+    mkdirSync(directory, { recursive: true });
+  }
+
+  try {
+    writeFileAtomic(filePath, content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to write schema file '${filePath}': ${errorMessage}`);
+  }
+}
+
+/**
+ * Writes to a temporary file and renames it into place, so readers never see a partial file.
+ */
+function writeFileAtomic(filePath: string, data: string): void {
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, data, 'utf8');
+  renameSync(tempPath, filePath);
+}
+
+function isValidCacheEntry(entry: any): entry is CachedResponseEntry {
+  return (
+    typeof entry === 'object' &&
+    entry !== null &&
+    typeof entry.key === 'string' &&
+    typeof entry.toolName === 'string' &&
+    typeof entry.value === 'string' &&
+    typeof entry.createdAt === 'number' &&
+    typeof entry.expiresAt === 'number'
+  );
+}
+
+function isValidContextValue(value: unknown): value is ContextValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isValidTypeConfig(config: any): config is SavedTypeConfig {
+  return (
+    typeof config === 'object' &&
+    config !== null &&
+    typeof config.name === 'string' &&
+    typeof config.type_definition === 'object' &&
+    config.type_definition !== null &&
+    (config.source === undefined || isValidEnumerationSource(config.source))
+  );
+}
+
+function isValidEnumerationSource(source: any): source is EnumerationSource {
+  return (
+    typeof source === 'object' &&
+    source !== null &&
+    typeof source.tool_name === 'string' &&
+    typeof source.name_path === 'string' &&
+    typeof source.value_path === 'string'
+  );
+}
+
 function isValidToolConfig(config: any): config is SavedToolConfig {
   return (
     typeof config === 'object' &&
@@ -105,8 +394,41 @@ function isValidToolConfig(config: any): config is SavedToolConfig {
     typeof config.name === 'string' &&
     typeof config.description === 'string' &&
     typeof config.graphql_query === 'string' &&
+    (config.operation_name === undefined || typeof config.operation_name === 'string') &&
+    (config.endpoint === undefined || typeof config.endpoint === 'string') &&
     typeof config.parameter_schema === 'object' &&
     Array.isArray(config.variables) &&
-    config.variables.every((v: any) => typeof v === 'string')
+    (config.variables.every((v: any) => typeof v === 'string') || config.variables.every(isValidToolVariable))
   );
 }
+
+function isValidToolVariable(variable: any): variable is SavedToolVariable {
+  return (
+    typeof variable === 'object' &&
+    variable !== null &&
+    typeof variable.name === 'string' &&
+    typeof variable.type === 'string' &&
+    typeof variable.required === 'boolean'
+  );
+}
+
+/**
+ * Tools saved by older versions list variable names found by scanning the query
+ * text. Their variables are re-read from the operations' variable definitions.
+ */
+function upgradeLegacyVariables(config: SavedToolConfig): SavedToolConfig {
+  const variables: unknown[] = config.variables;
+  if (!variables.some(variable => typeof variable === 'string')) {
+    return config;
+  }
+
+  const definitions = new Map<string, SavedToolVariable>();
+  for (const operation of getOperations(parseDocument(config.graphql_query))) {
+    for (const variable of extractOperationVariables(operation)) {
+      if (!definitions.has(variable.name)) {
+        definitions.set(variable.name, variable);
+      }
+    }
+  }
+  return { ...config, variables: [...definitions.values()] };
+}
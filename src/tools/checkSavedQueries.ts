@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+import { withErrorHandling, type Logger } from '../responses.js';
+import { applySavedToolChecks, formatSavedToolChecks, refreshAndCheckSavedTools } from '../savedQueryChecker.js';
+import { registeredTools } from '../server.js';
+import { loadAllTools } from '../storage.js';
+import type { CheckSavedQueriesToolParams } from '../types.js';
+
+export const name = 'check_saved_queries';
+
+export const config = {
+  title: 'Check Saved Queries',
+  description:
+    'Re-validate saved tools against the freshly fetched schema, reporting tools that use removed fields, changed argument types or deprecated fields',
+  inputSchema: {
+    tool_name: z.string().optional().describe('Only check this saved tool'),
+    disable_broken: z
+      .boolean()
+      .default(false)
+      .describe('Disable tools that no longer validate, and re-enable previously disabled tools that validate again'),
+  },
+};
+
+export function handler(params: CheckSavedQueriesToolParams): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+  return withErrorHandling('checking saved queries', async (log: Logger) => {
+    let tools = loadAllTools();
+    if (params.tool_name !== undefined) {
+      const toolConfig = tools.get(params.tool_name);
+      if (!toolConfig) {
+        throw new Error(`Tool '${params.tool_name}' not found`);
+      }
+      tools = new Map([[toolConfig.name, toolConfig]]);
+    }
+
+    if (tools.size === 0) {
+      return 'No saved tools to check.';
+    }
+
+    log('fetching schemas and validating saved queries');
+    const checks = await refreshAndCheckSavedTools(tools);
+    const report = formatSavedToolChecks(checks);
+    if (params.disable_broken !== true) {
+      return report;
+    }
+
+    const { disabled, enabled } = applySavedToolChecks(checks, registeredTools);
+    const changes = [
+      ...(disabled.length > 0 ? [`Disabled: ${disabled.join(', ')}`] : []),
+      ...(enabled.length > 0 ? [`Re-enabled: ${enabled.join(', ')}`] : []),
+    ];
+    return changes.length > 0 ? `${report}\n\n${changes.join('\n')}` : report;
+  });
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+import { clearContext } from '../contextStore.js';
+import { withErrorHandling } from '../responses.js';
+import type { ClearGraphqlContextToolParams } from '../types.js';
+
+export const name = 'clear_graphql_context';
+
+export const config = {
+  title: 'Clear GraphQL Context',
+  description: 'Remove a session context value, or all context values if no key is given',
+  inputSchema: {
+    key: z
+      .string()
+      .optional()
+      .describe('The context key to remove; omit to clear all context'),
+  },
+};
+
+export function handler(params: ClearGraphqlContextToolParams): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  const { key } = params;
+
+  return withErrorHandling(key === undefined ? 'clearing context' : `clearing context '${key}'`, () => {
+    const removed = clearContext(key);
+
+    if (key === undefined) {
+      return `Cleared ${removed} context variable${removed === 1 ? '' : 's'}`;
+    }
+    return removed > 0 ? `Cleared context '${key}'` : `Context '${key}' was not set`;
+  });
+}
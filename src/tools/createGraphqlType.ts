@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+import { scheduleEnumerationRefresh, stopEnumerationRefresh } from '../dynamicEnumerationRefresh.js';
+import { clearEnumerationOptions, validateEnumerationSource } from '../dynamicEnumerations.js';
+import { refreshToolsUsingType } from '../dynamicToolHandler.js';
+import { validateJsonSchema } from '../jsonSchemaValidator.js';
+import { withErrorHandling, type Logger } from '../responses.js';
+import { registeredTools } from '../server.js';
+import { loadAllTypes, loadToolFromFile, loadTypeFromFile, saveTypeToFile } from '../storage.js';
+import { dereferenceSchema, typeReference } from '../typeReferences.js';
+import type { CreateGraphqlTypeToolParams, EnumerationSource, SavedTypeConfig } from '../types.js';
+
+export const name = 'create_graphql_type';
+
+export const config = {
+  title: 'Create GraphQL Type',
+  description: 'Create or update a reusable JSON Schema type, such as an enum, that saved tool parameter schemas can reference with $ref',
+  inputSchema: {
+    type_name: z
+      .string()
+      .regex(/^[A-Z_a-z]\w*$/, 'Type name must start with a letter or underscore and contain only letters, digits and underscores')
+      .describe('The unique name for this type (e.g. Priority)'),
+    type_definition: z
+      .record(z.any())
+      .optional()
+      .describe('JSON Schema defining the type. For enums with descriptions use oneOf with const and description entries'),
+    source: z
+      .object({
+        tool_name: z.string().describe('Saved tool whose results provide the allowed values (e.g. list_workspace_users)'),
+        parameters: z.record(z.any()).optional().describe('Parameters to call the saved tool with'),
+        items_path: z
+          .string()
+          .optional()
+          .describe('Path to the list of items in the response (e.g. workspace.users.nodes); defaults to the first list'),
+        name_path: z.string().describe('Path within each item to the name shown to clients (e.g. name)'),
+        value_path: z.string().describe('Path within each item to the value passed to queries (e.g. id)'),
+        refresh_seconds: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Reload the values this often; otherwise they are loaded at startup and by refresh_graphql_type'),
+      })
+      .optional()
+      .describe('Populate the allowed values by running a saved query and taking a name/value pair from each item'),
+    overwrite: z.boolean().default(false).describe('Whether to overwrite an existing type with the same name'),
+  },
+};
+
+export function handler(params: CreateGraphqlTypeToolParams): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  return withErrorHandling(`saving type '${params.type_name}'`, (log: Logger) => {
+    const existingType = loadTypeFromFile(params.type_name);
+    const typeExists = existingType !== null;
+    if (typeExists && !(params.overwrite ?? false)) {
+      throw new Error(`Type with name '${params.type_name}' already exists. Set overwrite=true to update it.`);
+    }
+    if (params.type_definition === undefined && params.source === undefined) {
+      throw new Error('Provide a type_definition, a source, or both');
+    }
+
+    const typeConfig: SavedTypeConfig = {
+      name: params.type_name,
+      // Types populated from a saved query get their values as a oneOf list once loaded
+      type_definition: params.type_definition ?? {},
+      ...(params.source && { source: params.source }),
+    };
+
+    log('validating type definition');
+    const types = loadAllTypes();
+    types.set(params.type_name, typeConfig);
+    const resolvedDefinition = dereferenceSchema(typeConfig.type_definition, types);
+    if (!validateJsonSchema(resolvedDefinition)) {
+      throw new Error('Invalid type_definition: must be a valid JSON Schema object');
+    }
+    if (params.source) {
+      validateSource(params.source);
+    }
+
+    log('persisting file');
+    saveTypeToFile(params.type_name, typeConfig);
+
+    // Options loaded from a previous source no longer apply
+    if (JSON.stringify(existingType?.source) !== JSON.stringify(typeConfig.source)) {
+      stopEnumerationRefresh(params.type_name);
+      clearEnumerationOptions(params.type_name);
+    }
+
+    const action = typeExists ? 'updated' : 'created';
+    const results = [
+      `Successfully ${action} type '${params.type_name}'. Reference it in a parameter_schema with {"$ref": "${typeReference(params.type_name)}"}`,
+    ];
+    if (params.source) {
+      log('scheduling loading of values');
+      scheduleEnumerationRefresh(typeConfig, registeredTools);
+      results.push(`Its values are being loaded from '${params.source.tool_name}' in the background; run refresh_graphql_type to load them now and see the result.`);
+    }
+    if (!typeExists) {
+      return results.join(' ');
+    }
+
+    log('updating dependent tools in MCP server');
+    const updatedTools = refreshToolsUsingType(params.type_name, registeredTools);
+    if (updatedTools.length === 0) {
+      return results.join(' ');
+    }
+    const toolCount = `${updatedTools.length} dependent tool${updatedTools.length === 1 ? '' : 's'}`;
+    return `${results.join(' ')}\n\nUpdated ${toolCount}: ${updatedTools.join(', ')}`;
+  });
+}
+
+function validateSource(source: EnumerationSource): void {
+  if (!loadToolFromFile(source.tool_name)) {
+    throw new Error(`Invalid source: saved tool '${source.tool_name}' not found`);
+  }
+  try {
+    validateEnumerationSource(source);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid source: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+import { stopEnumerationRefresh } from '../dynamicEnumerationRefresh.js';
+import { clearEnumerationOptions } from '../dynamicEnumerations.js';
+import { withErrorHandling, type Logger } from '../responses.js';
+import { deleteTypeFile, loadAllTools, loadAllTypes, loadTypeFromFile } from '../storage.js';
+import { findTypeReferences } from '../typeReferences.js';
+import type { DeleteGraphqlTypeToolParams } from '../types.js';
+
+export const name = 'delete_graphql_type';
+
+export const config = {
+  title: 'Delete GraphQL Type',
+  description: 'Remove a custom type that is no longer referenced by any saved tool or type',
+  inputSchema: {
+    type_name: z
+      .string()
+      .regex(/^[A-Z_a-z]\w*$/, 'Type name must start with a letter or underscore and contain only letters, digits and underscores')
+      .describe('The name of the type to delete'),
+  },
+};
+
+export function handler(params: DeleteGraphqlTypeToolParams): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  return withErrorHandling(`deleting type '${params.type_name}'`, (log: Logger) => {
+    if (!loadTypeFromFile(params.type_name)) {
+      throw new Error(`Type '${params.type_name}' not found`);
+    }
+
+    log('checking for references');
+    const referencingTools = [...loadAllTools().values()]
+      .filter(tool => findTypeReferences(tool.parameter_schema).includes(params.type_name))
+      .map(tool => tool.name)
+      .sort((a, b) => a.localeCompare(b));
+    const referencingTypes = [...loadAllTypes().values()]
+      .filter(type => type.name !== params.type_name && findTypeReferences(type.type_definition).includes(params.type_name))
+      .map(type => type.name)
+      .sort((a, b) => a.localeCompare(b));
+
+    if (referencingTools.length > 0 || referencingTypes.length > 0) {
+      const references = [
+        ...(referencingTools.length > 0 ? [`saved tools: ${referencingTools.join(', ')}`] : []),
+        ...(referencingTypes.length > 0 ? [`types: ${referencingTypes.join(', ')}`] : []),
+      ];
+      throw new Error(`Cannot delete type '${params.type_name}': it is referenced by ${references.join('; ')}`);
+    }
+
+    log('deleting type file from storage');
+    deleteTypeFile(params.type_name);
+    stopEnumerationRefresh(params.type_name);
+    clearEnumerationOptions(params.type_name);
+
+    return `Successfully deleted type '${params.type_name}'`;
+  });
+}
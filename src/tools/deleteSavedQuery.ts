@@ -1,9 +1,11 @@
 import { z } from 'zod';
 
+import { clearCachedResponses } from '../responseCache.js';
 import { withErrorHandling, type Logger } from '../responses.js';
 import { registeredTools } from '../server.js';
-import { deleteToolFile } from '../storage.js';
+import { deleteToolFile, hasToolFile } from '../storage.js';
 import type { DeleteSavedQueryToolParams } from '../types.js';
+import { clearToolUsage } from '../usageStats.js';
 
 export const name = 'delete_saved_query';
 
@@ -28,23 +30,28 @@ export function handler(params: DeleteSavedQueryToolParams): { content: { type:
       throw new Error(`Cannot delete core tool '${params.tool_name}'`);
     }
 
-    // Check if tool exists in registered tools
+    // Tools that failed to register at startup only exist as a file
     const registeredTool = registeredTools.get(params.tool_name);
-    if (!registeredTool) {
+    if (!registeredTool && !hasToolFile(params.tool_name)) {
       throw new Error(`Saved query '${params.tool_name}' not found`);
     }
 
-    // Remove from MCP server first (for atomicity - if this fails, we don't delete the file)
-    log('removing tool from MCP server');
-    registeredTool.remove();
+    if (registeredTool) {
+      // Remove from MCP server first (for atomicity - if this fails, we don't delete the file)
+      log('removing tool from MCP server');
+      registeredTool.remove();
 
-    // Remove from our registered tools map
-    registeredTools.delete(params.tool_name);
+      // Remove from our registered tools map
+      registeredTools.delete(params.tool_name);
+    }
 
     // Delete the file from storage
     log('deleting tool file from storage');
     deleteToolFile(params.tool_name);
 
+    clearCachedResponses(params.tool_name);
+    clearToolUsage(params.tool_name);
+
     return `Successfully deleted saved query '${params.tool_name}'`;
   });
 }
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 
-import { client } from '../client.js';
+import { describeEndpoints, getClient } from '../client.js';
+import { extractOperation } from '../graphqlDocument.js';
+import { requestWithErrorDetails } from '../graphqlErrors.js';
 import { withErrorHandling } from '../responses.js';
 
 export const name = 'execute_graphql_query';
@@ -14,15 +16,27 @@ export const config = {
       .string()
       .optional()
       .describe('JSON-encoded variables object for the query (e.g. {"id": "123"})'),
+    operationName: z
+      .string()
+      .optional()
+      .describe('Name of the operation to run when the query contains several operations'),
+    endpoint: z
+      .string()
+      .optional()
+      .describe(`Named endpoint to query. ${describeEndpoints()}`),
   },
 };
 
 export const handler = ({
   query,
   variables,
+  operationName,
+  endpoint,
 }: {
   query: string;
   variables?: string | undefined;
+  operationName?: string | undefined;
+  endpoint?: string | undefined;
 }): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> => {
   return withErrorHandling('executing GraphQL query', async () => {
     let parsedVariables: Record<string, unknown> | undefined;
@@ -33,7 +47,10 @@ export const handler = ({
         throw new TypeError(`Invalid JSON in variables parameter: ${variables}`);
       }
     }
-    const result = await client.request(query, parsedVariables);
-    return JSON.stringify(result, null, 2);
+    // Only the chosen operation and its fragments are sent, so the server never has to pick one
+    const document = operationName === undefined || operationName === '' ? query : extractOperation(query, operationName);
+    const client = getClient(endpoint);
+    const { text } = await requestWithErrorDetails(() => client.request(document, parsedVariables));
+    return text;
   });
 };
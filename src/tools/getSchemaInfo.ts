@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+import { describeEndpoints } from '../client.js';
+import { withErrorHandling, type Logger } from '../responses.js';
+import { formatSchemaOverview, formatTypeDetails } from '../schemaFormatter.js';
+import { getSchema } from '../schemaService.js';
+import type { GetSchemaInfoToolParams } from '../types.js';
+
+export const name = 'get_schema_info';
+
+export const config = {
+  title: 'Get Schema Info',
+  description:
+    'Explore the GraphQL schema: without a type name, lists root operation fields and all types; with a type name, shows its fields, arguments, values and related types',
+  inputSchema: {
+    type_name: z.string().optional().describe('The name of a type to show in detail (e.g. User)'),
+    endpoint: z.string().optional().describe(`Named endpoint whose schema to use. ${describeEndpoints()}`),
+  },
+};
+
+export function handler(params: GetSchemaInfoToolParams): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+  const { type_name: typeName } = params;
+
+  return withErrorHandling(typeName === undefined ? 'getting schema info' : `getting schema info for '${typeName}'`, async (log: Logger) => {
+    log('fetching schema');
+    const schema = await getSchema(params.endpoint);
+    if (!schema) {
+      throw new Error('Schema is unavailable: introspection failed or is disabled');
+    }
+
+    if (typeName === undefined) {
+      return formatSchemaOverview(schema);
+    }
+
+    const type = schema.getType(typeName);
+    if (!type) {
+      const suggestion = Object.keys(schema.getTypeMap()).find(candidate => candidate.toLowerCase() === typeName.toLowerCase());
+      const hint = suggestion === undefined ? '' : `. Did you mean '${suggestion}'?`;
+      throw new Error(`Type '${typeName}' not found in schema${hint}`);
+    }
+
+    return formatTypeDetails(schema, type);
+  });
+}
@@ -0,0 +1,25 @@
+import { getAllContext } from '../contextStore.js';
+import { withErrorHandling } from '../responses.js';
+
+export const name = 'list_graphql_context';
+
+export const config = {
+  title: 'List GraphQL Context',
+  description: 'List all context values that are injected into saved tool variables, and whether they persist across sessions',
+  inputSchema: {},
+};
+
+export function handler(): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  return withErrorHandling('listing context', () => {
+    const entries = getAllContext();
+    if (entries.length === 0) {
+      return 'No context variables set.';
+    }
+
+    const contextList = entries
+      .map(entry => `- **${entry.key}**: ${JSON.stringify(entry.value)}${entry.persistent ? ' (persistent)' : ''}`)
+      .join('\n');
+
+    return `Found ${entries.length} context variable${entries.length === 1 ? '' : 's'}:\n\n${contextList}`;
+  });
+}
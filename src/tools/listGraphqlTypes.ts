@@ -0,0 +1,45 @@
+import { getEnumerationStatus } from '../dynamicEnumerations.js';
+import { withErrorHandling } from '../responses.js';
+import { loadAllTypes } from '../storage.js';
+import { typeReference } from '../typeReferences.js';
+import type { SavedTypeConfig } from '../types.js';
+
+export const name = 'list_graphql_types';
+
+export const config = {
+  title: 'List GraphQL Types',
+  description: 'List all custom types and their definitions',
+  inputSchema: {},
+};
+
+export function handler(): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  return withErrorHandling('listing types', () => {
+    const types = [...loadAllTypes().values()].sort((a, b) => a.name.localeCompare(b.name));
+    if (types.length === 0) {
+      return 'No custom types found.';
+    }
+
+    const typeList = types
+      .map(type => `- **${type.name}** (\`${typeReference(type.name)}\`)${describeSource(type)}:\n\`\`\`json\n${JSON.stringify(type.type_definition, null, 2)}\n\`\`\``)
+      .join('\n');
+
+    return `Found ${types.length} custom type${types.length === 1 ? '' : 's'}:\n\n${typeList}`;
+  });
+}
+
+/**
+ * Describes where a type populated from a saved query gets its values and how
+ * the last load went.
+ */
+function describeSource(type: SavedTypeConfig): string {
+  if (!type.source) {
+    return '';
+  }
+
+  const status = getEnumerationStatus(type.name);
+  const values = status?.options && status.loadedAt !== null
+    ? `${status.options.length} loaded at ${new Date(status.loadedAt).toISOString()}`
+    : 'not loaded yet';
+  const error = typeof status?.error === 'string' ? `; last load failed: ${status.error}` : '';
+  return `, values from \`${type.source.tool_name}\` (${values}${error})`;
+}
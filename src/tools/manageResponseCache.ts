@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+import { clearCachedResponses, getCacheStats } from '../responseCache.js';
+import { withErrorHandling } from '../responses.js';
+import type { ManageResponseCacheToolParams } from '../types.js';
+
+export const name = 'manage_response_cache';
+
+export const config = {
+  title: 'Manage Response Cache',
+  description: 'Inspect or purge cached saved tool responses',
+  inputSchema: {
+    action: z
+      .enum(['inspect', 'purge'])
+      .describe('inspect: show cache contents and limits; purge: remove cached responses'),
+    tool_name: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]*$/, 'Tool name must be snake_case starting with a letter')
+      .optional()
+      .describe('Only purge responses cached for this saved tool'),
+  },
+};
+
+export function handler(params: ManageResponseCacheToolParams): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  return withErrorHandling(`${params.action === 'purge' ? 'purging' : 'inspecting'} response cache`, () => {
+    if (params.action === 'purge') {
+      const removed = clearCachedResponses(params.tool_name);
+      const scope = params.tool_name === undefined ? '' : ` for '${params.tool_name}'`;
+      return `Purged ${removed} cached response${removed === 1 ? '' : 's'}${scope}`;
+    }
+
+    const stats = getCacheStats();
+    const backend = stats.persistent ? `persistent: ${stats.location}` : 'in memory';
+    const lines = [
+      `Response cache (${backend})`,
+      `Entries: ${stats.entries} / ${stats.maxEntries}`,
+      `Size: ${formatBytes(stats.totalBytes)} / ${formatBytes(stats.maxBytes)}`,
+    ];
+
+    if (stats.tools.length > 0) {
+      lines.push('', ...stats.tools.map(tool =>
+        `- **${tool.toolName}**: ${tool.entries} entr${tool.entries === 1 ? 'y' : 'ies'}, ${formatBytes(tool.bytes)}, oldest ${tool.oldestAgeSeconds}s`
+      ));
+    }
+
+    return lines.join('\n');
+  });
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+import { refreshEnumeration, type EnumerationRefreshResult } from '../dynamicEnumerationRefresh.js';
+import { withErrorHandling, type Logger } from '../responses.js';
+import { registeredTools } from '../server.js';
+import { loadAllTypes } from '../storage.js';
+import type { RefreshGraphqlTypeToolParams } from '../types.js';
+
+export const name = 'refresh_graphql_type';
+
+export const config = {
+  title: 'Refresh GraphQL Type',
+  description:
+    'Reload the allowed values of custom types populated from a saved query, updating the input schemas of saved tools that use them',
+  inputSchema: {
+    type_name: z.string().optional().describe('Only reload this type; all types populated from saved queries if omitted'),
+  },
+};
+
+export function handler(params: RefreshGraphqlTypeToolParams = {}): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+  return withErrorHandling('refreshing types', async (log: Logger) => {
+    if (params.type_name !== undefined) {
+      log(`loading values of type '${params.type_name}'`);
+      return formatRefreshResult(await refreshEnumeration(params.type_name, registeredTools));
+    }
+
+    const typeNames = [...loadAllTypes().values()]
+      .filter(type => type.source !== undefined)
+      .map(type => type.name)
+      .sort((a, b) => a.localeCompare(b));
+    if (typeNames.length === 0) {
+      return 'No types are populated from saved queries.';
+    }
+
+    // One failing query shouldn't keep the other types from being refreshed
+    const lines: string[] = [];
+    for (const typeName of typeNames) {
+      log(`loading values of type '${typeName}'`);
+      try {
+        lines.push(formatRefreshResult(await refreshEnumeration(typeName, registeredTools)));
+      } catch (error) {
+        lines.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    return lines.join('\n');
+  });
+}
+
+function formatRefreshResult(result: EnumerationRefreshResult): string {
+  const valueCount = `${result.options.length} value${result.options.length === 1 ? '' : 's'}`;
+  const summary = `Loaded ${valueCount} for type '${result.typeName}' from '${result.toolName}'`;
+  if (!result.changed) {
+    return `${summary}, unchanged.`;
+  }
+  if (result.updatedTools.length === 0) {
+    return `${summary}.`;
+  }
+  return `${summary}. Updated ${result.updatedTools.join(', ')}.`;
+}
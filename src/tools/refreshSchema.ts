@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+import { describeEndpoints, getDefaultEndpointName, resolveEndpointName } from '../client.js';
+import { withErrorHandling, type Logger } from '../responses.js';
+import { countSchemaChanges, formatSchemaChanges } from '../schemaChanges.js';
+import { refreshSchema } from '../schemaService.js';
+import type { RefreshSchemaToolParams } from '../types.js';
+
+export const name = 'refresh_schema';
+
+export const config = {
+  title: 'Refresh Schema',
+  description:
+    'Refetch the GraphQL schema by introspection and report breaking, dangerous and safe changes since the previously loaded schema',
+  inputSchema: {
+    endpoint: z.string().optional().describe(`Named endpoint whose schema to refetch. ${describeEndpoints()}`),
+  },
+};
+
+export function handler(params: RefreshSchemaToolParams = {}): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+  return withErrorHandling('refreshing schema', async (log: Logger) => {
+    log('fetching schema');
+    const endpoint = resolveEndpointName(params.endpoint);
+    const { schema, source, changes } = await refreshSchema(endpoint);
+    const typeCount = Object.keys(schema.getTypeMap()).filter(typeName => !typeName.startsWith('__')).length;
+    // Introspection failed and the schema file was used instead
+    const from = source === 'file' ? ' from the schema file' : '';
+    // The default endpoint isn't named, so single-endpoint setups read as before
+    const label = endpoint === getDefaultEndpointName() ? 'Schema' : `Schema for endpoint '${endpoint}'`;
+
+    if (!changes) {
+      return `${label} loaded${from}: ${typeCount} types.`;
+    }
+
+    const changeCount = countSchemaChanges(changes);
+    if (changeCount === 0) {
+      return `${label} refreshed${from}: ${typeCount} types, no changes since the previous schema.`;
+    }
+
+    const summary = `${label} refreshed${from}: ${typeCount} types, ${changeCount} change${changeCount === 1 ? '' : 's'} since the previous schema.`;
+    return `${summary}\n\n${formatSchemaChanges(changes)}`;
+  });
+}
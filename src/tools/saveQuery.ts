@@ -1,13 +1,21 @@
 import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GraphQLSchema, OperationDefinitionNode } from 'graphql';
 import { z } from 'zod';
 
-import { createDynamicToolHandler } from '../dynamicToolHandler.js';
-import { validateJsonSchema, convertJsonSchemaToMcpZod } from '../jsonSchemaValidator.js';
+import { describeEndpoints, resolveEndpointName } from '../client.js';
+import { createDynamicToolHandler, getToolInputSchema } from '../dynamicToolHandler.js';
+import { extractOperationVariables, parseDocument, selectOperation } from '../graphqlDocument.js';
+import { validateJsonSchema } from '../jsonSchemaValidator.js';
+import { getPaginationVariables, validatePaginationConfig } from '../pagination.js';
+import { findParameterSchemaMismatches, generateParameterSchema } from '../parameterSchema.js';
+import { clearCachedResponses } from '../responseCache.js';
 import { withErrorHandling, type Logger } from '../responses.js';
-import { validateGraphQLQuery } from '../schemaService.js';
+import { getSchema, validateGraphQLQuery } from '../schemaService.js';
 import { server, registeredTools } from '../server.js';
-import { saveToolToFile } from '../storage.js';
-import type { SaveQueryToolParams, SavedToolConfig } from '../types.js';
+import { loadAllTypes, saveToolToFile } from '../storage.js';
+import { dereferenceSchema } from '../typeReferences.js';
+import type { PaginationConfig, SaveQueryToolParams, SavedToolConfig } from '../types.js';
+import { findUnknownValueMappings } from '../valueMappings.js';
 
 export const name = 'save_query';
 
@@ -27,20 +35,44 @@ export const config = {
       .string()
       .min(1, 'GraphQL query is required')
       .describe('The GraphQL query that this tool will execute'),
-    parameter_schema: z.record(z.any()).describe('JSON Schema defining tool parameters'),
+    operation_name: z
+      .string()
+      .optional()
+      .describe('Operation to run when the query contains several operations; save each one as its own tool'),
+    endpoint: z.string().optional().describe(`Named endpoint the tool queries. ${describeEndpoints()}`),
+    parameter_schema: z
+      .record(z.any())
+      .optional()
+      .describe(
+        'JSON Schema defining tool parameters. Custom types can be referenced with {"$ref": "types/<type_name>.json"}. ' +
+          "Generated from the query's variable definitions if omitted"
+      ),
     overwrite: z.boolean().default(false).describe('Whether to overwrite an existing tool with the same name'),
-    // To be implemented:
-    // pagination_config: z.object({
-    //   enabled: z.boolean(),
-    //   style: z.enum(['relay', 'offset', 'cursor']),
-    //   page_size: z.number().int().positive(),
-    //   merge_strategy: z.enum(['concat_nodes', 'concat_edges', 'custom']),
-    // }).optional(),
-    // idempotency: z.object({
-    //   enabled: z.boolean(),
-    //   cache_key_params: z.array(z.string()),
-    //   ttl_seconds: z.number().int().positive(),
-    // }).optional(),
+    pagination_config: z.object({
+      enabled: z.boolean(),
+      style: z.enum(['relay', 'offset', 'cursor']),
+      page_size: z.number().int().positive(),
+      merge_strategy: z.enum(['concat_nodes', 'concat_edges', 'custom']),
+      cursor_variable: z.string().optional().describe('Relay/cursor: variable receiving the next page cursor (default: after)'),
+      offset_variable: z.string().optional().describe('Offset: variable receiving the item offset (default: offset)'),
+      page_size_variable: z
+        .string()
+        .optional()
+        .describe('Variable receiving page_size when not supplied (default: first for relay, limit otherwise)'),
+      max_pages: z.number().int().positive().optional().describe('Maximum number of pages to fetch (default: 50)'),
+      max_items: z.number().int().positive().optional().describe('Maximum number of items to return across all pages'),
+      list_path: z
+        .string()
+        .optional()
+        .describe("Custom merge: path to the paginated list (e.g. 'data.repository.issues.nodes')"),
+      cursor_path: z.string().optional().describe("Custom merge: path to the next page cursor (e.g. 'data.items.nextToken')"),
+      has_more_path: z.string().optional().describe('Custom merge: path to a boolean indicating more pages are available'),
+    }).optional().describe('Automatically fetch and merge all pages of a list'),
+    idempotency: z.object({
+      enabled: z.boolean(),
+      cache_key_params: z.array(z.string()).describe('Parameters whose values identify a cached response'),
+      ttl_seconds: z.number().int().positive().describe('How long a cached response is reused'),
+    }).optional().describe('Cache responses so repeated calls with the same parameters skip the request'),
   },
 };
 
@@ -53,7 +85,7 @@ function registerToolWithServer(
   const dynamicToolConfig = {
     title: toolConfig.description,
     description: toolConfig.description,
-    inputSchema: convertJsonSchemaToMcpZod(toolConfig.parameter_schema),
+    inputSchema: getToolInputSchema(toolConfig),
   };
 
   const registeredTool = server.registerTool(toolName, dynamicToolConfig, dynamicHandler);
@@ -75,8 +107,10 @@ function updateExistingTool(
   existingTool.update({
     title: toolConfig.description,
     description: toolConfig.description,
-    paramsSchema: convertJsonSchemaToMcpZod(toolConfig.parameter_schema),
+    paramsSchema: getToolInputSchema(toolConfig),
     callback: dynamicHandler,
+    // Re-enable tools disabled by check_saved_queries; the new query has just been validated
+    enabled: true,
   });
 }
 
@@ -92,24 +126,55 @@ export function handler(params: SaveQueryToolParams): Promise<{ content: { type:
     }
 
     log('parsing params');
-    if (!validateJsonSchema(params.parameter_schema)) {
+    // Custom types referenced via $ref must exist, and are validated as part of the schema
+    const resolvedSchema = params.parameter_schema && dereferenceSchema(params.parameter_schema, loadAllTypes());
+    if (resolvedSchema && !validateJsonSchema(resolvedSchema)) {
       throw new Error('Invalid parameter_schema: must be a valid JSON Schema object');
     }
+    const unknownMappings = resolvedSchema ? findUnknownValueMappings(resolvedSchema) : [];
+    if (unknownMappings.length > 0) {
+      throw new Error(`Invalid parameter_schema: ${unknownMappings.join('; ')}`);
+    }
+
+    // Fails early for endpoints that aren't configured
+    resolveEndpointName(params.endpoint);
 
     log('validating GraphQL query');
-    const validationResult = await validateGraphQLQuery(params.graphql_query);
+    const validationResult = await validateGraphQLQuery(params.graphql_query, undefined, undefined, params.endpoint);
     if (validationResult.isError === true) {
       const errorText = validationResult.content[0]?.text;
       throw new Error(errorText ?? 'GraphQL validation failed');
     }
 
-    const variables = extractGraphQLVariables(params.graphql_query);
+    const document = parseDocument(params.graphql_query);
+    const operation = selectOperation(document, params.operation_name);
+    const variables = extractOperationVariables(operation);
+    const variableNames = variables.map(variable => variable.name);
+
+    const schema = await getSchema(params.endpoint);
+    log(resolvedSchema ? 'comparing parameter_schema with the query variables' : 'generating parameter_schema');
+    const parameterSchema = params.parameter_schema ?? generateParameterSchema(operation, schema);
+    const notes = resolvedSchema
+      ? describeMismatches(resolvedSchema, operation, schema, params.pagination_config)
+      : [describeGeneratedSchema(parameterSchema, schema)];
+
+    if (params.pagination_config?.enabled === true) {
+      log('validating pagination config');
+      validatePaginationConfig(params.pagination_config, variableNames, document);
+    }
+
+    if (params.idempotency?.enabled === true) {
+      log('validating idempotency config');
+      validateCacheKeyParams(params.idempotency.cache_key_params, parameterSchema, variableNames);
+    }
 
     const toolConfig: SavedToolConfig = {
       name: params.tool_name,
       description: params.description,
       graphql_query: params.graphql_query,
-      parameter_schema: params.parameter_schema,
+      operation_name: params.operation_name,
+      endpoint: params.endpoint,
+      parameter_schema: parameterSchema,
       pagination_config: params.pagination_config,
       idempotency: params.idempotency,
       variables,
@@ -119,15 +184,18 @@ export function handler(params: SaveQueryToolParams): Promise<{ content: { type:
     log('persisting file');
     saveToolToFile(params.tool_name, toolConfig);
 
+    // Responses cached under the previous definition may no longer be accurate
+    clearCachedResponses(params.tool_name);
+
     // Then register or update with server
     if (isCreate) {
       log('registering new tool in MCP server');
       registerToolWithServer(params.tool_name, toolConfig);
-      return `Successfully created tool '${params.tool_name}' with ${variables.length} variables: ${variables.join(', ')}`;
+      return [`Successfully created tool '${params.tool_name}' with ${variables.length} variables: ${variableNames.join(', ')}`, ...notes].join('\n\n');
     } else if (isUpdate) {
       log('updating existing tool in MCP server');
       updateExistingTool(params.tool_name, toolConfig);
-      return `Successfully updated tool '${params.tool_name}' with ${variables.length} variables: ${variables.join(', ')}`;
+      return [`Successfully updated tool '${params.tool_name}' with ${variables.length} variables: ${variableNames.join(', ')}`, ...notes].join('\n\n');
     }
 
     // This should never happen due to the logic above, but keeping for safety
@@ -135,7 +203,32 @@ export function handler(params: SaveQueryToolParams): Promise<{ content: { type:
   });
 }
 
-function extractGraphQLVariables(query: string): string[] {
-  const variableMatches = query.match(/\$(\w+)/g) ?? [];
-  return [...new Set(variableMatches.map(match => match.slice(1)))];
+function describeGeneratedSchema(parameterSchema: Record<string, unknown>, schema: GraphQLSchema | null): string {
+  const note = schema
+    ? "Generated parameter_schema from the query's variable definitions:"
+    : "Generated parameter_schema from the query's variable definitions. The GraphQL schema is unavailable, so enums and input objects accept any value:";
+  return `${note}\n\`\`\`json\n${JSON.stringify(parameterSchema, null, 2)}\n\`\`\``;
+}
+
+function describeMismatches(
+  parameterSchema: Record<string, unknown>,
+  operation: OperationDefinitionNode,
+  schema: GraphQLSchema | null,
+  paginationConfig: PaginationConfig | undefined
+): string[] {
+  const paginationVariables = paginationConfig?.enabled === true ? getPaginationVariables(paginationConfig) : [];
+  const mismatches = findParameterSchemaMismatches(parameterSchema, generateParameterSchema(operation, schema), paginationVariables);
+  if (mismatches.length === 0) {
+    return [];
+  }
+  const details = mismatches.map(mismatch => `- ${mismatch}`).join('\n');
+  return [`Warning: parameter_schema does not match the query's variable definitions:\n${details}`];
+}
+
+function validateCacheKeyParams(cacheKeyParams: string[], parameterSchema: Record<string, unknown>, variables: string[]): void {
+  const properties = Object.keys((parameterSchema['properties'] ?? {}) as Record<string, unknown>);
+  const unknownParams = cacheKeyParams.filter(param => !properties.includes(param) && !variables.includes(param));
+  if (unknownParams.length > 0) {
+    throw new Error(`Invalid idempotency config: unknown cache_key_params: ${unknownParams.join(', ')}`);
+  }
 }
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+import { describeEndpoints } from '../client.js';
+import { withErrorHandling, type Logger } from '../responses.js';
+import { searchSchema } from '../schemaSearch.js';
+import { getSchema } from '../schemaService.js';
+import type { SearchSchemaToolParams } from '../types.js';
+
+export const name = 'search_schema';
+
+export const config = {
+  title: 'Search Schema',
+  description:
+    'Search the GraphQL schema for types, fields, arguments, input fields and enum values by name or description, with fuzzy matching. Returns the best matches with their signatures',
+  inputSchema: {
+    query: z.string().min(1, 'Query is required').describe('Words or a partial name to search for (e.g. "user email")'),
+    kind: z
+      .enum(['type', 'field', 'argument', 'enum_value', 'input_field'])
+      .optional()
+      .describe('Only return matches of this kind'),
+    limit: z.number().int().min(1).max(100).default(20).describe('Maximum number of matches to return'),
+    endpoint: z.string().optional().describe(`Named endpoint whose schema to use. ${describeEndpoints()}`),
+  },
+};
+
+export function handler(params: SearchSchemaToolParams): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+  return withErrorHandling(`searching schema for '${params.query}'`, async (log: Logger) => {
+    log('fetching schema');
+    const schema = await getSchema(params.endpoint);
+    if (!schema) {
+      throw new Error('Schema is unavailable: introspection failed or is disabled');
+    }
+
+    log('searching schema');
+    const results = searchSchema(schema, params.query, { kind: params.kind });
+    if (results.length === 0) {
+      return `No schema matches found for '${params.query}'.`;
+    }
+
+    const limit = params.limit ?? 20;
+    const shown = results.slice(0, limit);
+    const resultList = shown
+      .map(result => {
+        const description = result.description === null ? '' : ` - ${summarize(result.description)}`;
+        return `- **${result.coordinate}** (${result.kind}): \`${result.signature}\`${description}`;
+      })
+      .join('\n');
+
+    const matches = `${results.length} match${results.length === 1 ? '' : 'es'}`;
+    const count = results.length > shown.length ? `${matches}, showing the best ${shown.length},` : matches;
+    return `Found ${count} for '${params.query}':\n\n${resultList}`;
+  });
+}
+
+/**
+ * Shortens a description to its first line, so long descriptions don't crowd out results.
+ */
+function summarize(description: string): string {
+  const [firstLine = ''] = description.trim().split('\n');
+  return firstLine.length > 120 ? `${firstLine.slice(0, 117)}...` : firstLine;
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+import { getContextEntry, setContextValue } from '../contextStore.js';
+import { withErrorHandling } from '../responses.js';
+import type { SetGraphqlContextToolParams } from '../types.js';
+
+export const name = 'set_graphql_context';
+
+export const config = {
+  title: 'Set GraphQL Context',
+  description: 'Set a context value that is automatically supplied to any saved tool variable with the same name',
+  inputSchema: {
+    key: z
+      .string()
+      .regex(/^[A-Z_a-z]\w*$/, 'Context key must be a valid GraphQL variable name')
+      .describe('The context key, matching the GraphQL variable name without $ (e.g. workspaceId)'),
+    value: z
+      .union([z.string(), z.number(), z.boolean()])
+      .describe('The value to inject when a saved tool call does not supply this variable'),
+    persist: z
+      .boolean()
+      .optional()
+      .describe('Keep this value across sessions (true) or only for this session (false). Defaults to the key\'s current setting, or session-only for new keys'),
+  },
+};
+
+export function handler(params: SetGraphqlContextToolParams): { content: { type: 'text'; text: string }[]; isError?: boolean } {
+  return withErrorHandling(`setting context '${params.key}'`, () => {
+    const previous = setContextValue(params.key, params.value, params.persist);
+
+    const replaced = previous === undefined ? '' : ` (was ${JSON.stringify(previous)})`;
+    const scope = getContextEntry(params.key)?.persistent === true ? 'persistent' : 'session-only';
+    return `Set ${scope} context '${params.key}' to ${JSON.stringify(params.value)}${replaced}`;
+  });
+}
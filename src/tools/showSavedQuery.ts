@@ -4,6 +4,7 @@ import { withErrorHandling } from '../responses.js';
 import { registeredTools } from '../server.js';
 import { loadToolFromFile } from '../storage.js';
 import type { ShowSavedQueryToolParams } from '../types.js';
+import { getToolUsage, type ToolUsage } from '../usageStats.js';
 
 export const name = 'show_saved_query';
 
@@ -36,12 +37,21 @@ export function handler(params: ShowSavedQueryToolParams): { content: { type: 't
       name: toolConfig.name,
       description: toolConfig.description,
       graphql_query: toolConfig.graphql_query,
+      ...(toolConfig.operation_name !== undefined && { operation_name: toolConfig.operation_name }),
+      ...(toolConfig.endpoint !== undefined && { endpoint: toolConfig.endpoint }),
       parameter_schema: toolConfig.parameter_schema,
       variables: toolConfig.variables,
       ...(toolConfig.pagination_config && { pagination_config: toolConfig.pagination_config }),
       ...(toolConfig.idempotency && { idempotency: toolConfig.idempotency }),
     };
 
-    return `Tool definition for '${params.tool_name}':\n\n\`\`\`json\n${JSON.stringify(toolDefinition, null, 2)}\n\`\`\``;
+    const definition = `Tool definition for '${params.tool_name}':\n\n\`\`\`json\n${JSON.stringify(toolDefinition, null, 2)}\n\`\`\``;
+    return `${definition}\n\n${formatUsage(getToolUsage(params.tool_name))}`;
   });
-}
\ No newline at end of file
+}
+
+function formatUsage(usage: ToolUsage): string {
+  const lastCalled = usage.lastCalledAt === null ? '' : ` Last called at ${new Date(usage.lastCalledAt).toISOString()}.`;
+  return `Usage since the server started: ${usage.calls} call${usage.calls === 1 ? '' : 's'} (${usage.failures} failed), ` +
+    `${usage.testCalls} test call${usage.testCalls === 1 ? '' : 's'} (${usage.testFailures} failed).${lastCalled}`;
+}
@@ -0,0 +1,58 @@
+import { introspectionFromSchema, printSchema } from 'graphql';
+import { z } from 'zod';
+
+import { describeEndpoints, getDefaultEndpointName, resolveEndpointName } from '../client.js';
+import { withErrorHandling, type Logger } from '../responses.js';
+import { fetchIntrospectionSchema } from '../schemaService.js';
+import { getDefaultSchemaFilePath, resolveSchemaSnapshotPath, writeSchemaFile } from '../storage.js';
+import type { SnapshotSchemaToolParams } from '../types.js';
+
+export const name = 'snapshot_schema';
+
+export const config = {
+  title: 'Snapshot Schema',
+  description:
+    'Fetch the live GraphQL schema by introspection and save it to a file, for use when introspection is unavailable',
+  inputSchema: {
+    file_path: z
+      .string()
+      .regex(/\.(graphql|gql|json)$/i, 'File path must end in .graphql, .gql or .json')
+      .optional()
+      .describe('Where to save the schema, relative to data/schema: .json saves introspection JSON, .graphql or .gql saves SDL (default: the configured schema file, or data/schema/schema.graphql)'),
+    endpoint: z.string().optional().describe(`Named endpoint whose schema to save. ${describeEndpoints()}`),
+  },
+};
+
+export function handler(params: SnapshotSchemaToolParams): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+  return withErrorHandling('saving schema snapshot', async (log: Logger) => {
+    const endpoint = resolveEndpointName(params.endpoint);
+    // MCP_GRAPHQL_SCHEMA_FILE only applies to the default endpoint; named endpoints
+    // read their schema file from a fixed location
+    const isDefaultEndpoint = endpoint === getDefaultEndpointName();
+    const configuredFile = isDefaultEndpoint ? process.env['MCP_GRAPHQL_SCHEMA_FILE'] ?? '' : '';
+    const defaultFile = isDefaultEndpoint ? getDefaultSchemaFilePath() : getDefaultSchemaFilePath(endpoint);
+    const defaultPath = configuredFile === '' ? defaultFile : configuredFile;
+    // Tool calls may only write to the schema directory, or to the configured schema file
+    const filePath = params.file_path === undefined ? defaultPath : resolveSchemaSnapshotPath(params.file_path, configuredFile);
+    const isJson = filePath.toLowerCase().endsWith('.json');
+
+    log('fetching live schema');
+    const schema = await fetchIntrospectionSchema(endpoint);
+
+    log('writing schema file');
+    const content = isJson ? JSON.stringify(introspectionFromSchema(schema), null, 2) : printSchema(schema);
+    writeSchemaFile(filePath, content);
+
+    const typeCount = Object.keys(schema.getTypeMap()).filter(typeName => !typeName.startsWith('__')).length;
+    const saved = `Saved ${isJson ? 'introspection JSON' : 'SDL'} for ${typeCount} types to ${filePath}.`;
+    if (!isDefaultEndpoint) {
+      return filePath === defaultFile
+        ? saved
+        : `${saved} The '${endpoint}' endpoint only falls back to ${defaultFile} when introspection is unavailable.`;
+    }
+    if (filePath === configuredFile) {
+      return saved;
+    }
+    return `${saved} Set MCP_GRAPHQL_SCHEMA_FILE=${filePath} to use it when introspection is unavailable.`;
+  });
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+import { createDynamicToolHandler } from '../dynamicToolHandler.js';
+import { createErrorResponse } from '../responses.js';
+import { loadToolFromFile } from '../storage.js';
+import type { TestSavedQueryToolParams } from '../types.js';
+
+export const name = 'test_saved_query';
+
+export const config = {
+  title: 'Test Saved Query',
+  description:
+    'Run a saved tool in test mode: shows the resolved variables, timing and, on failure, the query and parameter schema. Bypasses the response cache and is not counted as regular usage',
+  inputSchema: {
+    tool_name: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]*$/, 'Tool name must be snake_case starting with a letter')
+      .describe('The name of the saved tool to test'),
+    parameters: z.record(z.any()).default({}).describe('Parameters to call the tool with'),
+    validate_only: z
+      .boolean()
+      .default(false)
+      .describe('Only validate the parameters, variables and query against the schema, without executing the query'),
+  },
+};
+
+export async function handler(params: TestSavedQueryToolParams): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> {
+  let toolConfig;
+  try {
+    toolConfig = loadToolFromFile(params.tool_name);
+  } catch (error) {
+    return createErrorResponse(`testing tool '${params.tool_name}'`, error);
+  }
+  if (!toolConfig) {
+    return createErrorResponse(`testing tool '${params.tool_name}'`, new Error(`Saved query '${params.tool_name}' not found`));
+  }
+
+  let testHandler;
+  try {
+    testHandler = createDynamicToolHandler(toolConfig, { test: true, validateOnly: params.validate_only ?? false });
+  } catch (error) {
+    return createErrorResponse(`testing tool '${params.tool_name}'`, error);
+  }
+  return testHandler(params.parameters ?? {});
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+import { describeEndpoints } from '../client.js';
+import { createErrorResponse } from '../responses.js';
+import { validateGraphQLQuery } from '../schemaService.js';
+
+export const name = 'validate_graphql_query';
+
+export const config = {
+  title: 'Validate GraphQL Query',
+  description:
+    'Check a GraphQL query against the schema without executing it, optionally also checking variables against the operation\'s variable definitions',
+  inputSchema: {
+    query: z.string().describe('The GraphQL query to validate'),
+    variables: z
+      .string()
+      .optional()
+      .describe('JSON-encoded variables object to check against the query (e.g. {"id": "123"})'),
+    operationName: z
+      .string()
+      .optional()
+      .describe('Operation whose variable definitions the variables are checked against, if the query contains several'),
+    endpoint: z.string().optional().describe(`Named endpoint whose schema to validate against. ${describeEndpoints()}`),
+  },
+};
+
+export const handler = ({
+  query,
+  variables,
+  operationName,
+  endpoint,
+}: {
+  query: string;
+  variables?: string | undefined;
+  operationName?: string | undefined;
+  endpoint?: string | undefined;
+}): Promise<{ content: { type: 'text'; text: string }[]; isError?: boolean }> => {
+  if (variables === undefined || variables === '') {
+    return validateGraphQLQuery(query, undefined, undefined, endpoint);
+  }
+
+  let parsedVariables: unknown;
+  try {
+    parsedVariables = JSON.parse(variables);
+  } catch {
+    return Promise.resolve(createErrorResponse('validating GraphQL query', new TypeError(`Invalid JSON in variables parameter: ${variables}`)));
+  }
+
+  if (parsedVariables === null || typeof parsedVariables !== 'object' || Array.isArray(parsedVariables)) {
+    return Promise.resolve(createErrorResponse('validating GraphQL query', new TypeError('Variables must be a JSON object')));
+  }
+
+  return validateGraphQLQuery(query, parsedVariables as Record<string, unknown>, operationName, endpoint);
+};
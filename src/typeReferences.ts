@@ -0,0 +1,144 @@
+import type { SavedToolConfig, SavedTypeConfig } from './types.js';
+
+// Custom types are referenced by their file in the data directory, e.g. { "$ref": "types/Priority.json" }
+const TYPE_REF_PATTERN = /^types\/([A-Z_a-z]\w*)\.json$/;
+
+/**
+ * Returns the reference used in a JSON Schema to point at a custom type.
+ */
+export function typeReference(typeName: string): string {
+  return `types/${typeName}.json`;
+}
+
+/**
+ * Returns the custom type name a $ref points to, or null for any other reference.
+ */
+export function parseTypeReference(ref: string): string | null {
+  const match = TYPE_REF_PATTERN.exec(ref);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Returns the names of all custom types a schema references directly, sorted.
+ */
+export function findTypeReferences(schema: unknown): string[] {
+  const typeNames = new Set<string>();
+
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (node === null || typeof node !== 'object') {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      const typeName = key === '$ref' && typeof value === 'string' ? parseTypeReference(value) : null;
+      if (typeName === null) {
+        visit(value);
+      } else {
+        typeNames.add(typeName);
+      }
+    }
+  };
+
+  visit(schema);
+  return [...typeNames].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Returns a copy of the schema with every custom type reference and local
+ * reference (e.g. "#/$defs/Status") replaced by the definition it points to.
+ * Keywords next to a $ref, such as a description, take precedence over the
+ * definition's own. Other references are left unchanged.
+ */
+export function dereferenceSchema(
+  schema: Record<string, any>,
+  types: Map<string, SavedTypeConfig>
+): Record<string, any> {
+  // Local references are resolved against the schema or type definition they appear in
+  const resolve = (node: unknown, root: unknown, path: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map(item => resolve(item, root, path));
+    }
+    if (node === null || typeof node !== 'object') {
+      return node;
+    }
+
+    const { $ref: ref, ...rest } = node as Record<string, unknown>;
+    const resolvedRest = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, resolve(value, root, path)]));
+    if (typeof ref !== 'string') {
+      return ref === undefined ? resolvedRest : { $ref: ref, ...resolvedRest };
+    }
+
+    const typeName = parseTypeReference(ref);
+    let target: { label: string; definition: unknown; root: unknown };
+    if (typeName !== null) {
+      const type = types.get(typeName);
+      if (!type) {
+        throw new Error(`Unknown type '${typeName}' referenced by $ref '${ref}'`);
+      }
+      target = { label: typeName, definition: type.type_definition, root: type.type_definition };
+    } else if (ref.startsWith('#/')) {
+      const definition = resolvePointer(root, ref);
+      if (definition === undefined) {
+        throw new Error(`Unresolvable $ref '${ref}'`);
+      }
+      target = { label: ref, definition, root };
+    } else {
+      return { $ref: ref, ...resolvedRest };
+    }
+
+    if (path.includes(target.label)) {
+      throw new Error(`Circular reference: ${[...path, target.label].join(' -> ')}`);
+    }
+    const definition = resolve(target.definition, target.root, [...path, target.label]) as Record<string, unknown>;
+    return { ...definition, ...resolvedRest };
+  };
+
+  return resolve(schema, schema, []) as Record<string, any>;
+}
+
+/**
+ * Returns the names of saved tools whose parameter schema uses a type, either
+ * directly or through other types, sorted.
+ */
+export function findDependentTools(
+  typeName: string,
+  tools: Map<string, SavedToolConfig>,
+  types: Map<string, SavedTypeConfig>
+): string[] {
+  // Collect every type that uses typeName, however indirectly
+  const affectedTypes = new Set([typeName]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const type of types.values()) {
+      if (!affectedTypes.has(type.name) && findTypeReferences(type.type_definition).some(ref => affectedTypes.has(ref))) {
+        affectedTypes.add(type.name);
+        changed = true;
+      }
+    }
+  }
+
+  return [...tools.values()]
+    .filter(tool => findTypeReferences(tool.parameter_schema).some(ref => affectedTypes.has(ref)))
+    .map(tool => tool.name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Follows a local JSON pointer such as "#/$defs/Status" from the schema root.
+ */
+function resolvePointer(root: unknown, ref: string): unknown {
+  let node = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replaceAll('~1', '/').replaceAll('~0', '~');
+    if (node === null || typeof node !== 'object' || !(key in node)) {
+      return undefined;
+    }
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node;
+}
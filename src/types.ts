@@ -2,7 +2,9 @@ export interface SaveQueryToolParams {
   tool_name: string;
   description: string;
   graphql_query: string;
-  parameter_schema: Record<string, any>;
+  operation_name?: string | undefined;
+  endpoint?: string | undefined;
+  parameter_schema?: Record<string, any> | undefined;
   overwrite?: boolean;
   pagination_config?: PaginationConfig | undefined;
   idempotency?: IdempotencyConfig | undefined;
@@ -20,11 +22,47 @@ export interface ShowSavedQueryToolParams {
   tool_name: string;
 }
 
+export interface TestSavedQueryToolParams {
+  tool_name: string;
+  parameters?: Record<string, any> | undefined;
+  validate_only?: boolean | undefined;
+}
+
+export type ContextValue = string | number | boolean;
+
+export interface ContextEntry {
+  key: string;
+  value: ContextValue;
+  persistent: boolean;
+}
+
+export interface SetGraphqlContextToolParams {
+  key: string;
+  value: ContextValue;
+  persist?: boolean | undefined;
+}
+
+export interface ListGraphqlContextToolParams {
+  // No parameters required
+}
+
+export interface ClearGraphqlContextToolParams {
+  key?: string | undefined;
+}
+
 export interface PaginationConfig {
   enabled: boolean;
   style: 'relay' | 'offset' | 'cursor';
   page_size: number;
   merge_strategy: 'concat_nodes' | 'concat_edges' | 'custom';
+  cursor_variable?: string | undefined;
+  offset_variable?: string | undefined;
+  page_size_variable?: string | undefined;
+  max_pages?: number | undefined;
+  max_items?: number | undefined;
+  list_path?: string | undefined;
+  cursor_path?: string | undefined;
+  has_more_path?: string | undefined;
 }
 
 export interface IdempotencyConfig {
@@ -33,12 +71,110 @@ export interface IdempotencyConfig {
   ttl_seconds: number;
 }
 
+export interface CachedResponseEntry {
+  key: string;
+  toolName: string;
+  value: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ManageResponseCacheToolParams {
+  action: 'inspect' | 'purge';
+  tool_name?: string | undefined;
+}
+
+export interface CreateGraphqlTypeToolParams {
+  type_name: string;
+  type_definition?: Record<string, any> | undefined;
+  source?: EnumerationSource | undefined;
+  overwrite?: boolean | undefined;
+}
+
+export interface ListGraphqlTypesToolParams {
+  // No parameters required
+}
+
+export interface DeleteGraphqlTypeToolParams {
+  type_name: string;
+}
+
+export interface RefreshGraphqlTypeToolParams {
+  type_name?: string | undefined;
+}
+
+export interface GetSchemaInfoToolParams {
+  type_name?: string | undefined;
+  endpoint?: string | undefined;
+}
+
+export interface SearchSchemaToolParams {
+  query: string;
+  kind?: 'type' | 'field' | 'argument' | 'enum_value' | 'input_field' | undefined;
+  limit?: number | undefined;
+  endpoint?: string | undefined;
+}
+
+export interface CheckSavedQueriesToolParams {
+  tool_name?: string | undefined;
+  disable_broken?: boolean | undefined;
+}
+
+export interface RefreshSchemaToolParams {
+  endpoint?: string | undefined;
+}
+
+export interface SnapshotSchemaToolParams {
+  file_path?: string | undefined;
+  endpoint?: string | undefined;
+}
+
+export interface EnumerationSource {
+  /** Saved tool whose results provide the allowed values */
+  tool_name: string;
+  /** Parameters the saved tool is called with */
+  parameters?: Record<string, any> | undefined;
+  /** Path to the list of items in the response; the first list found if not set */
+  items_path?: string | undefined;
+  /** Path within each item to the option's display name */
+  name_path: string;
+  /** Path within each item to the value passed to the query */
+  value_path: string;
+  /** Seconds between reloads; without it the options are only loaded at startup and on demand */
+  refresh_seconds?: number | undefined;
+}
+
+export interface EnumerationOption {
+  name: string;
+  value: string | number;
+}
+
+export interface SavedTypeConfig {
+  name: string;
+  type_definition: Record<string, any>;
+  /** Saved query the type's allowed values are loaded from */
+  source?: EnumerationSource | undefined;
+}
+
+export interface SavedToolVariable {
+  name: string;
+  /** GraphQL type as declared by the operation, e.g. "[ID!]!" */
+  type: string;
+  /** Whether the variable is non-null without a default value */
+  required: boolean;
+  default_value?: unknown;
+}
+
 export interface SavedToolConfig {
   name: string;
   description: string;
   graphql_query: string;
+  /** Operation to run when graphql_query contains several operations */
+  operation_name?: string | undefined;
+  /** Named endpoint the tool queries; the default endpoint if not set */
+  endpoint?: string | undefined;
   parameter_schema: Record<string, any>;
   pagination_config?: PaginationConfig | undefined;
   idempotency?: IdempotencyConfig | undefined;
-  variables: string[];
+  variables: SavedToolVariable[];
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+export interface ToolUsage {
+  calls: number;
+  failures: number;
+  /** Calls made through test_saved_query, which don't count as calls */
+  testCalls: number;
+  testFailures: number;
+  lastCalledAt: number | null;
+}
+
+// Usage is only tracked for the lifetime of the process
+const usage = new Map<string, ToolUsage>();
+
+/**
+ * Records a saved tool invocation. Test invocations are counted separately so
+ * they don't skew production usage.
+ */
+export function recordToolCall(toolName: string, call: { test: boolean; failed: boolean }, now: number = Date.now()): void {
+  const entry = usage.get(toolName) ?? { calls: 0, failures: 0, testCalls: 0, testFailures: 0, lastCalledAt: null };
+
+  if (call.test) {
+    entry.testCalls++;
+    entry.testFailures += call.failed ? 1 : 0;
+  } else {
+    entry.calls++;
+    entry.failures += call.failed ? 1 : 0;
+    entry.lastCalledAt = now;
+  }
+
+  usage.set(toolName, entry);
+}
+
+export function getToolUsage(toolName: string): ToolUsage {
+  return { calls: 0, failures: 0, testCalls: 0, testFailures: 0, lastCalledAt: null, ...usage.get(toolName) };
+}
+
+/**
+ * Forgets usage for one tool, or for all tools if no name is given.
+ */
+export function clearToolUsage(toolName?: string): void {
+  if (toolName === undefined) {
+    usage.clear();
+  } else {
+    usage.delete(toolName);
+  }
+}
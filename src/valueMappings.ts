@@ -0,0 +1,131 @@
+import { getConfig } from './config.js';
+
+// Parameters declare the mapping their values go through by name, e.g.
+// { "type": "string", "x-mapping": "pipeline_name_to_id" }
+const MAPPING_KEYWORD = 'x-mapping';
+
+export type ValueMapping = Record<string, string | number>;
+
+interface MappedParameter {
+  parameterName: string;
+  mappingName: string;
+  /** Whether the parameter is an array of mapped values */
+  list: boolean;
+}
+
+/**
+ * Returns a configured mapping from names to values, or null if there is none.
+ * Enumerations can be used as mappings too, since each option maps a name to a value.
+ */
+export function getValueMapping(mappingName: string): ValueMapping | null {
+  const { mappings, enumerations } = getConfig();
+  const mapping = mappings[mappingName];
+  if (mapping) {
+    return mapping;
+  }
+
+  const options = enumerations[mappingName];
+  return options ? Object.fromEntries(options.map(({ name, value }) => [name, value])) : null;
+}
+
+/**
+ * Returns the names of all configured mappings and enumerations, sorted.
+ */
+export function getValueMappingNames(): string[] {
+  const { mappings, enumerations } = getConfig();
+  return [...new Set([...Object.keys(mappings), ...Object.keys(enumerations)])].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Describes parameters that declare a mapping which isn't configured.
+ */
+export function findUnknownValueMappings(parameterSchema: Record<string, any>): string[] {
+  return findMappedParameters(parameterSchema)
+    .filter(({ mappingName }) => getValueMapping(mappingName) === null)
+    .map(({ parameterName, mappingName }) => {
+      const available = getValueMappingNames();
+      const hint = available.length > 0 ? `configured mappings: ${available.join(', ')}` : 'no mappings are configured';
+      return `parameter '${parameterName}' uses mapping '${mappingName}', which is not configured (${hint})`;
+    });
+}
+
+/**
+ * Returns a copy of the schema in which parameters that declare a mapping accept
+ * the mapping's names as a string enum, so clients see the valid options.
+ * Parameters whose mapping isn't configured are left unchanged.
+ */
+export function expandValueMappings(parameterSchema: Record<string, any>): Record<string, any> {
+  const mappedParameters = findMappedParameters(parameterSchema);
+  if (mappedParameters.length === 0) {
+    return parameterSchema;
+  }
+
+  const properties: Record<string, any> = { ...parameterSchema['properties'] };
+  for (const { parameterName, mappingName, list } of mappedParameters) {
+    const mapping = getValueMapping(mappingName);
+    if (!mapping || Object.keys(mapping).length === 0) {
+      continue;
+    }
+
+    const property = properties[parameterName] as Record<string, any>;
+    properties[parameterName] = list
+      ? { ...property, items: { ...property['items'], type: 'string', enum: Object.keys(mapping) } }
+      : { ...property, type: 'string', enum: Object.keys(mapping) };
+  }
+  return { ...parameterSchema, properties };
+}
+
+/**
+ * Replaces the names passed for mapped parameters with the values they map to.
+ * Throws for names the mapping doesn't contain, listing the valid ones.
+ */
+export function applyValueMappings(parameterSchema: Record<string, any>, params: Record<string, any>): Record<string, any> {
+  const mappedParams = { ...params };
+
+  for (const { parameterName, mappingName, list } of findMappedParameters(parameterSchema)) {
+    const value: unknown = mappedParams[parameterName];
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const mapping = getValueMapping(mappingName);
+    if (!mapping) {
+      throw new Error(`Parameter '${parameterName}' uses mapping '${mappingName}', which is not configured`);
+    }
+    mappedParams[parameterName] = list && Array.isArray(value)
+      ? value.map(item => mapValue(mapping, parameterName, item))
+      : mapValue(mapping, parameterName, value);
+  }
+
+  return mappedParams;
+}
+
+function mapValue(mapping: ValueMapping, parameterName: string, name: unknown): string | number {
+  const value = typeof name === 'string' && Object.prototype.hasOwnProperty.call(mapping, name) ? mapping[name] : undefined;
+  if (value === undefined) {
+    throw new TypeError(`Unknown value ${JSON.stringify(name)} for parameter '${parameterName}'; valid values: ${Object.keys(mapping).join(', ')}`);
+  }
+  return value;
+}
+
+function findMappedParameters(parameterSchema: Record<string, any>): MappedParameter[] {
+  const properties = parameterSchema['properties'];
+  if (properties === null || typeof properties !== 'object') {
+    return [];
+  }
+
+  const mappedParameters: MappedParameter[] = [];
+  for (const [parameterName, property] of Object.entries(properties as Record<string, any>)) {
+    if (property === null || typeof property !== 'object') {
+      continue;
+    }
+    const mappingName: unknown = property[MAPPING_KEYWORD];
+    const itemMappingName: unknown = property['items']?.[MAPPING_KEYWORD];
+    if (typeof mappingName === 'string') {
+      mappedParameters.push({ parameterName, mappingName, list: false });
+    } else if (typeof itemMappingName === 'string') {
+      mappedParameters.push({ parameterName, mappingName: itemMappingName, list: true });
+    }
+  }
+  return mappedParameters;
+}
@@ -1,6 +1,74 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
 import { GraphQLClient } from 'graphql-request';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
+import type { OAuthClientCredentialsConfig } from '../src/config.js';
+
+interface StubServer {
+  url: string;
+  /** Form fields of each token request */
+  tokenRequests: URLSearchParams[];
+  /** Authorization header of each token request */
+  tokenAuthorizations: (string | undefined)[];
+  /** Authorization header of each GraphQL request */
+  graphqlAuthorizations: (string | undefined)[];
+  /** Tokens the GraphQL endpoint answers with 401 */
+  rejectedTokens: Set<string>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a local server with an OAuth token endpoint at /token, issuing token-1,
+ * token-2, ..., and a GraphQL endpoint at /graphql that accepts issued tokens.
+ */
+async function startStubServer(tokenResponse: { status?: number; body?: Record<string, unknown> } = {}): Promise<StubServer> {
+  let issued = 0;
+  const stub: Omit<StubServer, 'url' | 'close'> = {
+    tokenRequests: [],
+    tokenAuthorizations: [],
+    graphqlAuthorizations: [],
+    rejectedTokens: new Set(),
+  };
+
+  const server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    request.on('end', () => {
+      response.setHeader('content-type', 'application/json');
+      if (request.url === '/token') {
+        stub.tokenRequests.push(new URLSearchParams(body));
+        stub.tokenAuthorizations.push(request.headers.authorization);
+        issued++;
+        response.statusCode = tokenResponse.status ?? 200;
+        response.end(JSON.stringify(tokenResponse.body ?? { access_token: `token-${issued}`, token_type: 'Bearer', expires_in: 3600 }));
+        return;
+      }
+
+      const { authorization } = request.headers;
+      stub.graphqlAuthorizations.push(authorization);
+      const token = authorization?.replace(/^Bearer /, '') ?? '';
+      if (!/^token-\d+$/.test(token) || stub.rejectedTokens.has(token)) {
+        response.statusCode = 401;
+        response.end(JSON.stringify({ errors: [{ message: 'Unauthorized' }] }));
+        return;
+      }
+      response.end(JSON.stringify({ data: { viewer: { id: 'user_1' } } }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    ...stub,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
 
 // Mock graphql-request
 vi.mock('graphql-request', () => ({
@@ -16,6 +84,7 @@ describe('client', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     process.env = { ...originalEnv };
+    delete process.env.GRAPHQL_ENDPOINTS;
   });
 
   afterEach(() => {
@@ -46,7 +115,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_AUTH_TOKEN;
       delete process.env.GRAPHQL_COOKIE_HEADER;
 
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -63,7 +132,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_COOKIE_HEADER;
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -78,7 +147,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_AUTH_TOKEN;
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -93,7 +162,7 @@ describe('client', () => {
       process.env.GRAPHQL_COOKIE_HEADER = 'sessionId=abc123; token=xyz789';
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -109,7 +178,7 @@ describe('client', () => {
       process.env.GRAPHQL_COOKIE_HEADER = 'sessionId=abc123';
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -124,7 +193,7 @@ describe('client', () => {
       process.env.GRAPHQL_COOKIE_HEADER = '';
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -139,7 +208,7 @@ describe('client', () => {
       process.env.GRAPHQL_COOKIE_HEADER = '';
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -156,7 +225,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_AUTH_TOKEN;
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -171,7 +240,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_COOKIE_HEADER;
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -185,7 +254,7 @@ describe('client', () => {
       process.env.GRAPHQL_AUTH_TOKEN = 'different-token';
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://different-api.example.com/v2/graphql', {
         headers: {
@@ -202,7 +271,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_COOKIE_HEADER;
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -219,7 +288,7 @@ describe('client', () => {
       process.env.GRAPHQL_COOKIE_HEADER = 'session=abc123';
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -238,7 +307,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_COOKIE_HEADER;
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -256,7 +325,7 @@ describe('client', () => {
       delete process.env.GRAPHQL_COOKIE_HEADER;
 
       vi.resetModules();
-      const { client } = await import('../src/client.js');
+      await import('../src/client.js');
 
       expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
         headers: {
@@ -267,4 +336,308 @@ describe('client', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('named endpoints', () => {
+    beforeEach(() => {
+      delete process.env.GRAPHQL_AUTH_TOKEN;
+      delete process.env.GRAPHQL_COOKIE_HEADER;
+    });
+
+    it('should create a client for each endpoint in GRAPHQL_ENDPOINTS', async () => {
+      process.env.GRAPHQL_ENDPOINT = 'https://api.example.com/graphql';
+      process.env.GRAPHQL_ENDPOINTS = JSON.stringify({
+        github: { url: 'https://api.github.com/graphql', headers: { authorization: 'Bearer gh-token' } },
+        shop: { url: 'https://shop.example.com/graphql' },
+      });
+
+      const { getClient, getEndpointNames, getDefaultEndpointName } = await import('../src/client.js');
+
+      expect(getEndpointNames()).toEqual(['default', 'github', 'shop']);
+      expect(getDefaultEndpointName()).toBe('default');
+      expect(getClient('github')).toMatchObject({
+        endpoint: 'https://api.github.com/graphql',
+        options: { headers: { authorization: 'Bearer gh-token' } },
+      });
+      expect(getClient('shop')).toMatchObject({
+        options: { headers: { 'user-agent': 'GraphQL-MCP-Server/1.0.0' } },
+      });
+      expect(getClient()).toMatchObject({ endpoint: 'https://api.example.com/graphql' });
+    });
+
+    it('should default to the first named endpoint without GRAPHQL_ENDPOINT', async () => {
+      delete process.env.GRAPHQL_ENDPOINT;
+      process.env.GRAPHQL_ENDPOINTS = JSON.stringify({
+        shop: { url: 'https://shop.example.com/graphql' },
+        github: { url: 'https://api.github.com/graphql' },
+      });
+
+      const { getClient, getDefaultEndpointName, resolveEndpointName } = await import('../src/client.js');
+
+      expect(getDefaultEndpointName()).toBe('shop');
+      expect(resolveEndpointName()).toBe('shop');
+      expect(getClient()).toMatchObject({ endpoint: 'https://shop.example.com/graphql' });
+    });
+
+    it('should reject unknown endpoints', async () => {
+      process.env.GRAPHQL_ENDPOINT = 'https://api.example.com/graphql';
+      process.env.GRAPHQL_ENDPOINTS = JSON.stringify({ github: { url: 'https://api.github.com/graphql' } });
+
+      const { getClient } = await import('../src/client.js');
+
+      expect(() => getClient('gitlab')).toThrow("Unknown endpoint 'gitlab'. Configured endpoints: default, github");
+    });
+
+    it('should reserve the default name for GRAPHQL_ENDPOINT', async () => {
+      process.env.GRAPHQL_ENDPOINT = 'https://api.example.com/graphql';
+      process.env.GRAPHQL_ENDPOINTS = JSON.stringify({ default: { url: 'https://other.example.com/graphql' } });
+
+      await expect(import('../src/client.js')).rejects.toThrow("Invalid GRAPHQL_ENDPOINTS: 'default' is reserved for GRAPHQL_ENDPOINT");
+    });
+
+    it('should reject invalid JSON', async () => {
+      process.env.GRAPHQL_ENDPOINTS = '{github:';
+
+      await expect(import('../src/client.js')).rejects.toThrow('Invalid GRAPHQL_ENDPOINTS');
+    });
+
+    it('should reject invalid endpoint names and URLs', async () => {
+      process.env.GRAPHQL_ENDPOINTS = JSON.stringify({ 'My API': { url: 'not a url' } });
+
+      await expect(import('../src/client.js')).rejects.toThrow('Endpoint names must be snake_case starting with a letter');
+    });
+  });
+
+  describe('config file', () => {
+    beforeEach(() => {
+      delete process.env.GRAPHQL_AUTH_TOKEN;
+      delete process.env.GRAPHQL_COOKIE_HEADER;
+      vi.doMock('../src/config.js', async (importOriginal) => ({
+        ...await importOriginal<typeof import('../src/config.js')>(),
+        getConfig: (): Record<string, unknown> => ({ graphql_endpoint: 'https://config.example.com/graphql' }),
+        getAuthenticationHeaders: (): Record<string, string> => ({ authorization: 'Bearer config-token' }),
+      }));
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/config.js');
+    });
+
+    it('should use the endpoint and authentication from the config file', async () => {
+      delete process.env.GRAPHQL_ENDPOINT;
+
+      await import('../src/client.js');
+
+      expect(GraphQLClient).toHaveBeenCalledWith('https://config.example.com/graphql', {
+        headers: { authorization: 'Bearer config-token' },
+      });
+    });
+
+    it('should let environment variables override the config file', async () => {
+      process.env.GRAPHQL_ENDPOINT = 'https://api.example.com/graphql';
+      process.env.GRAPHQL_HEADER_AUTHORIZATION = 'Bearer env-token';
+      process.env.GRAPHQL_HEADER_X_API_VERSION = 'v2';
+
+      await import('../src/client.js');
+
+      expect(GraphQLClient).toHaveBeenCalledWith('https://api.example.com/graphql', {
+        headers: { 'authorization': 'Bearer env-token', 'x-api-version': 'v2' },
+      });
+    });
+  });
+
+  describe('OAuth client credentials', () => {
+    let stub: StubServer;
+    let client: typeof import('../src/client.js');
+
+    const oauthConfig = (overrides: Partial<OAuthClientCredentialsConfig> = {}): OAuthClientCredentialsConfig => ({
+      type: 'oauth_client_credentials',
+      token_url: `${stub.url}/token`,
+      client_id: 'metatool',
+      client_secret: 's3cret',
+      client_authentication: 'body',
+      ...overrides,
+    });
+
+    beforeEach(async () => {
+      process.env.GRAPHQL_ENDPOINT = 'https://api.example.com/graphql';
+      stub = await startStubServer();
+      client = await import('../src/client.js');
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      await stub.close();
+    });
+
+    it('should request a token with the client credentials and cache it', async () => {
+      const provider = client.createClientCredentialsProvider(oauthConfig({ scope: 'graphql:read', audience: 'https://api.example.com' }));
+
+      expect(await provider.getToken()).toBe('token-1');
+      expect(await provider.getToken()).toBe('token-1');
+
+      expect(stub.tokenRequests).toHaveLength(1);
+      expect(Object.fromEntries(stub.tokenRequests[0] ?? [])).toEqual({
+        grant_type: 'client_credentials',
+        client_id: 'metatool',
+        client_secret: 's3cret',
+        scope: 'graphql:read',
+        audience: 'https://api.example.com',
+      });
+      expect(stub.tokenAuthorizations[0]).toBeUndefined();
+    });
+
+    it('should send the client credentials in a Basic header when configured', async () => {
+      const provider = client.createClientCredentialsProvider(oauthConfig({ client_authentication: 'basic' }));
+
+      await provider.getToken();
+
+      expect(stub.tokenAuthorizations[0]).toBe(`Basic ${Buffer.from('metatool:s3cret').toString('base64')}`);
+      expect(stub.tokenRequests[0]?.has('client_secret')).toBe(false);
+    });
+
+    it('should renew the token shortly before it expires', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const provider = client.createClientCredentialsProvider(oauthConfig());
+
+      await provider.getToken();
+      vi.setSystemTime(Date.now() + 3540 * 1000 - 1);
+      expect(await provider.getToken()).toBe('token-1');
+
+      vi.setSystemTime(Date.now() + 1);
+      expect(await provider.getToken()).toBe('token-2');
+      expect(stub.tokenRequests).toHaveLength(2);
+    });
+
+    it('should share one token request between concurrent callers', async () => {
+      const provider = client.createClientCredentialsProvider(oauthConfig());
+
+      const tokens = await Promise.all([provider.getToken(), provider.getToken(), provider.getToken()]);
+
+      expect(tokens).toEqual(['token-1', 'token-1', 'token-1']);
+      expect(stub.tokenRequests).toHaveLength(1);
+    });
+
+    it('should report errors from the token endpoint', async () => {
+      await stub.close();
+      stub = await startStubServer({ status: 401, body: { error: 'invalid_client', error_description: 'Unknown client' } });
+      const provider = client.createClientCredentialsProvider(oauthConfig());
+
+      await expect(provider.getToken()).rejects.toThrow(
+        `Failed to obtain an OAuth token from ${stub.url}/token: HTTP 401 (invalid_client: Unknown client)`
+      );
+    });
+
+    it('should report token responses without an access token', async () => {
+      await stub.close();
+      stub = await startStubServer({ body: { token_type: 'Bearer' } });
+      const provider = client.createClientCredentialsProvider(oauthConfig());
+
+      await expect(provider.getToken()).rejects.toThrow('the response has no access_token');
+    });
+
+    it('should send requests with the bearer token', async () => {
+      const authenticatedFetch = client.createAuthenticatedFetch(client.createClientCredentialsProvider(oauthConfig()));
+
+      const response = await authenticatedFetch(`${stub.url}/graphql`, { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(200);
+      expect(stub.graphqlAuthorizations).toEqual(['Bearer token-1']);
+    });
+
+    it('should retry once with a new token when a request is rejected with 401', async () => {
+      const authenticatedFetch = client.createAuthenticatedFetch(client.createClientCredentialsProvider(oauthConfig()));
+      await authenticatedFetch(`${stub.url}/graphql`, { method: 'POST', body: '{}' });
+      stub.rejectedTokens.add('token-1');
+
+      const response = await authenticatedFetch(`${stub.url}/graphql`, { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(200);
+      expect(stub.graphqlAuthorizations).toEqual(['Bearer token-1', 'Bearer token-1', 'Bearer token-2']);
+    });
+
+    it('should return the second 401 rather than retrying again', async () => {
+      const authenticatedFetch = client.createAuthenticatedFetch(client.createClientCredentialsProvider(oauthConfig()));
+      stub.rejectedTokens.add('token-1');
+      stub.rejectedTokens.add('token-2');
+
+      const response = await authenticatedFetch(`${stub.url}/graphql`, { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(401);
+      expect(stub.graphqlAuthorizations).toHaveLength(2);
+    });
+
+    it('should authenticate GraphQL client requests', async () => {
+      const { GraphQLClient: RealGraphQLClient } = await vi.importActual<typeof import('graphql-request')>('graphql-request');
+      const graphqlClient = new RealGraphQLClient(`${stub.url}/graphql`, {
+        fetch: client.createAuthenticatedFetch(client.createClientCredentialsProvider(oauthConfig())),
+      });
+
+      expect(await graphqlClient.request('{ viewer { id } }')).toEqual({ viewer: { id: 'user_1' } });
+      expect(stub.graphqlAuthorizations).toEqual(['Bearer token-1']);
+    });
+
+    it('should authenticate named endpoints with their own OAuth client credentials', async () => {
+      vi.resetModules();
+      delete process.env.GRAPHQL_ENDPOINT;
+      process.env.GRAPHQL_ENDPOINTS = JSON.stringify({
+        gateway: { url: `${stub.url}/graphql`, authentication: oauthConfig({ scope: 'gateway' }) },
+        github: { url: 'https://api.github.com/graphql', authentication: { type: 'bearer', value: 'gh-token' } },
+      });
+
+      const { getClient } = await import('../src/client.js');
+      const gateway = getClient('gateway') as unknown as { options: { headers: Record<string, string>; fetch: typeof fetch } };
+      const response = await gateway.options.fetch(`${stub.url}/graphql`, { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(200);
+      expect(stub.tokenRequests[0]?.get('scope')).toBe('gateway');
+      expect(stub.graphqlAuthorizations).toEqual(['Bearer token-1']);
+      expect(gateway.options.headers).toEqual(expect.objectContaining({ 'user-agent': 'GraphQL-MCP-Server/1.0.0' }));
+      expect(GraphQLClient).toHaveBeenCalledWith('https://api.github.com/graphql', { headers: { authorization: 'Bearer gh-token' } });
+    });
+
+    it('should reject invalid authentication for named endpoints', async () => {
+      vi.resetModules();
+      process.env.GRAPHQL_ENDPOINTS = JSON.stringify({
+        gateway: { url: `${stub.url}/graphql`, authentication: { type: 'oauth_client_credentials', token_url: 'auth/token' } },
+      });
+
+      await expect(import('../src/client.js')).rejects.toThrow('Invalid GRAPHQL_ENDPOINTS: gateway.authentication.token_url: Invalid url');
+    });
+
+    describe('from the config file', () => {
+      beforeEach(() => {
+        delete process.env.GRAPHQL_AUTH_TOKEN;
+        delete process.env.GRAPHQL_HEADER_AUTHORIZATION;
+        vi.resetModules();
+        vi.doMock('../src/config.js', async (importOriginal) => ({
+          ...await importOriginal<typeof import('../src/config.js')>(),
+          getConfig: (): Record<string, unknown> => ({ authentication: oauthConfig() }),
+          getAuthenticationHeaders: (): Record<string, string> => ({}),
+        }));
+      });
+
+      afterEach(() => {
+        vi.doUnmock('../src/config.js');
+      });
+
+      it('should send requests to the default endpoint with OAuth tokens', async () => {
+        await import('../src/client.js');
+
+        expect(GraphQLClient).toHaveBeenLastCalledWith('https://api.example.com/graphql', {
+          headers: expect.any(Object),
+          fetch: expect.any(Function),
+        });
+      });
+
+      it('should let an authorization header from environment variables override OAuth', async () => {
+        process.env.GRAPHQL_HEADER_AUTHORIZATION = 'Bearer env-token';
+
+        await import('../src/client.js');
+
+        expect(GraphQLClient).toHaveBeenLastCalledWith('https://api.example.com/graphql', {
+          headers: { authorization: 'Bearer env-token' },
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { getAuthenticationHeaders, parseConfig } from '../src/config.js';
+import { readConfigFile } from '../src/storage.js';
+
+vi.mock('../src/storage.js', () => ({
+  readConfigFile: vi.fn(),
+}));
+
+const yamlConfig = `
+graphql_endpoint: 'https://api.example.com/graphql'
+authentication:
+  type: bearer
+  value: '\${API_TOKEN}'
+
+context_variables:
+  WORKSPACE_ID: 'workspace_123'
+  PAGE_SIZE: 50
+
+enumerations:
+  workspace_users:
+    - { name: 'John Doe', value: 'john_doe' }
+    - { name: 'Jane Smith', value: 'jane_smith' }
+
+mappings:
+  pipeline_name_to_id:
+    'Backlog': 'pipeline_1'
+    'In Progress': 'pipeline_2'
+
+disable_core_tools: management
+`;
+
+describe('config', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env = { ...originalEnv, API_TOKEN: 'secret-token' };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.resetModules();
+  });
+
+  describe('parseConfig', () => {
+    it('should parse a YAML config file', () => {
+      expect(parseConfig(yamlConfig, 'config.yaml')).toEqual({
+        graphql_endpoint: 'https://api.example.com/graphql',
+        authentication: { type: 'bearer', value: 'secret-token' },
+        context_variables: { WORKSPACE_ID: 'workspace_123', PAGE_SIZE: 50 },
+        enumerations: {
+          workspace_users: [
+            { name: 'John Doe', value: 'john_doe' },
+            { name: 'Jane Smith', value: 'jane_smith' },
+          ],
+        },
+        mappings: { pipeline_name_to_id: { 'Backlog': 'pipeline_1', 'In Progress': 'pipeline_2' } },
+        disable_core_tools: 'management',
+      });
+    });
+
+    it('should parse a JSON config file', () => {
+      const config = parseConfig(JSON.stringify({ graphql_endpoint: 'https://api.example.com/graphql' }), 'config.json');
+
+      expect(config).toEqual({
+        graphql_endpoint: 'https://api.example.com/graphql',
+        context_variables: {},
+        enumerations: {},
+        mappings: {},
+      });
+    });
+
+    it('should treat an empty file as an empty config', () => {
+      expect(parseConfig('', 'config.yaml')).toEqual({ context_variables: {}, enumerations: {}, mappings: {} });
+    });
+
+    it('should interpolate environment variables anywhere in string values', () => {
+      process.env['WORKSPACE'] = 'acme';
+
+      const config = parseConfig("context_variables:\n  WORKSPACE_ID: '${WORKSPACE}-${WORKSPACE}'", 'config.yaml');
+
+      expect(config.context_variables).toEqual({ WORKSPACE_ID: 'acme-acme' });
+    });
+
+    it('should report unset environment variables with their location', () => {
+      delete process.env['API_TOKEN'];
+
+      expect(() => parseConfig(yamlConfig, 'config.yaml')).toThrow(
+        "Invalid config file 'config.yaml': authentication.value: environment variable API_TOKEN is not set"
+      );
+    });
+
+    it('should report syntax errors', () => {
+      expect(() => parseConfig('{"graphql_endpoint": ', 'config.json')).toThrow("Invalid config file 'config.json':");
+    });
+
+    it('should report invalid values with their location', () => {
+      const text = "graphql_endpoint: 'not a url'\nenumerations:\n  users:\n    - { name: 'John Doe' }";
+
+      expect(() => parseConfig(text, 'config.yaml')).toThrow(
+        "Invalid config file 'config.yaml': graphql_endpoint: Invalid url; enumerations.users.0.value: Expected a string or number"
+      );
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => parseConfig('graphql_endpiont: https://api.example.com/graphql', 'config.yaml')).toThrow(
+        "Unrecognized key(s) in object: 'graphql_endpiont'"
+      );
+    });
+
+    it('should require a header name for header authentication', () => {
+      expect(() => parseConfig('authentication:\n  type: header\n  value: abc', 'config.yaml')).toThrow(
+        'authentication.header_name: Required'
+      );
+    });
+
+    it('should reject unknown authentication types', () => {
+      expect(() => parseConfig('authentication:\n  type: basic\n  value: abc', 'config.yaml')).toThrow(
+        'authentication.type: Invalid discriminator value'
+      );
+    });
+
+    it('should parse OAuth client credentials, sending them in the request body by default', () => {
+      const yaml = [
+        'authentication:',
+        '  type: oauth_client_credentials',
+        '  token_url: https://auth.example.com/oauth/token',
+        '  client_id: metatool',
+        "  client_secret: '${API_TOKEN}'",
+        '  scope: graphql:read',
+      ].join('\n');
+
+      expect(parseConfig(yaml, 'config.yaml').authentication).toEqual({
+        type: 'oauth_client_credentials',
+        token_url: 'https://auth.example.com/oauth/token',
+        client_id: 'metatool',
+        client_secret: 'secret-token',
+        scope: 'graphql:read',
+        client_authentication: 'body',
+      });
+    });
+
+    it('should require a valid token URL for OAuth client credentials', () => {
+      expect(() => parseConfig(
+        'authentication:\n  type: oauth_client_credentials\n  token_url: auth/token\n  client_id: a\n  client_secret: b',
+        'config.yaml'
+      )).toThrow('authentication.token_url: Invalid url');
+    });
+  });
+
+  describe('getAuthenticationHeaders', () => {
+    it('should send bearer tokens in the authorization header', () => {
+      expect(getAuthenticationHeaders({ type: 'bearer', value: 'abc' })).toEqual({ authorization: 'Bearer abc' });
+    });
+
+    it('should send API keys in x-api-key unless another header is named', () => {
+      expect(parseConfig('authentication:\n  type: api_key\n  value: abc', 'config.yaml').authentication).toEqual({
+        type: 'api_key',
+        value: 'abc',
+        header_name: 'x-api-key',
+      });
+      expect(getAuthenticationHeaders({ type: 'api_key', value: 'abc', header_name: 'X-Api-Token' })).toEqual({ 'x-api-token': 'abc' });
+    });
+
+    it('should send custom headers as given', () => {
+      expect(getAuthenticationHeaders({ type: 'header', value: 'abc', header_name: 'Authorization' })).toEqual({ authorization: 'abc' });
+    });
+
+    it('should add no headers without authentication', () => {
+      expect(getAuthenticationHeaders(undefined)).toEqual({});
+    });
+
+    it('should add no headers for OAuth client credentials', () => {
+      expect(getAuthenticationHeaders({
+        type: 'oauth_client_credentials',
+        token_url: 'https://auth.example.com/oauth/token',
+        client_id: 'metatool',
+        client_secret: 's3cret',
+        client_authentication: 'body',
+      })).toEqual({});
+    });
+  });
+
+  describe('getConfig', () => {
+    it('should return an empty config when MCP_GRAPHQL_CONFIG is not set', async () => {
+      delete process.env['MCP_GRAPHQL_CONFIG'];
+
+      const { getConfig } = await import('../src/config.js');
+
+      expect(getConfig()).toEqual({ context_variables: {}, enumerations: {}, mappings: {} });
+      expect(readConfigFile).not.toHaveBeenCalled();
+    });
+
+    it('should load the file named by MCP_GRAPHQL_CONFIG', async () => {
+      process.env['MCP_GRAPHQL_CONFIG'] = '/etc/graphql-metatool.yaml';
+      vi.mocked(readConfigFile).mockReturnValue(yamlConfig);
+
+      const { getConfig } = await import('../src/config.js');
+
+      expect(readConfigFile).toHaveBeenCalledWith('/etc/graphql-metatool.yaml');
+      expect(getConfig().disable_core_tools).toBe('management');
+    });
+
+    it('should fail at startup when the config file is invalid', async () => {
+      process.env['MCP_GRAPHQL_CONFIG'] = '/etc/graphql-metatool.yaml';
+      vi.mocked(readConfigFile).mockReturnValue('disable_core_tools: some');
+
+      await expect(import('../src/config.js')).rejects.toThrow(
+        "Invalid config file '/etc/graphql-metatool.yaml': disable_core_tools: Invalid enum value"
+      );
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  clearContext,
+  getAllContext,
+  getContextEntry,
+  getContextValue,
+  loadConfiguredContext,
+  loadPersistentContext,
+  setContextValue,
+} from '../src/contextStore.js';
+import { loadPersistentContextFile, savePersistentContextFile } from '../src/storage.js';
+
+vi.mock('../src/storage.js', () => ({
+  loadPersistentContextFile: vi.fn(() => ({})),
+  savePersistentContextFile: vi.fn(),
+}));
+
+describe('contextStore', () => {
+  beforeEach(() => {
+    clearContext();
+    vi.clearAllMocks();
+  });
+
+  it('should store and return values of any supported type', () => {
+    setContextValue('workspaceId', 'ws_123');
+    setContextValue('limit', 25);
+    setContextValue('includeArchived', false);
+
+    expect(getContextValue('workspaceId')).toBe('ws_123');
+    expect(getContextValue('limit')).toBe(25);
+    expect(getContextValue('includeArchived')).toBe(false);
+  });
+
+  it('should return undefined for unknown keys', () => {
+    expect(getContextValue('missing')).toBeUndefined();
+    expect(getContextEntry('missing')).toBeUndefined();
+  });
+
+  it('should return the previous value when overwriting', () => {
+    expect(setContextValue('workspaceId', 'ws_1')).toBeUndefined();
+    expect(setContextValue('workspaceId', 'ws_2')).toBe('ws_1');
+    expect(getContextValue('workspaceId')).toBe('ws_2');
+  });
+
+  it('should list all entries sorted by key', () => {
+    setContextValue('zeta', 1);
+    setContextValue('alpha', 'a', true);
+
+    expect(getAllContext()).toEqual([
+      { key: 'alpha', value: 'a', persistent: true },
+      { key: 'zeta', value: 1, persistent: false },
+    ]);
+  });
+
+  it('should clear a single key', () => {
+    setContextValue('a', 1);
+    setContextValue('b', 2);
+
+    expect(clearContext('a')).toBe(1);
+    expect(getAllContext()).toEqual([{ key: 'b', value: 2, persistent: false }]);
+  });
+
+  it('should report nothing removed for unknown keys', () => {
+    expect(clearContext('missing')).toBe(0);
+  });
+
+  it('should clear all keys', () => {
+    setContextValue('a', 1);
+    setContextValue('b', 2);
+
+    expect(clearContext()).toBe(2);
+    expect(getAllContext()).toEqual([]);
+  });
+
+  describe('persistence', () => {
+    it('should keep session-only values off disk', () => {
+      setContextValue('workspaceId', 'ws_123');
+
+      expect(getContextEntry('workspaceId')?.persistent).toBe(false);
+      expect(savePersistentContextFile).not.toHaveBeenCalled();
+    });
+
+    it('should save only persistent values', () => {
+      setContextValue('limit', 25);
+      setContextValue('workspaceId', 'ws_123', true);
+
+      expect(savePersistentContextFile).toHaveBeenLastCalledWith({ workspaceId: 'ws_123' });
+    });
+
+    it('should keep the persistence setting of an existing key when not given', () => {
+      setContextValue('workspaceId', 'ws_1', true);
+      setContextValue('workspaceId', 'ws_2');
+
+      expect(getContextEntry('workspaceId')?.persistent).toBe(true);
+      expect(savePersistentContextFile).toHaveBeenLastCalledWith({ workspaceId: 'ws_2' });
+    });
+
+    it('should remove a value from disk when it is made session-only', () => {
+      setContextValue('workspaceId', 'ws_123', true);
+      setContextValue('workspaceId', 'ws_123', false);
+
+      expect(getContextEntry('workspaceId')?.persistent).toBe(false);
+      expect(savePersistentContextFile).toHaveBeenLastCalledWith({});
+    });
+
+    it('should remove cleared persistent values from disk', () => {
+      setContextValue('workspaceId', 'ws_123', true);
+      setContextValue('orgId', 'org_1', true);
+      vi.mocked(savePersistentContextFile).mockClear();
+
+      clearContext('orgId');
+
+      expect(savePersistentContextFile).toHaveBeenCalledWith({ workspaceId: 'ws_123' });
+    });
+
+    it('should not rewrite the file when only session values are cleared', () => {
+      setContextValue('limit', 25);
+
+      clearContext();
+
+      expect(savePersistentContextFile).not.toHaveBeenCalled();
+    });
+
+    it('should load persisted values as persistent entries', () => {
+      vi.mocked(loadPersistentContextFile).mockReturnValueOnce({ workspaceId: 'ws_123', limit: 25 });
+
+      loadPersistentContext();
+
+      expect(getAllContext()).toEqual([
+        { key: 'limit', value: 25, persistent: true },
+        { key: 'workspaceId', value: 'ws_123', persistent: true },
+      ]);
+      expect(savePersistentContextFile).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite values already set in the session', () => {
+      setContextValue('workspaceId', 'ws_session');
+      vi.mocked(loadPersistentContextFile).mockReturnValueOnce({ workspaceId: 'ws_saved' });
+
+      loadPersistentContext();
+
+      expect(getContextValue('workspaceId')).toBe('ws_session');
+    });
+
+    it('should propagate save errors', () => {
+      vi.mocked(savePersistentContextFile).mockImplementationOnce(() => {
+        throw new Error('Failed to save persistent context: Disk full');
+      });
+
+      expect(() => setContextValue('workspaceId', 'ws_123', true)).toThrow('Failed to save persistent context: Disk full');
+    });
+  });
+
+  describe('configured context', () => {
+    it('should load configured values as session-only entries', () => {
+      loadConfiguredContext({ WORKSPACE_ID: 'workspace_123', PAGE_SIZE: 50 });
+
+      expect(getContextEntry('WORKSPACE_ID')).toEqual({ key: 'WORKSPACE_ID', value: 'workspace_123', persistent: false });
+      expect(getContextValue('PAGE_SIZE')).toBe(50);
+      expect(savePersistentContextFile).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite values that were already set or persisted', () => {
+      vi.mocked(loadPersistentContextFile).mockReturnValueOnce({ WORKSPACE_ID: 'workspace_456' });
+      loadPersistentContext();
+
+      loadConfiguredContext({ WORKSPACE_ID: 'workspace_123' });
+
+      expect(getContextValue('WORKSPACE_ID')).toBe('workspace_456');
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  refreshEnumeration,
+  scheduleEnumerationRefresh,
+  startEnumerationRefresh,
+  stopEnumerationRefresh,
+} from '../src/dynamicEnumerationRefresh.js';
+import { clearEnumerationOptions, getEnumerationStatus } from '../src/dynamicEnumerations.js';
+import { fetchToolData, refreshToolsUsingType } from '../src/dynamicToolHandler.js';
+import { loadAllTypes, loadToolFromFile, loadTypeFromFile } from '../src/storage.js';
+import type { SavedToolConfig, SavedTypeConfig } from '../src/types.js';
+
+vi.mock('../src/dynamicToolHandler.js', () => ({
+  fetchToolData: vi.fn(),
+  refreshToolsUsingType: vi.fn(() => []),
+}));
+
+vi.mock('../src/storage.js', () => ({
+  loadAllTypes: vi.fn(() => new Map()),
+  loadToolFromFile: vi.fn(),
+  loadTypeFromFile: vi.fn(),
+}));
+
+const registeredTools = new Map<string, RegisteredTool>();
+
+const listUsersTool: SavedToolConfig = {
+  name: 'list_workspace_users',
+  description: 'List workspace users',
+  graphql_query: 'query ($workspaceId: ID!) { workspace(id: $workspaceId) { users { nodes { id name } } } }',
+  parameter_schema: { type: 'object', properties: { workspaceId: { type: 'string' } } },
+  variables: [{ name: 'workspaceId', type: 'ID!', required: true }],
+};
+
+const source = {
+  tool_name: 'list_workspace_users',
+  parameters: { workspaceId: 'workspace_1' },
+  items_path: 'workspace.users.nodes',
+  name_path: 'name',
+  value_path: 'id',
+};
+
+const workspaceUserType: SavedTypeConfig = { name: 'WorkspaceUser', type_definition: { type: 'string' }, source };
+
+function usersResponse(...users: { id: string; name: string }[]): unknown {
+  return { workspace: { users: { nodes: users } } };
+}
+
+describe('dynamicEnumerationRefresh', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearEnumerationOptions();
+    vi.mocked(loadTypeFromFile).mockReturnValue(workspaceUserType);
+    vi.mocked(loadToolFromFile).mockReturnValue(listUsersTool);
+    vi.mocked(fetchToolData).mockResolvedValue(usersResponse({ id: 'user_1', name: 'John Doe' }));
+  });
+
+  describe('refreshEnumeration', () => {
+    it('should load values from the saved tool and update the tools using the type', async () => {
+      vi.mocked(refreshToolsUsingType).mockReturnValueOnce(['assign_issue']);
+
+      const result = await refreshEnumeration('WorkspaceUser', registeredTools);
+
+      expect(fetchToolData).toHaveBeenCalledWith(listUsersTool, { workspaceId: 'workspace_1' });
+      expect(result).toEqual({
+        typeName: 'WorkspaceUser',
+        toolName: 'list_workspace_users',
+        options: [{ name: 'John Doe', value: 'user_1' }],
+        changed: true,
+        updatedTools: ['assign_issue'],
+      });
+      expect(refreshToolsUsingType).toHaveBeenCalledWith('WorkspaceUser', registeredTools);
+      expect(getEnumerationStatus('WorkspaceUser')?.options).toEqual([{ name: 'John Doe', value: 'user_1' }]);
+    });
+
+    it('should not update tools when the values are unchanged', async () => {
+      await refreshEnumeration('WorkspaceUser', registeredTools);
+      vi.mocked(refreshToolsUsingType).mockClear();
+
+      const result = await refreshEnumeration('WorkspaceUser', registeredTools);
+
+      expect(result.changed).toBe(false);
+      expect(refreshToolsUsingType).not.toHaveBeenCalled();
+    });
+
+    it('should keep the previous values when the query fails', async () => {
+      await refreshEnumeration('WorkspaceUser', registeredTools);
+      vi.mocked(fetchToolData).mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(refreshEnumeration('WorkspaceUser', registeredTools)).rejects.toThrow(
+        "Failed to load values for type 'WorkspaceUser' from 'list_workspace_users': Network error"
+      );
+      expect(getEnumerationStatus('WorkspaceUser')).toMatchObject({
+        options: [{ name: 'John Doe', value: 'user_1' }],
+        error: 'Network error',
+      });
+    });
+
+    it('should report a missing saved tool', async () => {
+      vi.mocked(loadToolFromFile).mockReturnValueOnce(null);
+
+      await expect(refreshEnumeration('WorkspaceUser', registeredTools)).rejects.toThrow(
+        "Failed to load values for type 'WorkspaceUser' from 'list_workspace_users': Saved tool 'list_workspace_users' not found"
+      );
+    });
+
+    it('should reject unknown types and types without a source', async () => {
+      vi.mocked(loadTypeFromFile).mockReturnValueOnce(null);
+      await expect(refreshEnumeration('Missing', registeredTools)).rejects.toThrow("Type 'Missing' not found");
+
+      vi.mocked(loadTypeFromFile).mockReturnValueOnce({ name: 'Priority', type_definition: { type: 'string' } });
+      await expect(refreshEnumeration('Priority', registeredTools)).rejects.toThrow(
+        "Type 'Priority' is not populated from a saved query"
+      );
+    });
+  });
+
+  describe('scheduling', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      stopEnumerationRefresh();
+      vi.useRealTimers();
+    });
+
+    it('should load the values of every type with a source at startup', async () => {
+      vi.mocked(loadAllTypes).mockReturnValueOnce(new Map([
+        ['WorkspaceUser', workspaceUserType],
+        ['Priority', { name: 'Priority', type_definition: { type: 'string' } }],
+      ]));
+
+      startEnumerationRefresh(registeredTools);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(fetchToolData).toHaveBeenCalledOnce();
+      expect(getEnumerationStatus('WorkspaceUser')?.options).toHaveLength(1);
+
+      // Without refresh_seconds the values are only loaded once
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+      expect(fetchToolData).toHaveBeenCalledOnce();
+    });
+
+    it('should reload the values every refresh_seconds', async () => {
+      const type = { ...workspaceUserType, source: { ...source, refresh_seconds: 600 } };
+
+      scheduleEnumerationRefresh(type, registeredTools);
+      await vi.advanceTimersByTimeAsync(0);
+      vi.mocked(fetchToolData).mockResolvedValue(usersResponse({ id: 'user_1', name: 'John Doe' }, { id: 'user_2', name: 'Jane Smith' }));
+      await vi.advanceTimersByTimeAsync(600 * 1000);
+
+      expect(fetchToolData).toHaveBeenCalledTimes(2);
+      expect(refreshToolsUsingType).toHaveBeenCalledTimes(2);
+      expect(getEnumerationStatus('WorkspaceUser')?.options).toHaveLength(2);
+    });
+
+    it('should log failures and retry at the next interval', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fetchToolData).mockRejectedValueOnce(new Error('Network error'));
+      const type = { ...workspaceUserType, source: { ...source, refresh_seconds: 600 } };
+
+      scheduleEnumerationRefresh(type, registeredTools);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(consoleError).toHaveBeenCalledWith(
+        "Failed to load values for type 'WorkspaceUser' from 'list_workspace_users': Network error"
+      );
+      await vi.advanceTimersByTimeAsync(600 * 1000);
+      expect(getEnumerationStatus('WorkspaceUser')?.options).toHaveLength(1);
+      consoleError.mockRestore();
+    });
+
+    it('should stop reloading a type', async () => {
+      const type = { ...workspaceUserType, source: { ...source, refresh_seconds: 600 } };
+
+      scheduleEnumerationRefresh(type, registeredTools);
+      await vi.advanceTimersByTimeAsync(0);
+      stopEnumerationRefresh('WorkspaceUser');
+      await vi.advanceTimersByTimeAsync(600 * 1000);
+
+      expect(fetchToolData).toHaveBeenCalledOnce();
+    });
+  });
+});
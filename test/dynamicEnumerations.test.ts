@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import {
+  clearEnumerationOptions,
+  extractEnumerationOptions,
+  getEnumerationStatus,
+  resolveTypeDefinition,
+  setEnumerationError,
+  setEnumerationOptions,
+  validateEnumerationSource,
+} from '../src/dynamicEnumerations.js';
+
+const source = { tool_name: 'list_workspace_users', items_path: 'workspace.users.nodes', name_path: 'name', value_path: 'id' };
+
+const usersResponse = {
+  workspace: {
+    users: {
+      nodes: [
+        { id: 'user_1', name: 'John Doe' },
+        { id: 'user_2', name: 'Jane Smith' },
+      ],
+    },
+  },
+};
+
+describe('dynamicEnumerations', () => {
+  beforeEach(() => {
+    clearEnumerationOptions();
+  });
+
+  describe('resolveTypeDefinition', () => {
+    it('should add loaded values as a oneOf list described by their names', () => {
+      setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }, { name: 'Jane Smith', value: 'user_2' }]);
+
+      expect(resolveTypeDefinition({ name: 'WorkspaceUser', type_definition: { type: 'string' }, source })).toEqual({
+        type: 'string',
+        oneOf: [
+          { const: 'user_1', description: 'John Doe' },
+          { const: 'user_2', description: 'Jane Smith' },
+        ],
+      });
+    });
+
+    it('should return the saved definition until values are loaded', () => {
+      const type = { name: 'WorkspaceUser', type_definition: { type: 'string' }, source };
+
+      expect(resolveTypeDefinition(type)).toBe(type.type_definition);
+    });
+
+    it('should ignore loaded values for types without a source', () => {
+      setEnumerationOptions('Priority', [{ name: 'Low', value: 'LOW' }]);
+      const type = { name: 'Priority', type_definition: { type: 'string' } };
+
+      expect(resolveTypeDefinition(type)).toBe(type.type_definition);
+    });
+  });
+
+  describe('status', () => {
+    it('should report whether loaded values changed', () => {
+      expect(setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }])).toBe(true);
+      expect(setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }])).toBe(false);
+      expect(setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_3' }])).toBe(true);
+    });
+
+    it('should keep previously loaded values when a load fails', () => {
+      setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }]);
+      setEnumerationError('WorkspaceUser', 'Network error');
+
+      expect(getEnumerationStatus('WorkspaceUser')).toEqual({
+        options: [{ name: 'John Doe', value: 'user_1' }],
+        loadedAt: expect.any(Number),
+        error: 'Network error',
+      });
+    });
+
+    it('should clear the error once a load succeeds', () => {
+      setEnumerationError('WorkspaceUser', 'Network error');
+      setEnumerationOptions('WorkspaceUser', []);
+
+      expect(getEnumerationStatus('WorkspaceUser')?.error).toBeNull();
+    });
+  });
+
+  describe('extractEnumerationOptions', () => {
+    it('should take a name and value from each item', () => {
+      expect(extractEnumerationOptions(usersResponse, source)).toEqual([
+        { name: 'John Doe', value: 'user_1' },
+        { name: 'Jane Smith', value: 'user_2' },
+      ]);
+    });
+
+    it('should use the first list when no items_path is given', () => {
+      const { items_path: _itemsPath, ...withoutItemsPath } = source;
+
+      expect(extractEnumerationOptions(usersResponse, withoutItemsPath)).toHaveLength(2);
+    });
+
+    it('should follow nested name and value paths', () => {
+      const data = { projects: [{ details: { title: 'Website' }, key: 42 }] };
+
+      expect(
+        extractEnumerationOptions(data, { tool_name: 'list_projects', name_path: 'details.title', value_path: 'key' })
+      ).toEqual([{ name: 'Website', value: 42 }]);
+    });
+
+    it('should skip items without a name or value, and repeated names', () => {
+      const data = { users: [{ id: 'user_1', name: 'John Doe' }, { id: 'user_2' }, { name: 'Jane Smith' }, { id: 'user_3', name: 'John Doe' }] };
+
+      expect(extractEnumerationOptions(data, { ...source, items_path: 'users' })).toEqual([{ name: 'John Doe', value: 'user_1' }]);
+    });
+
+    it('should report responses without a list', () => {
+      expect(() => extractEnumerationOptions(usersResponse, { ...source, items_path: 'workspace.users' })).toThrow(
+        "No list of items found at 'workspace.users'"
+      );
+      expect(() => extractEnumerationOptions({ workspace: null }, { ...source, items_path: undefined })).toThrow(
+        'No list of items found anywhere in the response'
+      );
+    });
+  });
+
+  describe('validateEnumerationSource', () => {
+    it('should accept valid paths', () => {
+      expect(() => validateEnumerationSource(source)).not.toThrow();
+    });
+
+    it('should name the invalid path', () => {
+      expect(() => validateEnumerationSource({ ...source, name_path: 'user..name' })).toThrow('Invalid name_path: Invalid path');
+    });
+  });
+});
@@ -1,19 +1,57 @@
+import { ClientError } from 'graphql-request';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { z } from 'zod';
 
-import { client } from '../src/client.js';
-import { createDynamicToolHandler } from '../src/dynamicToolHandler.js';
-import type { SavedToolConfig } from '../src/types.js';
+import { getClient } from '../src/client.js';
+import { clearContext, setContextValue } from '../src/contextStore.js';
+import {
+  createDynamicToolHandler,
+  fetchToolData,
+  getToolInputSchema,
+  refreshToolsUsingType,
+  registerAllTools,
+} from '../src/dynamicToolHandler.js';
+import { extractOperationVariables, parseDocument, selectOperation } from '../src/graphqlDocument.js';
+import { convertJsonSchemaToMcpZod } from '../src/jsonSchemaValidator.js';
+import { generateParameterSchema } from '../src/parameterSchema.js';
+import { clearCachedResponses } from '../src/responseCache.js';
+import { validateGraphQLQuery } from '../src/schemaService.js';
+import { loadAllTools, loadAllTypes } from '../src/storage.js';
+import type { SavedToolConfig, SavedTypeConfig } from '../src/types.js';
+import { clearToolUsage, getToolUsage } from '../src/usageStats.js';
 
 // Import the mocked client
 
 // Mock the client before importing the handler
-vi.mock('../src/client.js', () => ({
-  client: {
-    request: vi.fn(),
-  },
+vi.mock('../src/client.js', () => {
+  const client = { request: vi.fn() };
+  return {
+    describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+    getClient: vi.fn(() => client),
+    resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+  };
+});
+
+vi.mock('../src/config.js', () => ({
+  getConfig: vi.fn(() => ({
+    context_variables: {},
+    enumerations: {},
+    mappings: { pipeline_name_to_id: { 'Backlog': 'pipeline_1', 'In Progress': 'pipeline_2' } },
+  })),
 }));
 
+vi.mock('../src/schemaService.js', () => ({
+  validateGraphQLQuery: vi.fn(),
+}));
+
+vi.mock('../src/storage.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../src/storage.js')>(),
+  loadAllTools: vi.fn(() => new Map()),
+  loadAllTypes: vi.fn(() => new Map()),
+}));
+
+const client = getClient();
+
 describe('dynamicToolHandler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -31,7 +69,7 @@ describe('dynamicToolHandler', () => {
             id: { type: 'string' },
           },
         },
-        variables: ['id'],
+        variables: [{ name: 'id', type: 'ID!', required: true }],
       };
 
       const mockResult = { user: { name: 'John Doe', email: 'john@example.com' } };
@@ -63,7 +101,7 @@ describe('dynamicToolHandler', () => {
             id: { type: 'string' },
           },
         },
-        variables: ['id'],
+        variables: [{ name: 'id', type: 'ID!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -87,7 +125,7 @@ describe('dynamicToolHandler', () => {
             id: { type: 'string' },
           },
         },
-        variables: ['id'],
+        variables: [{ name: 'id', type: 'ID!', required: true }],
       };
 
       const graphqlError = new Error('GraphQL syntax error');
@@ -114,7 +152,7 @@ describe('dynamicToolHandler', () => {
           },
           required: ['id'],
         },
-        variables: ['id'],
+        variables: [{ name: 'id', type: 'ID!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -147,7 +185,7 @@ describe('dynamicToolHandler', () => {
             },
           },
         },
-        variables: ['filters', 'limit'],
+        variables: [{ name: 'filters', type: 'UserFilters!', required: true }, { name: 'limit', type: 'Int', required: false }],
       };
 
       const mockResult = { users: [{ id: '1', name: 'John' }] };
@@ -181,7 +219,7 @@ describe('dynamicToolHandler', () => {
             id: { type: 'string' },
           },
         },
-        variables: ['id'],
+        variables: [{ name: 'id', type: 'ID!', required: true }],
       };
 
       const mockResult = { user: { name: 'John' } };
@@ -209,7 +247,11 @@ describe('dynamicToolHandler', () => {
             active: { type: 'boolean' },
           },
         },
-        variables: ['name', 'limit', 'active'],
+        variables: [
+          { name: 'name', type: 'String!', required: true },
+          { name: 'limit', type: 'Int', required: false },
+          { name: 'active', type: 'Boolean', required: false },
+        ],
       };
 
       const mockResult = { users: [] };
@@ -261,7 +303,11 @@ describe('dynamicToolHandler', () => {
             age: { type: 'integer' },
           },
         },
-        variables: ['name', 'email', 'age'],
+        variables: [
+          { name: 'name', type: 'String', required: false },
+          { name: 'email', type: 'String', required: false },
+          { name: 'age', type: 'Int', required: false },
+        ],
       };
 
       const mockResult = { users: [] };
@@ -290,7 +336,7 @@ describe('dynamicToolHandler', () => {
             name: { type: 'string' },
           },
         },
-        variables: ['name'],
+        variables: [{ name: 'name', type: 'String!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -317,7 +363,7 @@ describe('dynamicToolHandler', () => {
             score: { type: 'number' },
           },
         },
-        variables: ['score'],
+        variables: [{ name: 'score', type: 'Float!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -343,7 +389,7 @@ describe('dynamicToolHandler', () => {
             count: { type: 'integer' },
           },
         },
-        variables: ['count'],
+        variables: [{ name: 'count', type: 'Int!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -369,7 +415,7 @@ describe('dynamicToolHandler', () => {
             active: { type: 'boolean' },
           },
         },
-        variables: ['active'],
+        variables: [{ name: 'active', type: 'Boolean!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -398,7 +444,7 @@ describe('dynamicToolHandler', () => {
             },
           },
         },
-        variables: ['tags'],
+        variables: [{ name: 'tags', type: '[String!]!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -424,7 +470,7 @@ describe('dynamicToolHandler', () => {
             items: { type: 'array' }, // No items schema - should accept any
           },
         },
-        variables: ['items'],
+        variables: [{ name: 'items', type: '[JSON!]!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -446,7 +492,7 @@ describe('dynamicToolHandler', () => {
             data: { type: 'unknown_type' }, // Unsupported type
           },
         },
-        variables: ['data'],
+        variables: [{ name: 'data', type: 'JSON!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -514,7 +560,7 @@ describe('dynamicToolHandler', () => {
           },
           required: ['data'],
         },
-        variables: ['data'],
+        variables: [{ name: 'data', type: 'ComplexInput!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -565,7 +611,7 @@ describe('dynamicToolHandler', () => {
           },
           required: ['user'],
         },
-        variables: ['user'],
+        variables: [{ name: 'user', type: 'UserInput!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -617,7 +663,11 @@ describe('dynamicToolHandler', () => {
           },
           required: ['required'],
         },
-        variables: ['required', 'optional', 'withDefault'],
+        variables: [
+          { name: 'required', type: 'String!', required: true },
+          { name: 'optional', type: 'String', required: false },
+          { name: 'withDefault', type: 'Int', required: false },
+        ],
       };
 
       const mockResult = { test: 'success' };
@@ -647,7 +697,7 @@ describe('dynamicToolHandler', () => {
           },
           required: ['required'],
         },
-        variables: ['required', 'optional'],
+        variables: [{ name: 'required', type: 'String!', required: true }],
       };
 
       const handler = createDynamicToolHandler(toolConfig);
@@ -672,7 +722,7 @@ describe('dynamicToolHandler', () => {
           },
           required: ['id'],
         },
-        variables: ['id', 'limit'],
+        variables: [{ name: 'id', type: 'String!', required: true }, { name: 'limit', type: 'Int', required: false }],
       };
 
       const mockResult = { test: 'success' };
@@ -755,7 +805,12 @@ query GetPipelineIssues($pipelineId: ID!, $workspaceId: ID!, $limit: Int!, $repo
             },
           },
         },
-        variables: ['pipelineId', 'workspaceId', 'limit', 'repositoryIds'],
+        variables: [
+          { name: 'pipelineId', type: 'ID!', required: true },
+          { name: 'workspaceId', type: 'ID!', required: true },
+          { name: 'limit', type: 'Int!', required: true },
+          { name: 'repositoryIds', type: '[ID!]', required: false },
+        ],
       };
 
       const mockResult = {
@@ -803,7 +858,7 @@ query GetPipelineIssues($pipelineId: ID!, $workspaceId: ID!, $limit: Int!, $repo
           },
           // No required array - all optional
         },
-        variables: ['search', 'limit'],
+        variables: [{ name: 'search', type: 'String', required: false }, { name: 'limit', type: 'Int', required: false }],
       };
 
       const mockResult = { test: 'success' };
@@ -836,7 +891,13 @@ query GetPipelineIssues($pipelineId: ID!, $workspaceId: ID!, $limit: Int!, $repo
           },
           required: ['id'],
         },
-        variables: ['id', 'page', 'size', 'active', 'tags'],
+        variables: [
+          { name: 'id', type: 'String!', required: true },
+          { name: 'page', type: 'Int', required: false },
+          { name: 'size', type: 'Int', required: false },
+          { name: 'active', type: 'Boolean', required: false },
+          { name: 'tags', type: '[String!]', required: false },
+        ],
       };
 
       const mockResult = { test: 'success' };
@@ -861,4 +922,736 @@ query GetPipelineIssues($pipelineId: ID!, $workspaceId: ID!, $limit: Int!, $repo
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('pagination', () => {
+    const paginatedToolConfig: SavedToolConfig = {
+      name: 'list_issues',
+      description: 'List all issues',
+      graphql_query: 'query ListIssues($first: Int, $after: String) { issues(first: $first, after: $after) { nodes { id } pageInfo { hasNextPage endCursor } } }',
+      parameter_schema: {
+        type: 'object',
+        properties: {},
+      },
+      pagination_config: {
+        enabled: true,
+        style: 'relay',
+        page_size: 2,
+        merge_strategy: 'concat_nodes',
+      },
+      variables: [{ name: 'first', type: 'Int', required: false }, { name: 'after', type: 'String', required: false }],
+    };
+
+    it('should fetch and merge all pages when pagination is enabled', async () => {
+      vi.mocked(client.request)
+        .mockResolvedValueOnce({ issues: { nodes: [{ id: '1' }, { id: '2' }], pageInfo: { hasNextPage: true, endCursor: 'c2' } } })
+        .mockResolvedValueOnce({ issues: { nodes: [{ id: '3' }], pageInfo: { hasNextPage: false, endCursor: 'c3' } } });
+
+      const handler = createDynamicToolHandler(paginatedToolConfig);
+      const result = await handler({});
+
+      expect(result.isError).toBeUndefined();
+      expect(client.request).toHaveBeenNthCalledWith(1, paginatedToolConfig.graphql_query, { first: 2 });
+      expect(client.request).toHaveBeenNthCalledWith(2, paginatedToolConfig.graphql_query, { first: 2, after: 'c2' });
+      expect(JSON.parse(result.content[0]?.text ?? '')).toEqual({
+        issues: {
+          nodes: [{ id: '1' }, { id: '2' }, { id: '3' }],
+          pageInfo: { hasNextPage: false, endCursor: 'c3' },
+        },
+      });
+    });
+
+    it('should make a single request when pagination is disabled', async () => {
+      const toolConfig: SavedToolConfig = {
+        ...paginatedToolConfig,
+        pagination_config: { ...paginatedToolConfig.pagination_config!, enabled: false },
+      };
+      vi.mocked(client.request).mockResolvedValueOnce({ issues: { nodes: [], pageInfo: { hasNextPage: true, endCursor: 'c' } } });
+
+      const handler = createDynamicToolHandler(toolConfig);
+      await handler({});
+
+      expect(client.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report which page failed', async () => {
+      vi.mocked(client.request)
+        .mockResolvedValueOnce({ issues: { nodes: [{ id: '1' }], pageInfo: { hasNextPage: true, endCursor: 'c1' } } })
+        .mockRejectedValueOnce(new Error('Rate limited'));
+
+      const handler = createDynamicToolHandler(paginatedToolConfig);
+      const result = await handler({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('while fetching page 2');
+      expect(result.content[0]?.text).toContain('Rate limited');
+    });
+  });
+
+  describe('idempotency', () => {
+    const cachedToolConfig: SavedToolConfig = {
+      name: 'get_user',
+      description: 'Get user by ID',
+      graphql_query: 'query GetUser($id: ID!, $verbose: Boolean) { user(id: $id) { name } }',
+      parameter_schema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          verbose: { type: 'boolean' },
+        },
+      },
+      idempotency: {
+        enabled: true,
+        cache_key_params: ['id'],
+        ttl_seconds: 300,
+      },
+      variables: [{ name: 'id', type: 'ID!', required: true }, { name: 'verbose', type: 'Boolean', required: false }],
+    };
+
+    beforeEach(() => {
+      clearCachedResponses();
+    });
+
+    it('should reuse a cached response for the same cache key params', async () => {
+      vi.mocked(client.request).mockResolvedValue({ user: { name: 'John' } });
+
+      const handler = createDynamicToolHandler(cachedToolConfig);
+      const first = await handler({ id: '1' });
+      const second = await handler({ id: '1', verbose: true });
+
+      expect(client.request).toHaveBeenCalledTimes(1);
+      expect(first.content[0]?.text).not.toContain('cached response');
+      expect(second.content[0]?.text).toContain(JSON.stringify({ user: { name: 'John' } }, null, 2));
+      expect(second.content[0]?.text).toContain('Note: cached response from');
+    });
+
+    it('should make a new request for different cache key params', async () => {
+      vi.mocked(client.request).mockResolvedValue({ user: { name: 'John' } });
+
+      const handler = createDynamicToolHandler(cachedToolConfig);
+      await handler({ id: '1' });
+      await handler({ id: '2' });
+
+      expect(client.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed requests', async () => {
+      vi.mocked(client.request)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ user: { name: 'John' } });
+
+      const handler = createDynamicToolHandler(cachedToolConfig);
+      const failed = await handler({ id: '1' });
+      const retried = await handler({ id: '1' });
+
+      expect(failed.isError).toBe(true);
+      expect(retried.isError).toBeUndefined();
+      expect(client.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache when idempotency is disabled', async () => {
+      vi.mocked(client.request).mockResolvedValue({ user: { name: 'John' } });
+      const toolConfig: SavedToolConfig = {
+        ...cachedToolConfig,
+        idempotency: { ...cachedToolConfig.idempotency!, enabled: false },
+      };
+
+      const handler = createDynamicToolHandler(toolConfig);
+      await handler({ id: '1' });
+      await handler({ id: '1' });
+
+      expect(client.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expire cached responses after ttl_seconds', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(client.request).mockResolvedValue({ user: { name: 'John' } });
+
+        const handler = createDynamicToolHandler(cachedToolConfig);
+        await handler({ id: '1' });
+        vi.advanceTimersByTime(301_000);
+        await handler({ id: '1' });
+
+        expect(client.request).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('GraphQL errors', () => {
+    const toolConfig: SavedToolConfig = {
+      name: 'get_user',
+      description: 'Get user by ID',
+      graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name orders { id } } }',
+      parameter_schema: {
+        type: 'object',
+        properties: { id: { type: 'string' } },
+      },
+      idempotency: {
+        enabled: true,
+        cache_key_params: ['id'],
+        ttl_seconds: 300,
+      },
+      variables: [{ name: 'id', type: 'ID!', required: true }],
+    };
+
+    const partialDataError = (): ClientError => new ClientError(
+      {
+        data: { user: { name: 'John', orders: null } },
+        errors: [{ message: 'Orders service timed out', path: ['user', 'orders'] }],
+        status: 200,
+        headers: new Headers(),
+      } as ConstructorParameters<typeof ClientError>[0],
+      { query: toolConfig.graphql_query }
+    );
+
+    beforeEach(() => {
+      clearCachedResponses();
+    });
+
+    it('should return partial data with its errors without caching it', async () => {
+      vi.mocked(client.request)
+        .mockRejectedValueOnce(partialDataError())
+        .mockResolvedValueOnce({ user: { name: 'John', orders: [] } });
+
+      const handler = createDynamicToolHandler(toolConfig);
+      const partial = await handler({ id: '1' });
+      const retried = await handler({ id: '1' });
+
+      expect(partial.isError).toBeUndefined();
+      expect(partial.content[0]?.text).toContain('Partial data with 1 error');
+      expect(retried.content[0]?.text).toBe(JSON.stringify({ user: { name: 'John', orders: [] } }, null, 2));
+      expect(client.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should classify errors without data as tool configuration errors', async () => {
+      vi.mocked(client.request).mockRejectedValueOnce(new ClientError(
+        {
+          errors: [{ message: 'Variable "$id" of required type "ID!" was not provided.', locations: [{ line: 1, column: 15 }] }],
+          status: 200,
+          headers: new Headers(),
+        } as ConstructorParameters<typeof ClientError>[0],
+        { query: toolConfig.graphql_query }
+      ));
+
+      const handler = createDynamicToolHandler(toolConfig);
+      const result = await handler({ id: '1' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Tool configuration error (HTTP 200)');
+    });
+
+    it('should fail paginated requests that return partial data', async () => {
+      vi.mocked(client.request).mockRejectedValueOnce(partialDataError());
+      const paginatedToolConfig: SavedToolConfig = {
+        name: 'list_orders',
+        description: 'List all orders',
+        graphql_query: 'query ListOrders($first: Int, $after: String) { orders(first: $first, after: $after) { nodes { id } pageInfo { hasNextPage endCursor } } }',
+        parameter_schema: { type: 'object', properties: {} },
+        pagination_config: { enabled: true, style: 'relay', page_size: 2, merge_strategy: 'concat_nodes' },
+        variables: [{ name: 'first', type: 'Int', required: false }, { name: 'after', type: 'String', required: false }],
+      };
+
+      const handler = createDynamicToolHandler(paginatedToolConfig);
+      const result = await handler({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('while fetching page 1');
+      expect(result.content[0]?.text).toContain('Upstream execution error (HTTP 200)');
+      expect(result.content[0]?.text).not.toContain('"name": "John"');
+    });
+  });
+
+  describe('operation selection', () => {
+    it('should send only the tool\'s operation from a multi-operation document', async () => {
+      const toolConfig: SavedToolConfig = {
+        name: 'list_users',
+        description: 'List users',
+        graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name } } query ListUsers($first: Int) { users(first: $first) { name } }',
+        operation_name: 'ListUsers',
+        parameter_schema: { type: 'object', properties: { first: { type: 'integer' } } },
+        variables: [{ name: 'first', type: 'Int', required: false }],
+      };
+      vi.mocked(client.request).mockResolvedValue({ users: [] });
+
+      const handler = createDynamicToolHandler(toolConfig);
+      const result = await handler({ first: 5 });
+
+      expect(result.isError).toBeUndefined();
+      const [sentQuery, sentVariables] = vi.mocked(client.request).mock.calls[0] as unknown as [string, unknown];
+      expect(sentQuery).toContain('query ListUsers');
+      expect(sentQuery).not.toContain('GetUser');
+      expect(sentVariables).toEqual({ first: 5 });
+    });
+  });
+
+  describe('test mode', () => {
+    const toolConfig: SavedToolConfig = {
+      name: 'get_user',
+      description: 'Get user by ID',
+      graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+      parameter_schema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      idempotency: {
+        enabled: true,
+        cache_key_params: ['id'],
+        ttl_seconds: 300,
+      },
+      variables: [{ name: 'id', type: 'ID!', required: true }],
+    };
+
+    beforeEach(() => {
+      clearCachedResponses();
+      clearToolUsage();
+    });
+
+    it('should show the banner, resolved variables, timing and result', async () => {
+      vi.mocked(client.request).mockResolvedValue({ user: { name: 'John' } });
+
+      const result = await createDynamicToolHandler(toolConfig, { test: true })({ id: '1' });
+
+      expect(result.isError).toBeUndefined();
+      const text = result.content[0]?.text ?? '';
+      expect(text).toMatch(/^TEST MODE: get_user \(query executed\)\n\nResolved variables:\n```json\n{\n  "id": "1"\n}\n```\n\nDuration: \d+ms\n\nResult:\n/);
+      expect(text).toContain(JSON.stringify({ user: { name: 'John' } }, null, 2));
+      expect(text).not.toContain('Query:');
+    });
+
+    it('should show the query and parameter schema alongside errors', async () => {
+      vi.mocked(client.request).mockRejectedValue(new Error('Cannot query field "name"'));
+
+      const result = await createDynamicToolHandler(toolConfig, { test: true })({ id: '1' });
+
+      expect(result.isError).toBe(true);
+      const text = result.content[0]?.text ?? '';
+      expect(text).toContain("Failed:\nError testing tool 'get_user' while executing GraphQL query: Cannot query field \"name\"");
+      expect(text).toContain('Query:\n```graphql\nquery GetUser($id: ID!) { user(id: $id) { name } }\n```');
+      expect(text).toContain('Parameter schema:\n```json\n');
+    });
+
+    it('should say when parameters failed validation before variables were resolved', async () => {
+      const result = await createDynamicToolHandler(toolConfig, { test: true })({});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Resolved variables: none (failed before variables were resolved)');
+      expect(client.request).not.toHaveBeenCalled();
+    });
+
+    it('should bypass the response cache', async () => {
+      vi.mocked(client.request).mockResolvedValue({ user: { name: 'John' } });
+
+      await createDynamicToolHandler(toolConfig)({ id: '1' });
+      const result = await createDynamicToolHandler(toolConfig, { test: true })({ id: '1' });
+      await createDynamicToolHandler(toolConfig, { test: true })({ id: '1' });
+
+      expect(client.request).toHaveBeenCalledTimes(3);
+      expect(result.content[0]?.text).not.toContain('cached response');
+    });
+
+    it('should only validate when validateOnly is set', async () => {
+      vi.mocked(validateGraphQLQuery).mockResolvedValue({
+        content: [{ type: 'text', text: 'GraphQL query and variables are valid' }],
+      });
+
+      const result = await createDynamicToolHandler(toolConfig, { test: true, validateOnly: true })({ id: '1' });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0]?.text).toContain('TEST MODE: get_user (validation only, nothing was sent)');
+      expect(result.content[0]?.text).toContain('Result:\nGraphQL query and variables are valid');
+      expect(validateGraphQLQuery).toHaveBeenCalledWith(toolConfig.graphql_query, { id: '1' }, undefined, undefined);
+      expect(client.request).not.toHaveBeenCalled();
+    });
+
+    it('should report validation failures when validateOnly is set', async () => {
+      vi.mocked(validateGraphQLQuery).mockResolvedValue({
+        content: [{ type: 'text', text: 'Error validating GraphQL query: GraphQL validation failed: Cannot query field "name" on type "User".' }],
+        isError: true,
+      });
+
+      const result = await createDynamicToolHandler(toolConfig, { test: true, validateOnly: true })({ id: '1' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Cannot query field "name" on type "User".');
+      expect(result.content[0]?.text).toContain('Query:\n```graphql');
+    });
+
+    it('should count test invocations separately from regular calls', async () => {
+      vi.mocked(client.request)
+        .mockResolvedValueOnce({ user: { name: 'John' } })
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ user: { name: 'John' } });
+
+      await createDynamicToolHandler(toolConfig, { test: true })({ id: '1' });
+      await createDynamicToolHandler(toolConfig, { test: true })({ id: '2' });
+      await createDynamicToolHandler(toolConfig)({ id: '3' });
+
+      expect(getToolUsage('get_user')).toMatchObject({ calls: 1, failures: 0, testCalls: 2, testFailures: 1 });
+    });
+  });
+
+  describe('context injection', () => {
+    const contextToolConfig: SavedToolConfig = {
+      name: 'list_projects',
+      description: 'List projects in a workspace',
+      graphql_query: 'query ListProjects($workspaceId: ID!, $limit: Int) { workspace(id: $workspaceId) { projects(limit: $limit) { id } } }',
+      parameter_schema: {
+        type: 'object',
+        properties: {
+          workspaceId: { type: 'string' },
+          limit: { type: 'integer' },
+        },
+      },
+      variables: [{ name: 'workspaceId', type: 'ID!', required: true }, { name: 'limit', type: 'Int', required: false }],
+    };
+
+    beforeEach(() => {
+      clearContext();
+      vi.mocked(client.request).mockResolvedValue({ workspace: { projects: [] } });
+    });
+
+    it('should inject context values for variables the caller did not supply', async () => {
+      setContextValue('workspaceId', 'ws_123');
+
+      const handler = createDynamicToolHandler(contextToolConfig);
+      await handler({ limit: 5 });
+
+      expect(client.request).toHaveBeenCalledWith(contextToolConfig.graphql_query, { workspaceId: 'ws_123', limit: 5 });
+    });
+
+    it('should prefer values supplied by the caller over context', async () => {
+      setContextValue('workspaceId', 'ws_123');
+
+      const handler = createDynamicToolHandler(contextToolConfig);
+      await handler({ workspaceId: 'ws_other' });
+
+      expect(client.request).toHaveBeenCalledWith(contextToolConfig.graphql_query, { workspaceId: 'ws_other' });
+    });
+
+    it('should inject context for variables that are not tool parameters', async () => {
+      setContextValue('workspaceId', 'ws_123');
+      const toolConfig: SavedToolConfig = {
+        ...contextToolConfig,
+        parameter_schema: { type: 'object', properties: { limit: { type: 'integer' } } },
+      };
+
+      const handler = createDynamicToolHandler(toolConfig);
+      await handler({});
+
+      expect(client.request).toHaveBeenCalledWith(toolConfig.graphql_query, { workspaceId: 'ws_123' });
+    });
+
+    it('should not inject context keys the query does not use', async () => {
+      setContextValue('teamId', 'team_1');
+
+      const handler = createDynamicToolHandler(contextToolConfig);
+      await handler({ workspaceId: 'ws_123' });
+
+      expect(client.request).toHaveBeenCalledWith(contextToolConfig.graphql_query, { workspaceId: 'ws_123' });
+    });
+
+    describe('required parameters', () => {
+      const requiredToolConfig: SavedToolConfig = {
+        ...contextToolConfig,
+        parameter_schema: {
+          ...contextToolConfig.parameter_schema,
+          properties: {
+            workspaceId: { type: 'string', description: 'Workspace to list projects in' },
+            limit: { type: 'integer' },
+            label: { type: 'string' },
+          },
+          required: ['workspaceId', 'label'],
+        },
+      };
+
+      it('should satisfy required parameters for non-null variables from context', async () => {
+        setContextValue('workspaceId', 'ws_1');
+
+        const handler = createDynamicToolHandler(requiredToolConfig);
+        const result = await handler({ limit: 1, label: 'Active' });
+
+        expect(result.isError).toBeUndefined();
+        expect(client.request).toHaveBeenCalledWith(requiredToolConfig.graphql_query, { workspaceId: 'ws_1', limit: 1 });
+      });
+
+      it('should still require parameters that are neither passed nor in context', async () => {
+        const handler = createDynamicToolHandler(requiredToolConfig);
+        const result = await handler({ limit: 1, label: 'Active' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0]?.text).toContain('Parameter validation error: workspaceId: Required');
+        expect(client.request).not.toHaveBeenCalled();
+      });
+
+      it('should validate context values like passed values', async () => {
+        setContextValue('workspaceId', 42);
+
+        const handler = createDynamicToolHandler(requiredToolConfig);
+        const result = await handler({ label: 'Active' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0]?.text).toContain('workspaceId: Expected string, received number');
+      });
+
+      it('should take non-null variables of a generated parameter_schema from context', async () => {
+        setContextValue('workspaceId', 'ws_1');
+        const query = 'query P($workspaceId: ID!, $limit: Int) { workspace(id: $workspaceId) { projects(limit: $limit) { id } } }';
+        const operation = selectOperation(parseDocument(query));
+        const toolConfig: SavedToolConfig = {
+          name: 'list_projects',
+          description: 'List projects in a workspace',
+          graphql_query: query,
+          parameter_schema: generateParameterSchema(operation, null),
+          variables: extractOperationVariables(operation),
+        };
+
+        const result = await createDynamicToolHandler(toolConfig)({ limit: 1 });
+
+        expect(toolConfig.parameter_schema['required']).toEqual(['workspaceId']);
+        expect(result.isError).toBeUndefined();
+        expect(client.request).toHaveBeenCalledWith(query, { workspaceId: 'ws_1', limit: 1 });
+        expect(getToolInputSchema(toolConfig)['workspaceId']?.safeParse(undefined).success).toBe(true);
+      });
+
+      it('should let clients leave out required parameters that context can provide', () => {
+        const inputSchema = getToolInputSchema(requiredToolConfig);
+
+        expect(inputSchema['workspaceId']?.safeParse(undefined).success).toBe(true);
+        expect(inputSchema['workspaceId']?.description).toBe('Workspace to list projects in (required unless set in context)');
+        // Only query variables can come from context
+        expect(inputSchema['label']?.safeParse(undefined).success).toBe(false);
+      });
+    });
+  });
+
+  describe('custom type references', () => {
+    const priorityType: SavedTypeConfig = {
+      name: 'Priority',
+      type_definition: { type: 'string', enum: ['LOW', 'HIGH'] },
+    };
+
+    const listIssuesConfig: SavedToolConfig = {
+      name: 'list_issues',
+      description: 'List issues by priority',
+      graphql_query: 'query ListIssues($priority: Priority) { issues(priority: $priority) { id } }',
+      parameter_schema: {
+        type: 'object',
+        properties: { priority: { $ref: 'types/Priority.json' } },
+        required: ['priority'],
+      },
+      variables: [{ name: 'priority', type: 'Priority', required: false }],
+    };
+
+    it('should validate parameters against referenced types', async () => {
+      vi.mocked(loadAllTypes).mockReturnValue(new Map([['Priority', priorityType]]));
+      vi.mocked(client.request).mockResolvedValue({ issues: [] });
+
+      const handler = createDynamicToolHandler(listIssuesConfig);
+
+      const valid = await handler({ priority: 'HIGH' });
+      const invalid = await handler({ priority: 'URGENT' });
+
+      expect(valid.isError).toBeUndefined();
+      expect(invalid.isError).toBe(true);
+      expect(client.request).toHaveBeenCalledTimes(1);
+    });
+
+    describe('refreshToolsUsingType', () => {
+      const getIssueConfig: SavedToolConfig = {
+        name: 'get_issue',
+        description: 'Get an issue',
+        graphql_query: 'query GetIssue($id: ID!) { issue(id: $id) { id } }',
+        parameter_schema: { type: 'object', properties: { id: { type: 'string' } } },
+        variables: [{ name: 'id', type: 'ID!', required: true }],
+      };
+
+      it('should update registered tools that use the type', () => {
+        vi.mocked(loadAllTools).mockReturnValue(new Map([
+          ['list_issues', listIssuesConfig],
+          ['get_issue', getIssueConfig],
+        ]));
+        vi.mocked(loadAllTypes).mockReturnValue(new Map([
+          ['Priority', { name: 'Priority', type_definition: { type: 'string', enum: ['LOW', 'HIGH', 'URGENT'] } }],
+        ]));
+        const listIssues = { update: vi.fn() };
+        const getIssue = { update: vi.fn() };
+        const registeredTools = new Map<string, any>([['list_issues', listIssues], ['get_issue', getIssue]]);
+
+        const updated = refreshToolsUsingType('Priority', registeredTools);
+
+        expect(updated).toEqual(['list_issues']);
+        expect(getIssue.update).not.toHaveBeenCalled();
+        expect(listIssues.update).toHaveBeenCalledWith({
+          paramsSchema: { priority: expect.any(z.ZodType) },
+          callback: expect.any(Function),
+        });
+
+        const { paramsSchema } = listIssues.update.mock.calls[0]?.[0] as { paramsSchema: Record<string, z.ZodType> };
+        expect(paramsSchema['priority']?.safeParse('URGENT').success).toBe(true);
+        expect(paramsSchema['priority']?.safeParse('SOMEDAY').success).toBe(false);
+      });
+
+      it('should skip dependent tools that are not registered', () => {
+        vi.mocked(loadAllTools).mockReturnValue(new Map([['list_issues', listIssuesConfig]]));
+        vi.mocked(loadAllTypes).mockReturnValue(new Map([['Priority', priorityType]]));
+
+        expect(refreshToolsUsingType('Priority', new Map())).toEqual([]);
+      });
+
+      it('should keep and report tools whose references no longer resolve', () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.mocked(loadAllTools).mockReturnValue(new Map([['list_issues', listIssuesConfig]]));
+        vi.mocked(loadAllTypes).mockReturnValue(new Map([
+          ['Priority', { name: 'Priority', type_definition: { $ref: 'types/Severity.json' } }],
+        ]));
+        const listIssues = { update: vi.fn() };
+
+        expect(refreshToolsUsingType('Priority', new Map<string, any>([['list_issues', listIssues]]))).toEqual([]);
+        expect(listIssues.update).not.toHaveBeenCalled();
+        expect(consoleError).toHaveBeenCalledWith(
+          "Failed to update saved tool 'list_issues': Unknown type 'Severity' referenced by $ref 'types/Severity.json'"
+        );
+        consoleError.mockRestore();
+      });
+    });
+
+    describe('registerAllTools', () => {
+      it('should skip and report saved tools whose references do not resolve', () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.mocked(loadAllTools).mockReturnValue(new Map([
+          ['list_issues', listIssuesConfig],
+          ['get_user', {
+            name: 'get_user',
+            description: 'Get a user',
+            graphql_query: 'query GetUser($id: ID!) { user(id: $id) { id } }',
+            parameter_schema: { type: 'object', properties: { id: { type: 'string' } } },
+            variables: [{ name: 'id', type: 'ID!', required: true }],
+          }],
+        ]));
+        vi.mocked(loadAllTypes).mockReturnValue(new Map());
+        const server = { registerTool: vi.fn(() => ({})) };
+
+        const registeredTools = registerAllTools(server as any);
+
+        expect([...registeredTools.keys()]).toEqual(['get_user']);
+        expect(consoleError).toHaveBeenCalledWith(
+          "Skipping saved tool 'list_issues': Unknown type 'Priority' referenced by $ref 'types/Priority.json'"
+        );
+        consoleError.mockRestore();
+      });
+    });
+  });
+
+  describe('value mappings', () => {
+    const moveIssueConfig: SavedToolConfig = {
+      name: 'move_issue',
+      description: 'Move an issue to a pipeline',
+      graphql_query: 'mutation MoveIssue($issueId: ID!, $pipelineId: ID!) { moveIssue(issueId: $issueId, pipelineId: $pipelineId) { id } }',
+      parameter_schema: {
+        type: 'object',
+        properties: {
+          issueId: { type: 'string' },
+          pipelineId: { 'type': 'string', 'x-mapping': 'pipeline_name_to_id' },
+        },
+        required: ['issueId', 'pipelineId'],
+      },
+      variables: [
+        { name: 'issueId', type: 'ID!', required: true },
+        { name: 'pipelineId', type: 'ID!', required: true },
+      ],
+    };
+
+    it('should send the mapped value instead of the name', async () => {
+      vi.mocked(client.request).mockResolvedValue({ moveIssue: { id: 'issue_1' } });
+
+      const result = await createDynamicToolHandler(moveIssueConfig)({ issueId: 'issue_1', pipelineId: 'In Progress' });
+
+      expect(result.isError).toBeUndefined();
+      expect(client.request).toHaveBeenCalledWith(moveIssueConfig.graphql_query, { issueId: 'issue_1', pipelineId: 'pipeline_2' });
+    });
+
+    it('should reject unknown names with the valid options', async () => {
+      const result = await createDynamicToolHandler(moveIssueConfig)({ issueId: 'issue_1', pipelineId: 'Done' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("'Backlog' | 'In Progress'");
+      expect(client.request).not.toHaveBeenCalled();
+    });
+
+    it('should publish the mapping names as an enum in the input schema', () => {
+      const inputSchema = convertJsonSchemaToMcpZod(moveIssueConfig.parameter_schema);
+
+      expect(inputSchema['pipelineId']?.safeParse('Backlog').success).toBe(true);
+      expect(inputSchema['pipelineId']?.safeParse('pipeline_1').success).toBe(false);
+    });
+  });
+
+  describe('fetchToolData', () => {
+    const toolConfig: SavedToolConfig = {
+      name: 'list_workspace_users',
+      description: 'List workspace users',
+      graphql_query: 'query ($workspaceId: ID!) { workspace(id: $workspaceId) { users { nodes { id name } } } }',
+      parameter_schema: { type: 'object', properties: { workspaceId: { type: 'string' } }, required: ['workspaceId'] },
+      idempotency: { enabled: true, cache_key_params: ['workspaceId'], ttl_seconds: 300 },
+      variables: [{ name: 'workspaceId', type: 'ID!', required: true }],
+    };
+
+    beforeEach(() => {
+      clearCachedResponses();
+      clearToolUsage();
+    });
+
+    it('should return the response data without using the cache or counting a call', async () => {
+      const data = { workspace: { users: { nodes: [{ id: 'user_1', name: 'John Doe' }] } } };
+      vi.mocked(client.request).mockResolvedValue(data);
+
+      await createDynamicToolHandler(toolConfig)({ workspaceId: 'workspace_1' });
+      const result = await fetchToolData(toolConfig, { workspaceId: 'workspace_1' });
+
+      expect(result).toEqual(data);
+      expect(client.request).toHaveBeenCalledTimes(2);
+      expect(getToolUsage('list_workspace_users').calls).toBe(1);
+    });
+
+    it('should follow pages when pagination is enabled', async () => {
+      const paginatedConfig: SavedToolConfig = {
+        ...toolConfig,
+        graphql_query: 'query ($first: Int, $after: String) { users(first: $first, after: $after) { nodes { id } pageInfo { hasNextPage endCursor } } }',
+        parameter_schema: { type: 'object', properties: {} },
+        pagination_config: { enabled: true, style: 'relay', page_size: 1, merge_strategy: 'concat_nodes' },
+        variables: [{ name: 'first', type: 'Int', required: false }, { name: 'after', type: 'String', required: false }],
+      };
+      vi.mocked(client.request)
+        .mockResolvedValueOnce({ users: { nodes: [{ id: 'user_1' }], pageInfo: { hasNextPage: true, endCursor: 'c1' } } })
+        .mockResolvedValueOnce({ users: { nodes: [{ id: 'user_2' }], pageInfo: { hasNextPage: false, endCursor: 'c2' } } });
+
+      const result = await fetchToolData(paginatedConfig, {});
+
+      expect(result).toEqual({ users: { nodes: [{ id: 'user_1' }, { id: 'user_2' }], pageInfo: { hasNextPage: false, endCursor: 'c2' } } });
+    });
+
+    it('should reject invalid parameters', async () => {
+      await expect(fetchToolData(toolConfig, {})).rejects.toThrow('Parameter validation error: workspaceId: Required');
+      expect(client.request).not.toHaveBeenCalled();
+    });
+
+    it('should fail on partial data', async () => {
+      vi.mocked(client.request).mockRejectedValueOnce(new ClientError(
+        {
+          data: { workspace: null },
+          errors: [{ message: 'Workspace not found', path: ['workspace'] }],
+          status: 200,
+          headers: new Headers(),
+        } as ConstructorParameters<typeof ClientError>[0],
+        { query: toolConfig.graphql_query }
+      ));
+
+      await expect(fetchToolData(toolConfig, { workspaceId: 'missing' })).rejects.toThrow('Workspace not found');
+    });
+  });
+});
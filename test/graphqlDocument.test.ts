@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+
+import { extractOperation, extractOperationVariables, parseDocument, selectOperation } from '../src/graphqlDocument.js';
+
+describe('graphqlDocument', () => {
+  describe('parseDocument', () => {
+    it('should report syntax errors', () => {
+      expect(() => parseDocument('query {')).toThrow('GraphQL syntax error: Syntax Error');
+    });
+  });
+
+  describe('selectOperation', () => {
+    it('should return the only operation, ignoring fragments', () => {
+      const document = parseDocument('query GetUser { user { ...UserFields } } fragment UserFields on User { name }');
+
+      expect(selectOperation(document).name?.value).toBe('GetUser');
+    });
+
+    it('should reject documents with several operations', () => {
+      const document = parseDocument('query GetUser { user { name } } mutation { logout }');
+
+      expect(() => selectOperation(document)).toThrow(
+        'The document contains 2 operations (GetUser, <anonymous>); an operation name is required to choose one'
+      );
+    });
+
+    it('should select operations by name', () => {
+      const document = parseDocument('query GetUser { user { name } } mutation Logout { logout }');
+
+      expect(selectOperation(document, 'Logout').operation).toBe('mutation');
+      expect(() => selectOperation(document, 'Login')).toThrow("Operation 'Login' not found; the document contains: GetUser, Logout");
+    });
+
+    it('should reject documents without operations', () => {
+      const document = parseDocument('fragment UserFields on User { name }');
+
+      expect(() => selectOperation(document)).toThrow('The document does not contain an operation');
+    });
+  });
+
+  describe('extractOperation', () => {
+    const query = `
+      query GetUser($id: ID!) { user(id: $id) { ...UserFields } }
+      query ListUsers { users { ...UserFields } }
+      mutation Logout { logout }
+      fragment UserFields on User { name }
+    `;
+
+    it('should keep only the named operation and the fragments it uses', () => {
+      const extracted = extractOperation(query, 'ListUsers');
+
+      expect(extracted).toContain('query ListUsers');
+      expect(extracted).toContain('fragment UserFields on User');
+      expect(extracted).not.toContain('GetUser');
+      expect(extracted).not.toContain('Logout');
+      expect(extractOperation(query, 'Logout')).not.toContain('UserFields');
+    });
+
+    it('should return single-operation documents unchanged', () => {
+      const single = 'query GetUser { user { name } }';
+
+      expect(extractOperation(single, 'GetUser')).toBe(single);
+    });
+
+    it('should reject unknown operation names', () => {
+      expect(() => extractOperation(query, 'DeleteUser')).toThrow("Operation 'DeleteUser' not found");
+    });
+  });
+
+  describe('extractOperationVariables', () => {
+    it('should describe variable types, required variables and defaults', () => {
+      const document = parseDocument('query Search($term: String!, $ids: [ID!], $first: Int! = 10, $filter: Filter = { state: OPEN }) { search }');
+
+      expect(extractOperationVariables(selectOperation(document))).toEqual([
+        { name: 'term', type: 'String!', required: true },
+        { name: 'ids', type: '[ID!]', required: false },
+        { name: 'first', type: 'Int!', required: false, default_value: 10 },
+        { name: 'filter', type: 'Filter', required: false, default_value: { state: 'OPEN' } },
+      ]);
+    });
+
+    it('should ignore dollar signs outside variable definitions', () => {
+      const document = parseDocument('query Price($id: ID!) { product(id: $id) { price(format: "$0.00") } }');
+
+      expect(extractOperationVariables(selectOperation(document)).map(variable => variable.name)).toEqual(['id']);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { ClientError } from 'graphql-request';
+import { describe, it, expect } from 'vitest';
+
+import { formatGraphQLFailure, parseGraphQLFailure, requestWithErrorDetails } from '../src/graphqlErrors.js';
+
+function clientError(response: { data?: unknown; errors?: unknown[]; status: number }): ClientError {
+  return new ClientError({ headers: new Headers(), ...response } as ConstructorParameters<typeof ClientError>[0], { query: '{ user { name } }' });
+}
+
+describe('graphqlErrors', () => {
+  describe('parseGraphQLFailure', () => {
+    it('should return null for errors without a GraphQL response', () => {
+      expect(parseGraphQLFailure(new Error('fetch failed'))).toBeNull();
+    });
+
+    it('should extract messages, paths, locations and codes', () => {
+      const failure = parseGraphQLFailure(clientError({
+        data: { user: null },
+        errors: [{
+          message: 'Internal error',
+          path: ['user'],
+          locations: [{ line: 1, column: 3 }],
+          extensions: { code: 'INTERNAL_SERVER_ERROR', stacktrace: ['...'] },
+        }],
+        status: 200,
+      }));
+
+      expect(failure).toEqual({
+        kind: 'upstream_execution',
+        httpStatus: 200,
+        errors: [{ message: 'Internal error', path: ['user'], locations: [{ line: 1, column: 3 }], code: 'INTERNAL_SERVER_ERROR' }],
+        data: { user: null },
+      });
+    });
+
+    it('should classify validation errors without data as tool configuration errors', () => {
+      const failure = parseGraphQLFailure(clientError({
+        errors: [{ message: 'Cannot query field "nme" on type "User".', locations: [{ line: 1, column: 10 }] }],
+        status: 200,
+      }));
+
+      expect(failure?.kind).toBe('tool_configuration');
+      expect(failure?.data).toBeNull();
+    });
+
+    it('should classify known error codes as tool configuration errors', () => {
+      const failure = parseGraphQLFailure(clientError({
+        data: null,
+        errors: [{ message: 'Variable "$id" got invalid value', path: ['user'], extensions: { code: 'BAD_USER_INPUT' } }],
+        status: 200,
+      }));
+
+      expect(failure?.kind).toBe('tool_configuration');
+    });
+
+    it('should classify HTTP 400 responses as tool configuration errors', () => {
+      expect(parseGraphQLFailure(clientError({ status: 400 }))?.kind).toBe('tool_configuration');
+    });
+
+    it('should classify server errors as upstream execution errors', () => {
+      const failure = parseGraphQLFailure(clientError({ errors: [{ message: 'Service unavailable' }], status: 503 }));
+
+      expect(failure?.kind).toBe('upstream_execution');
+      expect(failure?.httpStatus).toBe(503);
+    });
+  });
+
+  describe('formatGraphQLFailure', () => {
+    it('should describe failures without data', () => {
+      const text = formatGraphQLFailure({
+        kind: 'tool_configuration',
+        httpStatus: 200,
+        errors: [{ message: 'Unknown argument "limit"' }],
+        data: null,
+      });
+
+      expect(text).toContain('Tool configuration error (HTTP 200): the query or variables do not match the API');
+      expect(text).toContain('"message": "Unknown argument \\"limit\\""');
+      expect(text).not.toContain('Data:');
+    });
+
+    it('should include partial data alongside the errors', () => {
+      const text = formatGraphQLFailure({
+        kind: 'upstream_execution',
+        httpStatus: 200,
+        errors: [{ message: 'Timeout', path: ['user', 'orders'] }],
+        data: { user: { name: 'John', orders: null } },
+      });
+
+      expect(text).toContain('Partial data with 1 error (upstream execution error, HTTP 200).');
+      expect(text).toContain('Errors:\n```json');
+      expect(text).toContain('Data:\n```json');
+      expect(text).toContain('"name": "John"');
+    });
+  });
+
+  describe('requestWithErrorDetails', () => {
+    it('should return successful results as complete JSON', async () => {
+      const result = await requestWithErrorDetails(() => Promise.resolve({ user: { name: 'John' } }));
+
+      expect(result).toEqual({ text: JSON.stringify({ user: { name: 'John' } }, null, 2), complete: true });
+    });
+
+    it('should return partial data as incomplete', async () => {
+      const result = await requestWithErrorDetails(() => Promise.reject(clientError({
+        data: { user: { name: 'John', orders: null } },
+        errors: [{ message: 'Timeout', path: ['user', 'orders'] }],
+        status: 200,
+      })));
+
+      expect(result.complete).toBe(false);
+      expect(result.text).toContain('Partial data with 1 error');
+    });
+
+    it('should throw formatted errors when there is no data', async () => {
+      const request = (): Promise<unknown> => Promise.reject(clientError({ errors: [{ message: 'Syntax Error' }], status: 400 }));
+
+      await expect(requestWithErrorDetails(request)).rejects.toThrow('Tool configuration error (HTTP 400)');
+    });
+
+    it('should rethrow other errors unchanged', async () => {
+      const networkError = new Error('fetch failed');
+
+      await expect(requestWithErrorDetails(() => Promise.reject(networkError))).rejects.toBe(networkError);
+    });
+  });
+});
@@ -1,7 +1,13 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { z } from 'zod';
 
+import { clearEnumerationOptions, setEnumerationOptions } from '../src/dynamicEnumerations.js';
 import { validateJsonSchema, convertJsonSchemaToZod, convertJsonSchemaToMcpZod } from '../src/jsonSchemaValidator.js';
+import { loadAllTypes } from '../src/storage.js';
+
+vi.mock('../src/storage.js', () => ({
+  loadAllTypes: vi.fn(() => new Map()),
+}));
 
 describe('jsonSchemaValidator', () => {
   describe('validateJsonSchema', () => {
@@ -486,4 +492,177 @@ describe('jsonSchemaValidator', () => {
       expect(result).toEqual(validTestData);
     });
   });
-});
\ No newline at end of file
+
+  describe('$ref resolution', () => {
+    const statusSchema = {
+      type: 'object',
+      required: ['status'],
+      properties: {
+        status: { $ref: '#/$defs/Status' },
+      },
+      $defs: {
+        Status: { type: 'string', enum: ['OPEN', 'CLOSED'] },
+      },
+    };
+
+    it('should resolve local $defs references in both converters', () => {
+      const zodSchema = convertJsonSchemaToZod(statusSchema);
+      const mcpFields = convertJsonSchemaToMcpZod(statusSchema);
+
+      expect(zodSchema.safeParse({ status: 'OPEN' }).success).toBe(true);
+      expect(zodSchema.safeParse({ status: 'PENDING' }).success).toBe(false);
+      expect(mcpFields['status']?.safeParse('CLOSED').success).toBe(true);
+      expect(mcpFields['status']?.safeParse('PENDING').success).toBe(false);
+      expect(loadAllTypes).not.toHaveBeenCalled();
+    });
+
+    it('should resolve custom type references from the types directory', () => {
+      vi.mocked(loadAllTypes).mockReturnValue(new Map([
+        ['Priority', { name: 'Priority', type_definition: { type: 'string', enum: ['LOW', 'HIGH'] } }],
+      ]));
+      const schema = {
+        type: 'object',
+        properties: { priority: { $ref: 'types/Priority.json', default: 'LOW' } },
+      };
+
+      const zodSchema = convertJsonSchemaToZod(schema);
+      const mcpFields = convertJsonSchemaToMcpZod(schema);
+
+      expect(zodSchema.safeParse({ priority: 'HIGH' }).success).toBe(true);
+      expect(zodSchema.safeParse({ priority: 'URGENT' }).success).toBe(false);
+      expect(mcpFields['priority']?.parse(undefined)).toBe('LOW');
+      expect(mcpFields['priority']?.safeParse('URGENT').success).toBe(false);
+    });
+
+    it('should pick up changes to a type when converting again', () => {
+      const schema = { type: 'object', properties: { priority: { $ref: 'types/Priority.json' } } };
+      vi.mocked(loadAllTypes).mockReturnValue(new Map([
+        ['Priority', { name: 'Priority', type_definition: { type: 'string', enum: ['LOW'] } }],
+      ]));
+      const before = convertJsonSchemaToMcpZod(schema);
+
+      vi.mocked(loadAllTypes).mockReturnValue(new Map([
+        ['Priority', { name: 'Priority', type_definition: { type: 'string', enum: ['LOW', 'HIGH'] } }],
+      ]));
+      const after = convertJsonSchemaToMcpZod(schema);
+
+      expect(before['priority']?.safeParse('HIGH').success).toBe(false);
+      expect(after['priority']?.safeParse('HIGH').success).toBe(true);
+    });
+
+    it('should use the values loaded for types populated from a saved query', () => {
+      const source = { tool_name: 'list_workspace_users', name_path: 'name', value_path: 'id' };
+      vi.mocked(loadAllTypes).mockReturnValue(new Map([
+        ['WorkspaceUser', { name: 'WorkspaceUser', type_definition: { type: 'string' }, source }],
+      ]));
+      const schema = { type: 'object', properties: { assignee: { $ref: 'types/WorkspaceUser.json', description: 'Assignee' } } };
+
+      const before = convertJsonSchemaToMcpZod(schema);
+      setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }, { name: 'Jane Smith', value: 'user_2' }]);
+      const after = convertJsonSchemaToMcpZod(schema);
+      clearEnumerationOptions();
+
+      expect(before['assignee']?.safeParse('anyone').success).toBe(true);
+      expect(after['assignee']?.safeParse('user_2').success).toBe(true);
+      expect(after['assignee']?.safeParse('anyone').success).toBe(false);
+      expect(after['assignee']?.description).toBe('Assignee\n- user_1: John Doe\n- user_2: Jane Smith');
+    });
+
+    it('should throw for unresolvable references', () => {
+      vi.mocked(loadAllTypes).mockReturnValue(new Map());
+      const schema = { type: 'object', properties: { priority: { $ref: 'types/Missing.json' } } };
+
+      expect(() => convertJsonSchemaToMcpZod(schema)).toThrow("Unknown type 'Missing' referenced by $ref 'types/Missing.json'");
+      expect(() => convertJsonSchemaToZod(schema)).toThrow("Unknown type 'Missing'");
+    });
+
+    it('should throw for circular references', () => {
+      const schema = {
+        type: 'object',
+        properties: { node: { $ref: '#/$defs/Node' } },
+        $defs: { Node: { type: 'object', properties: { child: { $ref: '#/$defs/Node' } } } },
+      };
+
+      expect(() => convertJsonSchemaToMcpZod(schema)).toThrow('Circular reference');
+    });
+  });
+
+  describe('enums', () => {
+    const prioritySchema = {
+      type: 'object',
+      properties: {
+        priority: {
+          description: 'Issue priority',
+          oneOf: [
+            { const: 'LOW', description: 'Can wait' },
+            { const: 'HIGH', description: 'Needs attention today' },
+          ],
+        },
+      },
+    };
+
+    it('should convert oneOf lists of const values to enums', () => {
+      const zodSchema = convertJsonSchemaToZod(prioritySchema);
+      const mcpFields = convertJsonSchemaToMcpZod(prioritySchema);
+
+      expect(zodSchema.safeParse({ priority: 'LOW' }).success).toBe(true);
+      expect(zodSchema.safeParse({ priority: 'MEDIUM' }).success).toBe(false);
+      expect(mcpFields['priority']).toBeInstanceOf(z.ZodOptional);
+      expect((mcpFields['priority'] as z.ZodOptional<z.ZodEnum<[string]>>).unwrap().options).toEqual(['LOW', 'HIGH']);
+    });
+
+    it('should include value descriptions in the field description', () => {
+      const mcpFields = convertJsonSchemaToMcpZod(prioritySchema);
+
+      expect(mcpFields['priority']?.description).toBe('Issue priority\n- LOW: Can wait\n- HIGH: Needs attention today');
+    });
+
+    it('should convert numeric const values to integer enums', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          level: { oneOf: [{ const: 1, title: 'Low' }, { const: 2, title: 'High' }] },
+        },
+        required: ['level'],
+      };
+
+      const mcpFields = convertJsonSchemaToMcpZod(schema);
+
+      expect(mcpFields['level']?.safeParse(2).success).toBe(true);
+      expect(mcpFields['level']?.safeParse(3).success).toBe(false);
+      expect(mcpFields['level']?.safeParse('2').success).toBe(false);
+      expect(convertJsonSchemaToZod(schema).safeParse({ level: 1.5 }).success).toBe(false);
+    });
+
+    it('should accept each value of a mixed enum', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          limit: { enum: [10, 'all', null] },
+        },
+        required: ['limit'],
+      };
+
+      const mcpFields = convertJsonSchemaToMcpZod(schema);
+
+      expect(mcpFields['limit']?.safeParse(10).success).toBe(true);
+      expect(mcpFields['limit']?.safeParse('all').success).toBe(true);
+      expect(mcpFields['limit']?.safeParse(null).success).toBe(true);
+      expect(mcpFields['limit']?.safeParse(20).success).toBe(false);
+    });
+
+    it('should keep oneOf lists that are not simple values', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          id: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+        },
+      };
+
+      const mcpFields = convertJsonSchemaToMcpZod(schema);
+
+      expect(mcpFields['id']?.safeParse('abc').success).toBe(true);
+      expect(mcpFields['id']?.safeParse(1).success).toBe(true);
+    });
+  });
+});
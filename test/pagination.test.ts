@@ -0,0 +1,492 @@
+import { parse } from 'graphql';
+import { describe, it, expect, vi } from 'vitest';
+
+import { fetchAllPages, findConnectionPath, getPaginationVariables, parsePath, validatePaginationConfig } from '../src/pagination.js';
+import type { PaginationConfig } from '../src/types.js';
+
+const relayConfig: PaginationConfig = {
+  enabled: true,
+  style: 'relay',
+  page_size: 2,
+  merge_strategy: 'concat_nodes',
+};
+
+function issuesPage(nodes: string[], hasNextPage: boolean, endCursor: string | null): unknown {
+  return {
+    repository: {
+      name: 'repo',
+      issues: {
+        totalCount: 5,
+        nodes: nodes.map(id => ({ id })),
+        edges: nodes.map(id => ({ cursor: `c_${id}`, node: { id } })),
+        pageInfo: { hasNextPage, endCursor },
+      },
+    },
+  };
+}
+
+describe('pagination', () => {
+  const log = vi.fn();
+
+  describe('findConnectionPath', () => {
+    it('should find a nested Relay connection', () => {
+      expect(findConnectionPath(issuesPage(['1'], false, null))).toEqual(['repository', 'issues']);
+    });
+
+    it('should return null when there is no connection', () => {
+      expect(findConnectionPath({ user: { name: 'John' } })).toBeNull();
+    });
+
+    it('should not descend into arrays', () => {
+      expect(findConnectionPath({ items: [{ pageInfo: { hasNextPage: true } }] })).toBeNull();
+    });
+  });
+
+  describe('parsePath', () => {
+    it('should parse dot notation', () => {
+      expect(parsePath('data.repository.issues.nodes')).toEqual(['data', 'repository', 'issues', 'nodes']);
+    });
+
+    it('should accept a leading $ and bracket segments', () => {
+      expect(parsePath("$.search['items'][0].id")).toEqual(['search', 'items', '0', 'id']);
+    });
+
+    it('should reject empty and malformed paths', () => {
+      expect(() => parsePath('')).toThrow('Invalid path');
+      expect(() => parsePath('items nodes')).toThrow('Invalid path');
+    });
+  });
+
+  describe('getPaginationVariables', () => {
+    it('should return the cursor or offset and page size variables', () => {
+      expect(getPaginationVariables(relayConfig)).toEqual(['after', 'first']);
+      expect(getPaginationVariables({ ...relayConfig, style: 'offset' })).toEqual(['offset', 'limit']);
+      expect(getPaginationVariables({ ...relayConfig, style: 'cursor', cursor_variable: 'nextToken', page_size_variable: 'size' }))
+        .toEqual(['nextToken', 'size']);
+    });
+  });
+
+  describe('validatePaginationConfig', () => {
+    it('should accept a Relay config when the cursor variable is declared', () => {
+      expect(() => validatePaginationConfig(relayConfig, ['first', 'after'])).not.toThrow();
+    });
+
+    it('should require the cursor variable to be declared', () => {
+      expect(() => validatePaginationConfig(relayConfig, ['first'])).toThrow('$after variable');
+    });
+
+    it('should honour a custom cursor variable', () => {
+      const config = { ...relayConfig, cursor_variable: 'cursor' };
+      expect(() => validatePaginationConfig(config, ['cursor'])).not.toThrow();
+      expect(() => validatePaginationConfig(config, ['after'])).toThrow('$cursor variable');
+    });
+
+    it('should require the query to select endCursor for Relay pagination', () => {
+      const query = parse('query($after: String) { issues(after: $after) { nodes { id } pageInfo { hasNextPage } } }');
+      expect(() => validatePaginationConfig(relayConfig, ['after'], query)).toThrow('pageInfo { hasNextPage endCursor }');
+    });
+
+    it('should accept page info selected through fragments', () => {
+      const query = parse(`
+        query($after: String) { issues(after: $after) { nodes { id } pageInfo { ...Paging } } }
+        fragment Paging on PageInfo { hasNextPage ... on PageInfo { endCursor } }
+      `);
+      expect(() => validatePaginationConfig(relayConfig, ['after'], query)).not.toThrow();
+    });
+
+    it('should require the custom merge strategy for cursor pagination', () => {
+      const config: PaginationConfig = { ...relayConfig, style: 'cursor' };
+      expect(() => validatePaginationConfig(config, ['after'])).toThrow("requires merge_strategy 'custom'");
+    });
+
+    it('should require offset and limit variables for offset pagination', () => {
+      const config: PaginationConfig = { ...relayConfig, style: 'offset' };
+      expect(() => validatePaginationConfig(config, ['offset', 'limit'])).not.toThrow();
+      expect(() => validatePaginationConfig(config, ['limit'])).toThrow('$offset variable');
+      expect(() => validatePaginationConfig(config, ['offset'])).toThrow('$limit variable');
+    });
+
+    it('should honour skip/take variable names for offset pagination', () => {
+      const config: PaginationConfig = {
+        ...relayConfig,
+        style: 'offset',
+        offset_variable: 'skip',
+        page_size_variable: 'take',
+      };
+      expect(() => validatePaginationConfig(config, ['skip', 'take'])).not.toThrow();
+    });
+
+    it('should require list_path for the custom merge strategy', () => {
+      const config: PaginationConfig = { ...relayConfig, merge_strategy: 'custom' };
+      expect(() => validatePaginationConfig(config, ['after'])).toThrow('requires list_path');
+    });
+
+    it('should require cursor_path for custom cursor pagination', () => {
+      const config: PaginationConfig = { ...relayConfig, style: 'cursor', merge_strategy: 'custom', list_path: 'items' };
+      expect(() => validatePaginationConfig(config, ['after'])).toThrow('requires cursor_path');
+    });
+
+    it('should not require cursor_path for custom offset pagination', () => {
+      const config: PaginationConfig = { ...relayConfig, style: 'offset', merge_strategy: 'custom', list_path: 'items' };
+      expect(() => validatePaginationConfig(config, ['offset', 'limit'])).not.toThrow();
+    });
+
+    it('should reject malformed paths', () => {
+      const config: PaginationConfig = {
+        ...relayConfig,
+        style: 'cursor',
+        merge_strategy: 'custom',
+        list_path: 'items..nodes',
+        cursor_path: 'nextToken',
+      };
+      expect(() => validatePaginationConfig(config, ['after'])).toThrow("Invalid path 'items..nodes'");
+    });
+  });
+
+  describe('fetchAllPages (relay)', () => {
+    it('should follow endCursor until hasNextPage is false and concat nodes', async () => {
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(issuesPage(['1', '2'], true, 'cursor_2'))
+        .mockResolvedValueOnce(issuesPage(['3', '4'], true, 'cursor_4'))
+        .mockResolvedValueOnce(issuesPage(['5'], false, 'cursor_5'));
+
+      const result = await fetchAllPages(relayConfig, { owner: 'me' }, ['owner', 'first', 'after'], fetchPage, log);
+
+      expect(result.pages).toBe(3);
+      expect(result.truncated).toBe(false);
+      expect(fetchPage).toHaveBeenNthCalledWith(1, { owner: 'me', first: 2 });
+      expect(fetchPage).toHaveBeenNthCalledWith(2, { owner: 'me', first: 2, after: 'cursor_2' });
+      expect(fetchPage).toHaveBeenNthCalledWith(3, { owner: 'me', first: 2, after: 'cursor_4' });
+
+      const data = result.data as { repository: { name: string; issues: { nodes: unknown[]; pageInfo: unknown } } };
+      expect(data.repository.name).toBe('repo');
+      expect(data.repository.issues.nodes).toEqual([{ id: '1' }, { id: '2' }, { id: '3' }, { id: '4' }, { id: '5' }]);
+      expect(data.repository.issues.pageInfo).toEqual({ hasNextPage: false, endCursor: 'cursor_5' });
+    });
+
+    it('should concat edges when merge_strategy is concat_edges', async () => {
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(issuesPage(['1'], true, 'cursor_1'))
+        .mockResolvedValueOnce(issuesPage(['2'], false, null));
+
+      const config: PaginationConfig = { ...relayConfig, merge_strategy: 'concat_edges' };
+      const result = await fetchAllPages(config, {}, ['after'], fetchPage, log);
+
+      const data = result.data as { repository: { issues: { edges: unknown[]; nodes: unknown[] } } };
+      expect(data.repository.issues.edges).toEqual([
+        { cursor: 'c_1', node: { id: '1' } },
+        { cursor: 'c_2', node: { id: '2' } },
+      ]);
+      // Nodes are left as returned by the first page
+      expect(data.repository.issues.nodes).toEqual([{ id: '1' }]);
+    });
+
+    it('should not override a page size supplied by the caller', async () => {
+      const fetchPage = vi.fn().mockResolvedValueOnce(issuesPage(['1'], false, null));
+
+      await fetchAllPages(relayConfig, { first: 10 }, ['first', 'after'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenCalledWith({ first: 10 });
+    });
+
+    it('should only set the page size variable when the query declares it', async () => {
+      const fetchPage = vi.fn().mockResolvedValueOnce(issuesPage(['1'], false, null));
+
+      await fetchAllPages(relayConfig, {}, ['after'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenCalledWith({});
+    });
+
+    it('should return the response unchanged when no connection is found', async () => {
+      const fetchPage = vi.fn().mockResolvedValueOnce({ viewer: { login: 'me' } });
+
+      const result = await fetchAllPages(relayConfig, {}, ['after'], fetchPage, log);
+
+      expect(result).toEqual({ data: { viewer: { login: 'me' } }, pages: 1, items: 0, truncated: false });
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when the selected list is missing from the connection', async () => {
+      const fetchPage = vi.fn().mockResolvedValueOnce({
+        issues: { edges: [], pageInfo: { hasNextPage: false, endCursor: null } },
+      });
+
+      await expect(fetchAllPages(relayConfig, {}, ['after'], fetchPage, log))
+        .rejects.toThrow("Connection at 'issues' has no 'nodes' list");
+    });
+
+    it('should fail when a later page is missing the connection', async () => {
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(issuesPage(['1'], true, 'cursor_1'))
+        .mockResolvedValueOnce({ repository: null });
+
+      await expect(fetchAllPages(relayConfig, {}, ['after'], fetchPage, log))
+        .rejects.toThrow("Page 2 is missing the connection at 'repository.issues'");
+    });
+
+    it('should fail instead of refetching the first page when endCursor is not selected', async () => {
+      const fetchPage = vi.fn().mockResolvedValue({ issues: { nodes: [{ id: '1' }], pageInfo: { hasNextPage: true } } });
+
+      await expect(fetchAllPages(relayConfig, {}, ['after'], fetchPage, log))
+        .rejects.toThrow("Connection at 'issues' has no pageInfo.endCursor");
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop after the maximum number of pages', async () => {
+      const fetchPage = vi.fn().mockImplementation(() => Promise.resolve(issuesPage(['x'], true, 'next')));
+
+      const result = await fetchAllPages(relayConfig, {}, ['after'], fetchPage, log);
+
+      expect(result.truncated).toBe(true);
+      expect(result.pages).toBe(50);
+      expect(fetchPage).toHaveBeenCalledTimes(50);
+    });
+  });
+
+  describe('fetchAllPages (offset)', () => {
+    const offsetConfig: PaginationConfig = {
+      enabled: true,
+      style: 'offset',
+      page_size: 2,
+      merge_strategy: 'concat_nodes',
+    };
+
+    function itemsPage(ids: string[]): unknown {
+      return { project: { name: 'p', tasks: ids.map(id => ({ id })) } };
+    }
+
+    it('should increment the offset by page_size until a short page is returned', async () => {
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(itemsPage(['1', '2']))
+        .mockResolvedValueOnce(itemsPage(['3', '4']))
+        .mockResolvedValueOnce(itemsPage(['5']));
+
+      const result = await fetchAllPages(offsetConfig, {}, ['offset', 'limit'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenNthCalledWith(1, { limit: 2 });
+      expect(fetchPage).toHaveBeenNthCalledWith(2, { limit: 2, offset: 2 });
+      expect(fetchPage).toHaveBeenNthCalledWith(3, { limit: 2, offset: 4 });
+      expect(result.pages).toBe(3);
+      expect(result.truncated).toBe(false);
+      expect(result.data).toEqual({
+        project: { name: 'p', tasks: [{ id: '1' }, { id: '2' }, { id: '3' }, { id: '4' }, { id: '5' }] },
+      });
+    });
+
+    it('should stop on an empty page', async () => {
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(itemsPage(['1', '2']))
+        .mockResolvedValueOnce(itemsPage([]));
+
+      const result = await fetchAllPages(offsetConfig, {}, ['offset', 'limit'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(result.items).toBe(2);
+    });
+
+    it('should start from a caller-supplied offset and limit', async () => {
+      const config: PaginationConfig = { ...offsetConfig, offset_variable: 'skip', page_size_variable: 'take' };
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(itemsPage(['1', '2', '3']))
+        .mockResolvedValueOnce(itemsPage(['4']));
+
+      await fetchAllPages(config, { skip: 10, take: 3 }, ['skip', 'take'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenNthCalledWith(1, { skip: 10, take: 3 });
+      expect(fetchPage).toHaveBeenNthCalledWith(2, { skip: 13, take: 3 });
+    });
+
+    it('should stop at max_pages', async () => {
+      const config: PaginationConfig = { ...offsetConfig, max_pages: 3 };
+      const fetchPage = vi.fn().mockImplementation(() => Promise.resolve(itemsPage(['a', 'b'])));
+
+      const result = await fetchAllPages(config, {}, ['offset', 'limit'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ pages: 3, items: 6, truncated: true });
+    });
+
+    it('should cap the total number of items at max_items', async () => {
+      const config: PaginationConfig = { ...offsetConfig, max_items: 3 };
+      const fetchPage = vi.fn().mockImplementation(() => Promise.resolve(itemsPage(['a', 'b'])));
+
+      const result = await fetchAllPages(config, {}, ['offset', 'limit'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ pages: 2, items: 3, truncated: true });
+      expect((result.data as { project: { tasks: unknown[] } }).project.tasks).toHaveLength(3);
+    });
+
+    it('should not report truncation when max_items is reached exactly on the last page', async () => {
+      const config: PaginationConfig = { ...offsetConfig, max_items: 3 };
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(itemsPage(['1', '2']))
+        .mockResolvedValueOnce(itemsPage(['3']));
+
+      const result = await fetchAllPages(config, {}, ['offset', 'limit'], fetchPage, log);
+
+      expect(result).toMatchObject({ items: 3, truncated: false });
+    });
+
+    it('should fail when the response contains no list', async () => {
+      const fetchPage = vi.fn().mockResolvedValueOnce({ project: { name: 'p' } });
+
+      await expect(fetchAllPages(offsetConfig, {}, ['offset', 'limit'], fetchPage, log))
+        .rejects.toThrow('could not find a list');
+    });
+  });
+
+  describe('fetchAllPages (limits)', () => {
+    it('should apply max_items to Relay pagination', async () => {
+      const config: PaginationConfig = { ...relayConfig, max_items: 3 };
+      const fetchPage = vi.fn().mockImplementation(() => Promise.resolve(issuesPage(['x', 'y'], true, 'next')));
+
+      const result = await fetchAllPages(config, {}, ['after'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ items: 3, truncated: true });
+      // The last page's endCursor would skip the dropped item
+      expect((result.data as { repository: { issues: Record<string, unknown> } }).repository.issues).not.toHaveProperty('pageInfo');
+    });
+
+    it('should resume from the last kept edge when max_items cuts off a page', async () => {
+      const config: PaginationConfig = { ...relayConfig, merge_strategy: 'concat_edges', max_items: 3 };
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(issuesPage(['1', '2'], true, 'cursor_2'))
+        .mockResolvedValueOnce(issuesPage(['3', '4'], true, 'cursor_4'));
+
+      const result = await fetchAllPages(config, {}, ['after'], fetchPage, log);
+
+      const data = result.data as { repository: { issues: { edges: unknown[]; pageInfo: unknown } } };
+      expect(data.repository.issues.edges).toHaveLength(3);
+      expect(data.repository.issues.pageInfo).toEqual({ hasNextPage: true, endCursor: 'c_3' });
+    });
+
+    it('should keep the last pageInfo when max_items ends on a page boundary', async () => {
+      const config: PaginationConfig = { ...relayConfig, max_items: 2 };
+      const fetchPage = vi.fn().mockResolvedValueOnce(issuesPage(['1', '2'], true, 'cursor_2'));
+
+      const result = await fetchAllPages(config, {}, ['after'], fetchPage, log);
+
+      expect(result.truncated).toBe(true);
+      const data = result.data as { repository: { issues: { pageInfo: unknown } } };
+      expect(data.repository.issues.pageInfo).toEqual({ hasNextPage: true, endCursor: 'cursor_2' });
+    });
+  });
+
+  describe('fetchAllPages (custom)', () => {
+    const tokenConfig: PaginationConfig = {
+      enabled: true,
+      style: 'cursor',
+      page_size: 2,
+      merge_strategy: 'custom',
+      cursor_variable: 'nextToken',
+      list_path: 'data.listTasks.items',
+      cursor_path: 'data.listTasks.nextToken',
+    };
+
+    function tokenPage(ids: string[], nextToken: string | null): unknown {
+      return { listTasks: { items: ids.map(id => ({ id })), nextToken } };
+    }
+
+    it('should follow the cursor at cursor_path and concat the list at list_path', async () => {
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(tokenPage(['1', '2'], 't1'))
+        .mockResolvedValueOnce(tokenPage(['3'], null));
+
+      const result = await fetchAllPages(tokenConfig, { limit: 2 }, ['limit', 'nextToken'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenNthCalledWith(1, { limit: 2 });
+      expect(fetchPage).toHaveBeenNthCalledWith(2, { limit: 2, nextToken: 't1' });
+      expect(result.data).toEqual({ listTasks: { items: [{ id: '1' }, { id: '2' }, { id: '3' }], nextToken: null } });
+    });
+
+    it('should stop when has_more_path is false even if a cursor is returned', async () => {
+      const config: PaginationConfig = { ...tokenConfig, has_more_path: 'listTasks.hasMore' };
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce({ listTasks: { items: [{ id: '1' }], nextToken: 't1', hasMore: true } })
+        .mockResolvedValueOnce({ listTasks: { items: [{ id: '2' }], nextToken: 't2', hasMore: false } });
+
+      const result = await fetchAllPages(config, {}, ['nextToken'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(result.data).toEqual({
+        listTasks: { items: [{ id: '1' }, { id: '2' }], nextToken: 't2', hasMore: false },
+      });
+    });
+
+    it('should report the last cursor when truncated', async () => {
+      const config: PaginationConfig = { ...tokenConfig, max_pages: 2 };
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(tokenPage(['1'], 't1'))
+        .mockResolvedValueOnce(tokenPage(['2'], 't2'));
+
+      const result = await fetchAllPages(config, {}, ['nextToken'], fetchPage, log);
+
+      expect(result.truncated).toBe(true);
+      expect(result.data).toEqual({ listTasks: { items: [{ id: '1' }, { id: '2' }], nextToken: 't2' } });
+    });
+
+    it('should skip writing back cursor_path when its parent is null', async () => {
+      const config: PaginationConfig = { ...tokenConfig, list_path: 'search.items', cursor_path: 'search.meta.next' };
+      const fetchPage = vi.fn().mockResolvedValueOnce({ search: { items: [{ id: '1' }], meta: null } });
+
+      const result = await fetchAllPages(config, {}, ['nextToken'], fetchPage, log);
+
+      expect(result.data).toEqual({ search: { items: [{ id: '1' }], meta: null } });
+    });
+
+    it('should use list_path with Relay pagination', async () => {
+      const config: PaginationConfig = {
+        ...relayConfig,
+        merge_strategy: 'custom',
+        list_path: 'repository.issues.edges',
+        cursor_path: 'repository.issues.pageInfo.endCursor',
+        has_more_path: 'repository.issues.pageInfo.hasNextPage',
+      };
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce(issuesPage(['1'], true, 'cursor_1'))
+        .mockResolvedValueOnce(issuesPage(['2'], false, 'cursor_2'));
+
+      const result = await fetchAllPages(config, {}, ['after'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenNthCalledWith(2, { after: 'cursor_1' });
+      const data = result.data as { repository: { issues: { edges: unknown[]; pageInfo: unknown } } };
+      expect(data.repository.issues.edges).toHaveLength(2);
+      expect(data.repository.issues.pageInfo).toEqual({ hasNextPage: false, endCursor: 'cursor_2' });
+    });
+
+    it('should use list_path with offset pagination', async () => {
+      const config: PaginationConfig = {
+        enabled: true,
+        style: 'offset',
+        page_size: 2,
+        merge_strategy: 'custom',
+        list_path: 'search.results',
+      };
+      const fetchPage = vi.fn()
+        .mockResolvedValueOnce({ search: { facets: ['a', 'b'], results: [1, 2] } })
+        .mockResolvedValueOnce({ search: { facets: ['a', 'b'], results: [3] } });
+
+      const result = await fetchAllPages(config, {}, ['offset', 'limit'], fetchPage, log);
+
+      expect(fetchPage).toHaveBeenNthCalledWith(2, { limit: 2, offset: 2 });
+      expect(result.data).toEqual({ search: { facets: ['a', 'b'], results: [1, 2, 3] } });
+    });
+
+    it('should fail when list_path does not point at a list', async () => {
+      const fetchPage = vi.fn().mockResolvedValueOnce({ listTasks: { items: null, nextToken: null } });
+
+      await expect(fetchAllPages(tokenConfig, {}, ['nextToken'], fetchPage, log))
+        .rejects.toThrow("Page 1 has no list at list_path 'data.listTasks.items'");
+    });
+
+    it('should fail when has_more_path is not a boolean', async () => {
+      const config: PaginationConfig = { ...tokenConfig, has_more_path: 'listTasks.hasMore' };
+      const fetchPage = vi.fn().mockResolvedValueOnce(tokenPage(['1'], 't1'));
+
+      await expect(fetchAllPages(config, {}, ['nextToken'], fetchPage, log))
+        .rejects.toThrow("no boolean at has_more_path 'listTasks.hasMore'");
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { buildSchema, type OperationDefinitionNode } from 'graphql';
+import { describe, it, expect } from 'vitest';
+
+import { parseDocument, selectOperation } from '../src/graphqlDocument.js';
+import { findParameterSchemaMismatches, generateParameterSchema } from '../src/parameterSchema.js';
+
+const schema = buildSchema(`
+  "Issue priority"
+  enum Priority { LOW HIGH }
+
+  scalar DateTime
+
+  input IssueFilter {
+    "Only issues with this priority"
+    priority: Priority
+    labels: [String!]
+    createdAfter: DateTime
+    state: String! = "open"
+    projectId: ID!
+    or: [IssueFilter!]
+  }
+
+  type Issue { id: ID! }
+
+  type Query {
+    issues(filter: IssueFilter, first: Int, after: String): [Issue!]!
+    issue(id: ID!): Issue
+    score(weight: Float): Float
+  }
+`);
+
+function operation(query: string): OperationDefinitionNode {
+  return selectOperation(parseDocument(query));
+}
+
+describe('parameterSchema', () => {
+  describe('generateParameterSchema', () => {
+    it('should map built-in scalars and mark non-null variables as required', () => {
+      const definition = operation('query GetIssue($id: ID!, $first: Int, $weight: Float, $after: String) { issue(id: $id) { id } }');
+
+      expect(generateParameterSchema(definition, schema)).toEqual({
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          first: { type: 'integer' },
+          weight: { type: 'number' },
+          after: { type: 'string' },
+        },
+        required: ['id'],
+      });
+    });
+
+    it('should include default values and not require variables that have one', () => {
+      const definition = operation('query ListIssues($first: Int! = 20) { issues(first: $first) { id } }');
+
+      expect(generateParameterSchema(definition, schema)).toEqual({
+        type: 'object',
+        properties: { first: { type: 'integer', default: 20 } },
+      });
+    });
+
+    it('should expand enums and input objects recursively', () => {
+      const definition = operation('query ListIssues($filter: IssueFilter!) { issues(filter: $filter) { id } }');
+
+      expect(generateParameterSchema(definition, schema)['properties'].filter).toEqual({
+        type: 'object',
+        properties: {
+          priority: { type: 'string', enum: ['LOW', 'HIGH'], description: 'Only issues with this priority' },
+          labels: { type: 'array', items: { type: 'string' } },
+          createdAfter: { description: 'GraphQL DateTime scalar' },
+          state: { type: 'string', default: 'open' },
+          projectId: { type: 'string' },
+          or: {
+            type: 'array',
+            items: { type: 'object', description: 'IssueFilter input (recursive, not expanded)' },
+          },
+        },
+        required: ['projectId'],
+      });
+    });
+
+    it('should fall back to built-in scalars when the schema is unavailable', () => {
+      const definition = operation('query ListIssues($ids: [ID!]!, $filter: IssueFilter) { issues(filter: $filter) { id } }');
+
+      expect(generateParameterSchema(definition, null)).toEqual({
+        type: 'object',
+        properties: {
+          ids: { type: 'array', items: { type: 'string' } },
+          filter: { description: 'GraphQL IssueFilter value' },
+        },
+        required: ['ids'],
+      });
+    });
+  });
+
+  describe('findParameterSchemaMismatches', () => {
+    const generated = generateParameterSchema(
+      operation('query ListIssues($id: ID!, $filter: IssueFilter, $weight: Float) { issue(id: $id) { id } }'),
+      schema
+    );
+
+    it('should report nothing for a matching schema', () => {
+      const parameterSchema = {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          filter: { type: 'object', properties: { projectId: { type: 'string' } }, required: ['projectId'] },
+          weight: { type: 'integer' },
+        },
+        required: ['id'],
+      };
+
+      expect(findParameterSchemaMismatches(parameterSchema, generated)).toEqual([]);
+    });
+
+    it('should not compare the types of mapped parameters, which take names', () => {
+      const parameterSchema = {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          weight: { 'type': 'string', 'x-mapping': 'weight_levels' },
+        },
+        required: ['id'],
+      };
+
+      expect(findParameterSchemaMismatches(parameterSchema, generated)).toEqual([
+        '$filter is declared by the query but missing from parameter_schema, so it can only come from context',
+      ]);
+    });
+
+    it('should not report pagination variables missing from parameter_schema', () => {
+      const paginated = generateParameterSchema(operation('query ListIssues($first: Int, $after: String) { issue(id: "1") { id } }'), schema);
+
+      expect(findParameterSchemaMismatches({ type: 'object' }, paginated, ['after', 'first'])).toEqual([]);
+      expect(findParameterSchemaMismatches({ type: 'object' }, paginated, ['after'])).toEqual([
+        '$first is declared by the query but missing from parameter_schema, so it can only come from context',
+      ]);
+    });
+
+    it('should report missing, unknown and optional required variables', () => {
+      const parameterSchema = {
+        type: 'object',
+        properties: { id: { type: 'string' }, userId: { type: 'string' } },
+      };
+
+      expect(findParameterSchemaMismatches(parameterSchema, generated)).toEqual([
+        '$id is non-null in the query but not required in parameter_schema; require it, context values still satisfy required parameters',
+        '$filter is declared by the query but missing from parameter_schema, so it can only come from context',
+        '$weight is declared by the query but missing from parameter_schema, so it can only come from context',
+        "'userId' is in parameter_schema but is not a variable of the query",
+      ]);
+    });
+
+    it('should report non-null variables missing from parameter_schema', () => {
+      const parameterSchema = { type: 'object', properties: { filter: {}, weight: { type: 'number' } } };
+
+      expect(findParameterSchemaMismatches(parameterSchema, generated)).toEqual([
+        '$id is non-null in the query but missing from parameter_schema, so calls fail unless context provides it',
+      ]);
+    });
+
+    it('should report incompatible types and enum values', () => {
+      const parameterSchema = {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          filter: {
+            type: 'object',
+            properties: {
+              priority: { type: 'string', enum: ['LOW', 'URGENT'] },
+              labels: { type: 'array', items: { type: 'integer' } },
+              author: { type: 'string' },
+            },
+          },
+          weight: { type: ['number', 'null'] },
+        },
+        required: ['id'],
+      };
+
+      expect(findParameterSchemaMismatches(parameterSchema, generated)).toEqual([
+        '$id is number in parameter_schema but string in the query',
+        '$filter.priority allows values the API does not accept: "URGENT"',
+        '$filter.labels[] is integer in parameter_schema but string in the query',
+        '$filter.author is not a field of the input type',
+        '$filter.projectId is required by the input type but not in parameter_schema',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  buildCacheKey,
+  clearCachedResponses,
+  getCachedResponse,
+  getCacheStats,
+  setCachedResponse,
+} from '../src/responseCache.js';
+import { loadResponseCacheFile, saveResponseCacheFile } from '../src/storage.js';
+import type { CachedResponseEntry, IdempotencyConfig } from '../src/types.js';
+
+vi.mock('../src/storage.js', () => ({
+  loadResponseCacheFile: vi.fn(() => []),
+  saveResponseCacheFile: vi.fn(),
+  getResponseCacheFilePath: vi.fn(() => './data/cache/responses.json'),
+}));
+
+async function importWithEnv(env: Record<string, string>): Promise<typeof import('../src/responseCache.js')> {
+  for (const [key, value] of Object.entries(env)) {
+    vi.stubEnv(key, value);
+  }
+  vi.resetModules();
+  return import('../src/responseCache.js');
+}
+
+describe('responseCache', () => {
+  const config: IdempotencyConfig = {
+    enabled: true,
+    cache_key_params: ['id', 'filter'],
+    ttl_seconds: 60,
+  };
+
+  beforeEach(() => {
+    clearCachedResponses();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('buildCacheKey', () => {
+    it('should only include the listed params', () => {
+      const a = buildCacheKey('get_user', config, { id: '1', filter: 'x', verbose: true });
+      const b = buildCacheKey('get_user', config, { id: '1', filter: 'x', verbose: false });
+      expect(a).toBe(b);
+    });
+
+    it('should distinguish different param values and tools', () => {
+      const base = buildCacheKey('get_user', config, { id: '1' });
+      expect(buildCacheKey('get_user', config, { id: '2' })).not.toBe(base);
+      expect(buildCacheKey('get_team', config, { id: '1' })).not.toBe(base);
+    });
+
+    it('should not depend on object key order', () => {
+      const a = buildCacheKey('search', config, { filter: { name: 'a', active: true } });
+      const b = buildCacheKey('search', config, { filter: { active: true, name: 'a' } });
+      expect(a).toBe(b);
+    });
+
+    it('should treat missing and null params the same', () => {
+      expect(buildCacheKey('get_user', config, { id: '1' })).toBe(buildCacheKey('get_user', config, { id: '1', filter: null }));
+    });
+  });
+
+  describe('getCachedResponse', () => {
+    it('should return a stored response with its age', () => {
+      setCachedResponse('key', 'get_user', 'result', 60, 1000);
+
+      expect(getCachedResponse('key', 11_000)).toEqual({ value: 'result', ageSeconds: 10, expiresInSeconds: 50 });
+    });
+
+    it('should return null for unknown keys', () => {
+      expect(getCachedResponse('missing')).toBeNull();
+    });
+
+    it('should expire entries after the TTL', () => {
+      setCachedResponse('key', 'get_user', 'result', 60, 1000);
+
+      expect(getCachedResponse('key', 61_000)).toBeNull();
+      // Expired entries are removed, not just hidden
+      expect(getCachedResponse('key', 1000)).toBeNull();
+    });
+  });
+
+  describe('clearCachedResponses', () => {
+    it('should clear entries for a single tool', () => {
+      setCachedResponse('a1', 'tool_a', 'x', 60);
+      setCachedResponse('a2', 'tool_a', 'y', 60);
+      setCachedResponse('b1', 'tool_b', 'z', 60);
+
+      expect(clearCachedResponses('tool_a')).toBe(2);
+      expect(getCachedResponse('a1')).toBeNull();
+      expect(getCachedResponse('b1')?.value).toBe('z');
+    });
+
+    it('should clear all entries when no tool is given', () => {
+      setCachedResponse('a1', 'tool_a', 'x', 60);
+      setCachedResponse('b1', 'tool_b', 'z', 60);
+
+      expect(clearCachedResponses()).toBe(2);
+      expect(getCachedResponse('b1')).toBeNull();
+    });
+  });
+
+  describe('getCacheStats', () => {
+    it('should summarise entries per tool', () => {
+      setCachedResponse('a1', 'tool_a', 'xx', 60, 1000);
+      setCachedResponse('a2', 'tool_a', 'yyyy', 60, 5000);
+      setCachedResponse('b1', 'tool_b', 'z', 60, 9000);
+
+      const stats = getCacheStats(11_000);
+
+      expect(stats).toMatchObject({ persistent: false, location: 'memory', entries: 3, totalBytes: 7 });
+      expect(stats.tools).toEqual([
+        { toolName: 'tool_a', entries: 2, bytes: 6, oldestAgeSeconds: 10 },
+        { toolName: 'tool_b', entries: 1, bytes: 1, oldestAgeSeconds: 2 },
+      ]);
+    });
+
+    it('should not count expired entries', () => {
+      setCachedResponse('a1', 'tool_a', 'xx', 10, 1000);
+
+      expect(getCacheStats(20_000).entries).toBe(0);
+    });
+  });
+
+  describe('limits', () => {
+    it('should evict the least recently used entry when over the entry limit', async () => {
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_MAX_ENTRIES: '2' });
+
+      cache.setCachedResponse('a', 'tool', '1', 60);
+      cache.setCachedResponse('b', 'tool', '2', 60);
+      // Reading 'a' makes 'b' the least recently used
+      cache.getCachedResponse('a');
+      cache.setCachedResponse('c', 'tool', '3', 60);
+
+      expect(cache.getCachedResponse('a')?.value).toBe('1');
+      expect(cache.getCachedResponse('b')).toBeNull();
+      expect(cache.getCachedResponse('c')?.value).toBe('3');
+    });
+
+    it('should evict entries when over the size limit', async () => {
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_MAX_BYTES: '10' });
+
+      cache.setCachedResponse('a', 'tool', '123456', 60);
+      cache.setCachedResponse('b', 'tool', '123456', 60);
+
+      expect(cache.getCachedResponse('a')).toBeNull();
+      expect(cache.getCachedResponse('b')?.value).toBe('123456');
+      expect(cache.getCacheStats().totalBytes).toBe(6);
+    });
+
+    it('should not cache a response larger than the size limit', async () => {
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_MAX_BYTES: '10' });
+
+      cache.setCachedResponse('a', 'tool', '1234', 60);
+      cache.setCachedResponse('b', 'tool', '12345678901', 60);
+
+      expect(cache.getCachedResponse('a')?.value).toBe('1234');
+      expect(cache.getCachedResponse('b')).toBeNull();
+    });
+
+    it('should ignore invalid limit settings', async () => {
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_MAX_ENTRIES: 'lots', MCP_GRAPHQL_CACHE_MAX_BYTES: '-5' });
+
+      expect(cache.getCacheStats()).toMatchObject({ maxEntries: 1000, maxBytes: 5 * 1024 * 1024 });
+    });
+  });
+
+  describe('persistence', () => {
+    const storedEntry: CachedResponseEntry = {
+      key: 'stored',
+      toolName: 'tool_a',
+      value: 'from disk',
+      createdAt: Date.now() - 10_000,
+      expiresAt: Date.now() + 60_000,
+    };
+
+    it('should not touch the disk when persistence is disabled', () => {
+      setCachedResponse('a', 'tool', '1', 60);
+      getCachedResponse('a');
+
+      expect(loadResponseCacheFile).not.toHaveBeenCalled();
+      expect(saveResponseCacheFile).not.toHaveBeenCalled();
+    });
+
+    it('should load unexpired entries from disk on first use', async () => {
+      vi.mocked(loadResponseCacheFile).mockReturnValueOnce([
+        storedEntry,
+        { ...storedEntry, key: 'expired', expiresAt: Date.now() - 1 },
+      ]);
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_PERSIST: 'true' });
+
+      expect(cache.getCachedResponse('stored')?.value).toBe('from disk');
+      expect(cache.getCachedResponse('expired')).toBeNull();
+      expect(loadResponseCacheFile).toHaveBeenCalledTimes(1);
+      expect(cache.getCacheStats()).toMatchObject({ persistent: true, location: './data/cache/responses.json' });
+    });
+
+    it('should write entries to disk when they change', async () => {
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_PERSIST: 'true' });
+
+      cache.setCachedResponse('a', 'tool_a', 'value', 60, 1000);
+
+      expect(saveResponseCacheFile).toHaveBeenLastCalledWith([
+        { key: 'a', toolName: 'tool_a', value: 'value', createdAt: 1000, expiresAt: 61_000 },
+      ]);
+
+      cache.clearCachedResponses('tool_a');
+
+      expect(saveResponseCacheFile).toHaveBeenLastCalledWith([]);
+    });
+
+    it('should keep working when the cache file cannot be read', async () => {
+      vi.mocked(loadResponseCacheFile).mockImplementationOnce(() => {
+        throw new Error('Failed to load response cache: bad JSON');
+      });
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_PERSIST: 'true' });
+
+      expect(cache.getCachedResponse('anything')).toBeNull();
+      cache.setCachedResponse('a', 'tool', '1', 60);
+      expect(cache.getCachedResponse('a')?.value).toBe('1');
+    });
+
+    it('should keep working when the cache file cannot be written', async () => {
+      vi.mocked(saveResponseCacheFile).mockImplementation(() => {
+        throw new Error('Failed to save response cache: disk full');
+      });
+      const cache = await importWithEnv({ MCP_GRAPHQL_CACHE_PERSIST: 'true' });
+
+      expect(() => cache.setCachedResponse('a', 'tool', '1', 60)).not.toThrow();
+      expect(cache.getCachedResponse('a')?.value).toBe('1');
+      vi.mocked(saveResponseCacheFile).mockReset();
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { buildSchema } from 'graphql';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import {
+  applySavedToolChecks,
+  checkSavedTool,
+  checkSavedTools,
+  checkSavedToolsOnStartup,
+  formatSavedToolChecks,
+  refreshAndCheckSavedTools,
+} from '../src/savedQueryChecker.js';
+import { refreshSchema } from '../src/schemaService.js';
+import { loadAllTools } from '../src/storage.js';
+import type { SavedToolConfig } from '../src/types.js';
+
+vi.mock('../src/schemaService.js', () => ({
+  refreshSchema: vi.fn(),
+}));
+
+vi.mock('../src/storage.js', () => ({
+  loadAllTools: vi.fn(() => new Map()),
+}));
+
+const schema = buildSchema(`
+  type User {
+    id: ID!
+    name: String
+    login: String @deprecated(reason: "Use name")
+  }
+
+  type Query {
+    user(id: String!): User
+  }
+`);
+
+function savedTool(name: string, graphqlQuery: string): SavedToolConfig {
+  return { name, description: name, graphql_query: graphqlQuery, parameter_schema: {}, variables: [] };
+}
+
+function mockRegisteredTool(enabled = true): RegisteredTool {
+  const tool = {
+    enabled,
+    enable: vi.fn(() => { tool.enabled = true; }),
+    disable: vi.fn(() => { tool.enabled = false; }),
+  };
+  return tool as unknown as RegisteredTool;
+}
+
+const validTool = savedTool('get_user', 'query ($id: String!) { user(id: $id) { id name } }');
+const removedFieldTool = savedTool('get_email', 'query ($id: String!) { user(id: $id) { email } }');
+const changedArgTool = savedTool('get_user_by_id', 'query ($id: ID!) { user(id: $id) { id } }');
+const deprecatedTool = savedTool('get_login', 'query ($id: String!) { user(id: $id) { login } }');
+
+describe('savedQueryChecker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('checkSavedTool', () => {
+    it('should pass queries that are valid against the schema', () => {
+      expect(checkSavedTool(schema, validTool)).toEqual({ toolName: 'get_user', errors: [], deprecations: [] });
+    });
+
+    it('should report removed fields', () => {
+      const check = checkSavedTool(schema, removedFieldTool);
+
+      expect(check.errors).toEqual(['Cannot query field "email" on type "User".']);
+    });
+
+    it('should report changed argument types', () => {
+      const check = checkSavedTool(schema, changedArgTool);
+
+      expect(check.errors).toEqual(['Variable "$id" of type "ID!" used in position expecting type "String!".']);
+    });
+
+    it('should report deprecated fields separately', () => {
+      const check = checkSavedTool(schema, deprecatedTool);
+
+      expect(check.errors).toEqual([]);
+      expect(check.deprecations).toEqual(['The field User.login is deprecated. Use name']);
+    });
+
+    it('should report syntax errors', () => {
+      const check = checkSavedTool(schema, savedTool('broken', 'query { user('));
+
+      expect(check.errors).toHaveLength(1);
+      expect(check.errors[0]).toContain('GraphQL syntax error');
+    });
+  });
+
+  describe('checkSavedTools', () => {
+    it('should check every tool, sorted by name', () => {
+      const tools = new Map([validTool, removedFieldTool].map(tool => [tool.name, tool]));
+
+      const checks = checkSavedTools(schema, tools);
+
+      expect(checks.map(check => check.toolName)).toEqual(['get_email', 'get_user']);
+    });
+  });
+
+  describe('refreshAndCheckSavedTools', () => {
+    it('should check each tool against the schema of the endpoint it queries', async () => {
+      const githubSchema = buildSchema('type Query { viewer: String }');
+      vi.mocked(refreshSchema).mockImplementation(endpoint =>
+        Promise.resolve({ schema: endpoint === 'github' ? githubSchema : schema, source: 'introspection', changes: null })
+      );
+      const githubTool = { ...savedTool('get_viewer', '{ viewer }'), endpoint: 'github' };
+      const misplacedTool = { ...savedTool('get_github_user', 'query ($id: String!) { user(id: $id) { id } }'), endpoint: 'github' };
+
+      const checks = await refreshAndCheckSavedTools(
+        new Map([validTool, githubTool, misplacedTool].map(tool => [tool.name, tool]))
+      );
+
+      expect(refreshSchema).toHaveBeenCalledTimes(2);
+      expect(refreshSchema).toHaveBeenCalledWith(undefined);
+      expect(refreshSchema).toHaveBeenCalledWith('github');
+      expect(checks.map(check => [check.toolName, check.errors.length])).toEqual([
+        ['get_github_user', 1],
+        ['get_user', 0],
+        ['get_viewer', 0],
+      ]);
+    });
+  });
+
+  describe('applySavedToolChecks', () => {
+    it('should disable broken tools and re-enable fixed ones', () => {
+      const registeredTools = new Map([
+        ['get_email', mockRegisteredTool()],
+        ['get_user', mockRegisteredTool(false)],
+        ['get_login', mockRegisteredTool()],
+      ]);
+      const checks = checkSavedTools(schema, new Map([validTool, removedFieldTool, deprecatedTool].map(tool => [tool.name, tool])));
+
+      const result = applySavedToolChecks(checks, registeredTools);
+
+      expect(result).toEqual({ disabled: ['get_email'], enabled: ['get_user'] });
+      expect(registeredTools.get('get_email')?.enabled).toBe(false);
+      expect(registeredTools.get('get_user')?.enabled).toBe(true);
+      expect(registeredTools.get('get_login')?.enabled).toBe(true);
+    });
+
+    it('should leave already disabled broken tools alone', () => {
+      const registeredTool = mockRegisteredTool(false);
+
+      const result = applySavedToolChecks([checkSavedTool(schema, removedFieldTool)], new Map([['get_email', registeredTool]]));
+
+      expect(result).toEqual({ disabled: [], enabled: [] });
+      expect(registeredTool.disable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('formatSavedToolChecks', () => {
+    it('should summarize and list problems, broken tools first', () => {
+      const checks = checkSavedTools(schema, new Map([validTool, deprecatedTool, removedFieldTool].map(tool => [tool.name, tool])));
+
+      expect(formatSavedToolChecks(checks)).toBe(
+        'Checked 3 saved tools against the current schema: 1 broken, 1 using deprecated fields, 1 OK.\n\n' +
+          '- **get_email** (broken): Cannot query field "email" on type "User".\n' +
+          '- **get_login** (deprecated): The field User.login is deprecated. Use name'
+      );
+    });
+
+    it('should only summarize when there are no problems', () => {
+      expect(formatSavedToolChecks([checkSavedTool(schema, validTool)])).toBe(
+        'Checked 1 saved tool against the current schema: 0 broken, 0 using deprecated fields, 1 OK.'
+      );
+    });
+  });
+
+  describe('checkSavedToolsOnStartup', () => {
+    beforeEach(() => {
+      vi.mocked(refreshSchema).mockResolvedValue({ schema, source: 'introspection', changes: null });
+      vi.mocked(loadAllTools).mockReturnValue(new Map([validTool, removedFieldTool].map(tool => [tool.name, tool])));
+    });
+
+    it('should do nothing when turned off', async () => {
+      await checkSavedToolsOnStartup(new Map(), 'off');
+
+      expect(refreshSchema).not.toHaveBeenCalled();
+    });
+
+    it('should log problems without disabling tools in warn mode', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const registeredTools = new Map([['get_email', mockRegisteredTool()]]);
+
+      await checkSavedToolsOnStartup(registeredTools, 'warn');
+
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('- **get_email** (broken)'));
+      expect(registeredTools.get('get_email')?.enabled).toBe(true);
+      consoleError.mockRestore();
+    });
+
+    it('should disable broken tools in disable mode', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const registeredTools = new Map([['get_email', mockRegisteredTool()], ['get_user', mockRegisteredTool()]]);
+
+      await checkSavedToolsOnStartup(registeredTools, 'disable');
+
+      expect(registeredTools.get('get_email')?.enabled).toBe(false);
+      expect(registeredTools.get('get_user')?.enabled).toBe(true);
+      expect(consoleError).toHaveBeenCalledWith('Disabled broken saved tools: get_email');
+      consoleError.mockRestore();
+    });
+
+    it('should skip the check when the schema cannot be fetched', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(refreshSchema).mockRejectedValue(new Error('Failed to fetch schema: Network error'));
+      const registeredTools = new Map([['get_email', mockRegisteredTool()]]);
+
+      await checkSavedToolsOnStartup(registeredTools, 'disable');
+
+      expect(consoleError).toHaveBeenCalledWith('Skipping saved tool check: Failed to fetch schema: Network error');
+      expect(registeredTools.get('get_email')?.enabled).toBe(true);
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { buildSchema } from 'graphql';
+import { describe, it, expect } from 'vitest';
+
+import { countSchemaChanges, findSchemaChanges, formatSchemaChanges } from '../src/schemaChanges.js';
+
+const oldSchema = buildSchema(`
+  enum Status { ACTIVE INACTIVE }
+
+  type User {
+    id: ID!
+    name: String
+    status: Status
+    legacyId: String
+  }
+
+  type Query {
+    user(id: ID!): User
+    users(first: Int): [User!]!
+  }
+`);
+
+describe('schemaChanges', () => {
+  describe('findSchemaChanges', () => {
+    it('should report no changes for identical schemas', () => {
+      const changes = findSchemaChanges(oldSchema, oldSchema);
+
+      expect(changes).toEqual({ breaking: [], dangerous: [], safe: [] });
+      expect(countSchemaChanges(changes)).toBe(0);
+    });
+
+    it('should classify breaking, dangerous and safe changes', () => {
+      const newSchema = buildSchema(`
+        enum Status { ACTIVE INACTIVE BANNED }
+
+        type Post { id: ID! }
+
+        type User {
+          id: ID!
+          status: Status
+          legacyId: String @deprecated(reason: "Use id")
+          posts: [Post!]!
+        }
+
+        type Query {
+          user(id: ID!): User
+          users(first: Int, after: String): [User!]!
+        }
+      `);
+
+      const changes = findSchemaChanges(oldSchema, newSchema);
+
+      expect(changes.breaking).toEqual(['User.name was removed.']);
+      expect(changes.dangerous).toEqual([
+        'BANNED was added to enum type Status.',
+        'An optional arg after on Query.users was added.',
+      ]);
+      expect(changes.safe).toEqual([
+        'Post was added.',
+        'User.legacyId was deprecated: Use id',
+        'User.posts was added.',
+      ]);
+      expect(countSchemaChanges(changes)).toBe(6);
+    });
+
+    it('should report changed argument types as breaking', () => {
+      const newSchema = buildSchema(`
+        enum Status { ACTIVE INACTIVE }
+        type User { id: ID! name: String status: Status legacyId: String }
+        type Query {
+          user(id: String!): User
+          users(first: Int): [User!]!
+        }
+      `);
+
+      expect(findSchemaChanges(oldSchema, newSchema).breaking).toEqual([
+        'Query.user arg id has changed type from ID! to String!.',
+      ]);
+    });
+  });
+
+  describe('formatSchemaChanges', () => {
+    it('should list non-empty sections, most severe first', () => {
+      const text = formatSchemaChanges({
+        breaking: ['User.name was removed.'],
+        dangerous: [],
+        safe: ['Post was added.', 'User.posts was added.'],
+      });
+
+      expect(text).toBe(
+        'Breaking changes (1):\n- User.name was removed.\n\nSafe changes (2):\n- Post was added.\n- User.posts was added.'
+      );
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { buildSchema, type GraphQLNamedType, type GraphQLObjectType } from 'graphql';
+import { describe, it, expect } from 'vitest';
+
+import { formatFieldSignature, formatInputValue, formatSchemaOverview, formatTypeDetails } from '../src/schemaFormatter.js';
+
+const schema = buildSchema(`
+  "An object with an ID"
+  interface Node {
+    id: ID!
+  }
+
+  type User implements Node {
+    id: ID!
+    name: String @deprecated(reason: "Use fullName")
+    fullName: String
+    "Posts written by the user"
+    posts("Maximum number of posts" first: Int = 10, order: Order = DESC): [Post!]!
+  }
+
+  type Post implements Node {
+    id: ID!
+    title: String!
+  }
+
+  enum Order {
+    ASC
+    "Newest first"
+    DESC
+    RANDOM @deprecated(reason: "No longer supported")
+  }
+
+  union SearchResult = User | Post
+
+  input UserFilter {
+    "Match on name"
+    name: String
+    order: Order = ASC
+  }
+
+  scalar DateTime @specifiedBy(url: "https://tools.ietf.org/html/rfc3339")
+
+  type Query {
+    user(id: ID!): User
+    "Search users and posts"
+    search(term: String!, filter: UserFilter): [SearchResult!]!
+    node(id: ID!): Node
+  }
+
+  type Mutation {
+    deletePost(id: ID!): Boolean
+  }
+`);
+
+function getType(name: string): GraphQLNamedType {
+  const type = schema.getType(name);
+  if (!type) {
+    throw new Error(`Missing type ${name}`);
+  }
+  return type;
+}
+
+describe('schemaFormatter', () => {
+  describe('formatSchemaOverview', () => {
+    it('should list root operation fields with signatures', () => {
+      const overview = formatSchemaOverview(schema);
+
+      expect(overview).toContain(
+        '## Query\n- user(id: ID!): User\n- search(term: String!, filter: UserFilter): [SearchResult!]! - Search users and posts\n- node(id: ID!): Node'
+      );
+      expect(overview).toContain('## Mutation\n- deletePost(id: ID!): Boolean');
+      expect(overview).not.toContain('## Subscription');
+    });
+
+    it('should list named types grouped by kind', () => {
+      const overview = formatSchemaOverview(schema);
+
+      expect(overview).toContain('## Objects (2)\nPost, User');
+      expect(overview).toContain('## Interfaces (1)\nNode');
+      expect(overview).toContain('## Unions (1)\nSearchResult');
+      expect(overview).toContain('## Enums (1)\nOrder');
+      expect(overview).toContain('## Input objects (1)\nUserFilter');
+      expect(overview).toContain('## Scalars (1)\nDateTime');
+    });
+
+    it('should leave out introspection types and built-in scalars', () => {
+      const overview = formatSchemaOverview(schema);
+
+      expect(overview).not.toContain('__Type');
+      expect(overview).not.toMatch(/\bString,|\bBoolean,/);
+    });
+
+    it('should show custom root type names', () => {
+      const customSchema = buildSchema(`
+        schema { query: RootQuery }
+        type RootQuery { ping: String }
+      `);
+
+      expect(formatSchemaOverview(customSchema)).toContain('## Query (RootQuery)\n- ping: String');
+    });
+  });
+
+  describe('formatTypeDetails', () => {
+    it('should show object fields with arguments, descriptions and deprecations', () => {
+      expect(formatTypeDetails(schema, getType('User'))).toBe([
+        'type User implements Node',
+        '',
+        'Fields:',
+        '- id: ID!',
+        '- name: String - (deprecated: Use fullName)',
+        '- fullName: String',
+        '- posts(first: Int = 10, order: Order = DESC): [Post!]! - Posts written by the user',
+        '  - first - Maximum number of posts',
+      ].join('\n'));
+    });
+
+    it('should show interface implementations', () => {
+      const details = formatTypeDetails(schema, getType('Node'));
+
+      expect(details).toMatch(/^interface Node\nAn object with an ID\n/);
+      expect(details).toContain('Implemented by: User, Post');
+    });
+
+    it('should show enum values', () => {
+      expect(formatTypeDetails(schema, getType('Order'))).toBe([
+        'enum Order',
+        '',
+        'Values:',
+        '- ASC',
+        '- DESC - Newest first',
+        '- RANDOM - (deprecated: No longer supported)',
+      ].join('\n'));
+    });
+
+    it('should show union members', () => {
+      expect(formatTypeDetails(schema, getType('SearchResult'))).toBe('union SearchResult\n\nPossible types: User, Post');
+    });
+
+    it('should show input fields with defaults', () => {
+      expect(formatTypeDetails(schema, getType('UserFilter'))).toBe([
+        'input UserFilter',
+        '',
+        'Input fields:',
+        '- name: String - Match on name',
+        '- order: Order = ASC',
+      ].join('\n'));
+    });
+
+    it('should show custom scalars', () => {
+      expect(formatTypeDetails(schema, getType('DateTime'))).toBe(
+        'scalar DateTime\n\nSpecified by: https://tools.ietf.org/html/rfc3339'
+      );
+    });
+  });
+
+  describe('signatures', () => {
+    it('should format fields without arguments', () => {
+      const postType = schema.getType('Post') as GraphQLObjectType;
+
+      expect(formatFieldSignature(postType.getFields()['title']!)).toBe('title: String!');
+    });
+
+    it('should format input values with list defaults', () => {
+      const listSchema = buildSchema('type Query { items(ids: [ID!] = ["a", "b"]): [String] }');
+      const field = listSchema.getQueryType()!.getFields()['items']!;
+
+      expect(formatInputValue(field.args[0]!)).toBe('ids: [ID!] = ["a", "b"]');
+    });
+  });
+});
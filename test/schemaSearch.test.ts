@@ -0,0 +1,113 @@
+import { buildSchema } from 'graphql';
+import { describe, it, expect } from 'vitest';
+
+import { searchSchema } from '../src/schemaSearch.js';
+
+const schema = buildSchema(`
+  "A registered user"
+  type User {
+    id: ID!
+    emailAddress: String
+    username: String
+    posts("Maximum number of posts" first: Int): [Post!]!
+  }
+
+  type Post {
+    id: ID!
+    title: String
+    author: User
+  }
+
+  enum IssueState {
+    OPEN
+    CLOSED
+    "Merged into another issue"
+    DUPLICATE
+  }
+
+  input CreateUserInput {
+    email: String!
+  }
+
+  type Query {
+    user(id: ID!): User
+    users(filter: String): [User!]!
+    "Find issues by their state"
+    issues(state: IssueState): [String]
+  }
+`);
+
+function coordinates(query: string, options?: Parameters<typeof searchSchema>[2]): string[] {
+  return searchSchema(schema, query, options).map(result => result.coordinate);
+}
+
+describe('schemaSearch', () => {
+  it('should rank exact name matches first', () => {
+    const results = coordinates('user');
+
+    expect(results.slice(0, 2)).toEqual(['User', 'Query.user']);
+    expect(results).toContain('Query.users');
+    expect(results).toContain('User.username');
+    expect(results).toContain('CreateUserInput');
+  });
+
+  it('should rank prefixes above substrings', () => {
+    const results = coordinates('user');
+
+    expect(results.indexOf('Query.users')).toBeLessThan(results.indexOf('CreateUserInput'));
+  });
+
+  it('should return coordinates and signatures for each kind of element', () => {
+    const results = searchSchema(schema, 'user');
+    const byCoordinate = new Map(results.map(result => [result.coordinate, result]));
+
+    expect(byCoordinate.get('User')).toMatchObject({ kind: 'type', signature: 'type User', description: 'A registered user' });
+    expect(byCoordinate.get('Query.user')).toMatchObject({ kind: 'field', signature: 'user(id: ID!): User' });
+    expect(searchSchema(schema, 'first')[0]).toMatchObject({
+      kind: 'argument',
+      coordinate: 'User.posts(first:)',
+      signature: 'first: Int',
+      description: 'Maximum number of posts',
+    });
+    expect(searchSchema(schema, 'duplicate')[0]).toMatchObject({ kind: 'enum_value', coordinate: 'IssueState.DUPLICATE' });
+    expect(searchSchema(schema, 'email')[0]).toMatchObject({
+      kind: 'input_field',
+      coordinate: 'CreateUserInput.email',
+      signature: 'email: String!',
+    });
+  });
+
+  it('should match names with typos', () => {
+    expect(coordinates('emial')).toEqual(expect.arrayContaining(['User.emailAddress', 'CreateUserInput.email']));
+    expect(coordinates('Pots')).toContain('User.posts');
+  });
+
+  it('should match abbreviations', () => {
+    expect(coordinates('usrnm')).toContain('User.username');
+  });
+
+  it('should match multi-word queries across the coordinate', () => {
+    expect(coordinates('user email')[0]).toBe('User.emailAddress');
+  });
+
+  it('should match descriptions', () => {
+    expect(coordinates('merged')).toEqual(['IssueState.DUPLICATE']);
+  });
+
+  it('should filter by kind', () => {
+    const results = searchSchema(schema, 'user', { kind: 'field' });
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(result => result.kind === 'field')).toBe(true);
+  });
+
+  it('should leave out introspection types and built-in scalars', () => {
+    expect(coordinates('type')).not.toContain('__Type');
+    expect(coordinates('string')).not.toContain('String');
+  });
+
+  it('should return nothing for unrelated or empty queries', () => {
+    expect(coordinates('zebra')).toEqual([]);
+    expect(coordinates('  ')).toEqual([]);
+  });
+});
@@ -1,16 +1,48 @@
-import type { IntrospectionQuery } from 'graphql';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildSchema, introspectionFromSchema, type IntrospectionQuery } from 'graphql';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Import after mocks
-import { client } from '../src/client.js';
+import { getClient, getEndpointNames } from '../src/client.js';
 import { withErrorHandling } from '../src/responses.js';
-import { getSchema, validateGraphQLQuery, clearSchemaCache } from '../src/schemaService.js';
+import {
+  getSchema,
+  getSchemaFetchError,
+  getSchemaSource,
+  validateGraphQLQuery,
+  clearSchemaCache,
+  refreshSchema,
+  startSchemaRefresh,
+  stopSchemaRefresh,
+} from '../src/schemaService.js';
+import { findEndpointSchemaFile, readSchemaFile } from '../src/storage.js';
 
 // Mock the GraphQL client
-vi.mock('../src/client.js', () => ({
-  client: {
-    request: vi.fn(),
-  },
+vi.mock('../src/client.js', () => {
+  const clients: Record<string, { request: ReturnType<typeof vi.fn> }> = {
+    default: { request: vi.fn() },
+    github: { request: vi.fn() },
+  };
+  const getEndpointNames = vi.fn(() => ['default']);
+  const resolveEndpointName = (endpoint?: string): string => {
+    if (endpoint === undefined) {
+      return 'default';
+    }
+    if (!getEndpointNames().includes(endpoint)) {
+      throw new Error(`Unknown endpoint '${endpoint}'`);
+    }
+    return endpoint;
+  };
+  return {
+    getClient: vi.fn((endpoint?: string) => clients[endpoint ?? 'default']),
+    getDefaultEndpointName: (): string => 'default',
+    getEndpointNames,
+    resolveEndpointName,
+  };
+});
+
+vi.mock('../src/storage.js', () => ({
+  findEndpointSchemaFile: vi.fn(() => ''),
+  readSchemaFile: vi.fn(),
 }));
 
 // Mock the responses module  
@@ -19,7 +51,8 @@ vi.mock('../src/responses.js', () => ({
 }));
 
 // Get mocked functions for manipulation in tests
-const mockClient = vi.mocked(client);
+const mockClient = vi.mocked(getClient());
+const mockGithubClient = vi.mocked(getClient('github'));
 const mockWithErrorHandling = vi.mocked(withErrorHandling);
 
 // Mock introspection response for use across tests
@@ -134,6 +167,7 @@ const mockIntrospectionResponse: IntrospectionQuery = {
 describe('schemaService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(getEndpointNames).mockReturnValue(['default']);
     clearSchemaCache(); // Reset cache between tests
     
     // Default mock implementation for withErrorHandling
@@ -169,7 +203,60 @@ describe('schemaService', () => {
 
       expect(schema1).toBeNull();
       expect(schema2).toBeNull();
-      expect(mockClient.request).toHaveBeenCalledOnce(); // Should not retry after error
+      expect(mockClient.request).toHaveBeenCalledOnce(); // Should not retry straight away
+      expect(getSchemaFetchError()).toBe('Failed to fetch schema: Network error');
+    });
+
+    describe('retrying after failures', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should retry after a failed fetch once the backoff delay has passed', async () => {
+        mockClient.request.mockRejectedValueOnce(new Error('Network error'));
+        expect(await getSchema()).toBeNull();
+
+        mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+        vi.advanceTimersByTime(1000);
+        expect(await getSchema()).toBeNull();
+        expect(mockClient.request).toHaveBeenCalledOnce();
+
+        vi.advanceTimersByTime(5000);
+        const schema = await getSchema();
+        expect(schema).toBeTruthy();
+        expect(mockClient.request).toHaveBeenCalledTimes(2);
+        expect(getSchemaFetchError()).toBeNull();
+      });
+
+      it('should back off further after consecutive failures', async () => {
+        mockClient.request.mockRejectedValue(new Error('Network error'));
+        await getSchema();
+        vi.advanceTimersByTime(5000);
+        await getSchema();
+        expect(mockClient.request).toHaveBeenCalledTimes(2);
+
+        // The second failure doubles the delay to 10 seconds
+        vi.advanceTimersByTime(9000);
+        await getSchema();
+        expect(mockClient.request).toHaveBeenCalledTimes(2);
+        vi.advanceTimersByTime(1000);
+        await getSchema();
+        expect(mockClient.request).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    it('should share one request between concurrent callers', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+
+      const [schema1, schema2] = await Promise.all([getSchema(), getSchema()]);
+
+      expect(schema1).toBeTruthy();
+      expect(schema2).toBe(schema1);
+      expect(mockClient.request).toHaveBeenCalledOnce();
     });
 
     it('should handle invalid introspection response', async () => {
@@ -249,6 +336,94 @@ describe('schemaService', () => {
     });
   });
 
+  describe('validateGraphQLQuery with variables', () => {
+    const issuesIntrospection = introspectionFromSchema(buildSchema(`
+      enum Priority { LOW HIGH }
+
+      input IssueFilter {
+        priority: Priority
+        labels: [String!]
+        assigneeId: ID!
+      }
+
+      type Issue { id: ID! }
+
+      type Query {
+        issues(filter: IssueFilter, first: Int): [Issue!]!
+        issue(id: ID!): Issue
+      }
+    `));
+    const issuesQuery = 'query Issues($filter: IssueFilter, $first: Int = 10) { issues(filter: $filter, first: $first) { id } }';
+
+    beforeEach(async () => {
+      mockClient.request.mockResolvedValueOnce(issuesIntrospection);
+      await getSchema();
+    });
+
+    it('should accept valid variables', async () => {
+      const result = await validateGraphQLQuery(issuesQuery, {
+        filter: { priority: 'HIGH', labels: ['bug'], assigneeId: 'u1' },
+        first: 5,
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0]?.text).toBe('GraphQL query and variables are valid');
+    });
+
+    it('should report missing required variables', async () => {
+      const result = await validateGraphQLQuery('query Issue($id: ID!) { issue(id: $id) { id } }', {});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Variable validation failed: Variable "$id" of required type "ID!" was not provided');
+    });
+
+    it('should allow omitting variables with defaults or nullable types', async () => {
+      const result = await validateGraphQLQuery(issuesQuery, {});
+
+      expect(result.isError).toBeFalsy();
+    });
+
+    it('should report scalars of the wrong type', async () => {
+      const result = await validateGraphQLQuery(issuesQuery, { first: 'ten' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Variable "$first" got invalid value "ten": Int cannot represent non-integer value: "ten"');
+    });
+
+    it('should report invalid enum values inside input objects', async () => {
+      const result = await validateGraphQLQuery(issuesQuery, { filter: { priority: 'URGENT', assigneeId: 'u1' } });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Variable "$filter" got invalid value "URGENT" at "filter.priority"');
+    });
+
+    it('should report input object shape errors', async () => {
+      const result = await validateGraphQLQuery(issuesQuery, { filter: { labels: [1], unknown: true } });
+      const text = result.content[0]?.text ?? '';
+
+      expect(result.isError).toBe(true);
+      expect(text).toContain('at "filter.labels[0]"');
+      expect(text).toContain('Field "unknown" is not defined by type "IssueFilter"');
+      expect(text).toContain('Field "assigneeId" of required type "ID!" was not provided');
+    });
+
+    it('should warn about variables the operation does not use', async () => {
+      const result = await validateGraphQLQuery(issuesQuery, { frist: 5 });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0]?.text).toBe(
+        'GraphQL query and variables are valid. Warning: the operation does not use these variables: frist'
+      );
+    });
+
+    it('should require a single operation to check variables against', async () => {
+      const result = await validateGraphQLQuery('query A { issue(id: "1") { id } } query B { issue(id: "2") { id } }', {});
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Cannot validate variables: the document must contain exactly one operation');
+    });
+  });
+
   describe('clearSchemaCache', () => {
     it('should clear cache and allow refetch', async () => {
       // First, fetch and cache schema
@@ -274,7 +449,7 @@ describe('schemaService', () => {
       expect(schema1).toBeNull();
       expect(mockClient.request).toHaveBeenCalledOnce();
 
-      // Try again - should not retry due to error cache
+      // Try again - should not retry until the backoff delay has passed
       const schema2 = await getSchema();
       expect(schema2).toBeNull();
       expect(mockClient.request).toHaveBeenCalledOnce(); // Still only called once
@@ -289,4 +464,303 @@ describe('schemaService', () => {
       expect(mockClient.request).toHaveBeenCalledTimes(2);
     });
   });
-});
\ No newline at end of file
+
+  describe('refreshSchema', () => {
+    const updatedIntrospection = introspectionFromSchema(buildSchema(`
+      type User {
+        id: ID!
+        email: String
+      }
+
+      type Post {
+        id: ID!
+      }
+
+      type Query {
+        user(id: ID!): User
+        posts: [Post!]!
+      }
+    `));
+
+    it('should load the schema without changes when none was loaded before', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+
+      const result = await refreshSchema();
+
+      expect(result.changes).toBeNull();
+      expect(await getSchema()).toBe(result.schema);
+    });
+
+    it('should replace the cached schema and report changes', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+      const previousSchema = await getSchema();
+
+      mockClient.request.mockResolvedValueOnce(updatedIntrospection);
+      const result = await refreshSchema();
+
+      expect(result.schema).not.toBe(previousSchema);
+      expect(await getSchema()).toBe(result.schema);
+      expect(result.changes?.breaking).toEqual(['User.name was removed.']);
+      expect(result.changes?.safe).toEqual(expect.arrayContaining(['Post was added.', 'User.email was added.', 'Query.posts was added.']));
+    });
+
+    it('should keep the previous schema when the refresh fails', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+      const previousSchema = await getSchema();
+
+      mockClient.request.mockRejectedValueOnce(new Error('Network error'));
+      await expect(refreshSchema()).rejects.toThrow('Failed to fetch schema: Network error');
+
+      expect(await getSchema()).toBe(previousSchema);
+    });
+
+    it('should refetch even while a failed fetch is backing off', async () => {
+      mockClient.request.mockRejectedValueOnce(new Error('Network error'));
+      expect(await getSchema()).toBeNull();
+
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+      await refreshSchema();
+
+      expect(await getSchema()).toBeTruthy();
+    });
+  });
+
+  describe('startSchemaRefresh', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      stopSchemaRefresh();
+      vi.useRealTimers();
+    });
+
+    it('should not start when the interval is zero', async () => {
+      expect(startSchemaRefresh(0)).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should refresh the schema every interval and log changes', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+      await getSchema();
+      mockClient.request.mockResolvedValue(introspectionFromSchema(buildSchema('type Query { users: [ID!]! }')));
+
+      expect(startSchemaRefresh(60)).toBe(true);
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(mockClient.request).toHaveBeenCalledTimes(2);
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('GraphQL schema changed:\nBreaking changes (2):'));
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(mockClient.request).toHaveBeenCalledTimes(3);
+      // The schema didn't change again, so nothing more is logged
+      expect(consoleError).toHaveBeenCalledOnce();
+      consoleError.mockRestore();
+    });
+
+    it('should back off after failed refreshes', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockClient.request.mockRejectedValue(new Error('Network error'));
+
+      startSchemaRefresh(60);
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(mockClient.request).toHaveBeenCalledOnce();
+      expect(consoleError).toHaveBeenCalledWith('Failed to fetch schema: Network error; retrying in 120s');
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(mockClient.request).toHaveBeenCalledOnce();
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(mockClient.request).toHaveBeenCalledTimes(2);
+      expect(consoleError).toHaveBeenLastCalledWith('Failed to fetch schema: Network error; retrying in 240s');
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('named endpoints', () => {
+    const githubIntrospection = introspectionFromSchema(buildSchema('type Query { repository(name: String!): ID }'));
+
+    beforeEach(() => {
+      vi.mocked(getEndpointNames).mockReturnValue(['default', 'github']);
+    });
+
+    afterEach(() => {
+      stopSchemaRefresh();
+      vi.useRealTimers();
+    });
+
+    it('should fetch and cache each endpoint\'s schema separately', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+      mockGithubClient.request.mockResolvedValueOnce(githubIntrospection);
+
+      const defaultSchema = await getSchema();
+      const githubSchema = await getSchema('github');
+
+      expect(defaultSchema?.getQueryType()?.getFields()).toHaveProperty('user');
+      expect(githubSchema?.getQueryType()?.getFields()).toHaveProperty('repository');
+      expect(await getSchema('github')).toBe(githubSchema);
+      expect(mockClient.request).toHaveBeenCalledOnce();
+      expect(mockGithubClient.request).toHaveBeenCalledOnce();
+    });
+
+    it('should track fetch failures per endpoint', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+      mockGithubClient.request.mockRejectedValueOnce(new Error('Network error'));
+
+      expect(await getSchema('github')).toBeNull();
+      expect(await getSchema()).toBeTruthy();
+      expect(getSchemaFetchError('github')).toBe('Failed to fetch schema: Network error');
+      expect(getSchemaFetchError()).toBeNull();
+    });
+
+    it('should validate queries against the endpoint\'s schema', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+      mockGithubClient.request.mockResolvedValueOnce(githubIntrospection);
+
+      const githubResult = await validateGraphQLQuery('{ repository(name: "tree") }', undefined, undefined, 'github');
+      const defaultResult = await validateGraphQLQuery('{ repository(name: "tree") }');
+
+      expect(githubResult.isError).toBeUndefined();
+      expect(defaultResult.isError).toBe(true);
+    });
+
+    it('should only refresh the requested endpoint', async () => {
+      mockGithubClient.request.mockResolvedValueOnce(githubIntrospection);
+
+      await refreshSchema('github');
+
+      expect(mockGithubClient.request).toHaveBeenCalledOnce();
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown endpoints', async () => {
+      await expect(getSchema('gitlab')).rejects.toThrow("Unknown endpoint 'gitlab'");
+    });
+
+    it('should refresh every endpoint in the background and name endpoints other than the default', async () => {
+      vi.useFakeTimers();
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockClient.request.mockResolvedValue(mockIntrospectionResponse);
+      mockGithubClient.request.mockRejectedValue(new Error('Network error'));
+
+      startSchemaRefresh(60);
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(mockClient.request).toHaveBeenCalledOnce();
+      expect(mockGithubClient.request).toHaveBeenCalledOnce();
+      expect(consoleError).toHaveBeenCalledWith("Endpoint 'github': Failed to fetch schema: Network error; retrying in 120s");
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('schema file', () => {
+    const sdl = 'type Query { orders: [String!]! }';
+    let originalEnv: NodeJS.ProcessEnv;
+
+    beforeEach(() => {
+      originalEnv = { ...process.env };
+      process.env['MCP_GRAPHQL_SCHEMA_FILE'] = 'schema.graphql';
+      delete process.env['MCP_GRAPHQL_SCHEMA_FILE_MODE'];
+      vi.mocked(readSchemaFile).mockReturnValue(sdl);
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should prefer live introspection when it works', async () => {
+      mockClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+
+      const schema = await getSchema();
+
+      expect(schema?.getType('User')).toBeTruthy();
+      expect(getSchemaSource()).toBe('introspection');
+      expect(readSchemaFile).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to an SDL file when introspection fails', async () => {
+      mockClient.request.mockRejectedValueOnce(new Error('GraphQL introspection is not allowed'));
+
+      const schema = await getSchema();
+
+      expect(schema?.getQueryType()?.getFields()['orders']).toBeTruthy();
+      expect(getSchemaSource()).toBe('file');
+      expect(readSchemaFile).toHaveBeenCalledWith('schema.graphql');
+    });
+
+    it('should validate queries against the schema file', async () => {
+      mockClient.request.mockRejectedValueOnce(new Error('GraphQL introspection is not allowed'));
+
+      const result = await validateGraphQLQuery('{ customers }');
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Cannot query field "customers" on type "Query"');
+    });
+
+    it('should only use the file when the mode is only', async () => {
+      process.env['MCP_GRAPHQL_SCHEMA_FILE_MODE'] = 'only';
+
+      const result = await refreshSchema();
+
+      expect(result.source).toBe('file');
+      expect(mockClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should read introspection JSON files, bare or wrapped in data', async () => {
+      process.env['MCP_GRAPHQL_SCHEMA_FILE'] = 'schema.json';
+      process.env['MCP_GRAPHQL_SCHEMA_FILE_MODE'] = 'only';
+
+      vi.mocked(readSchemaFile).mockReturnValue(JSON.stringify(mockIntrospectionResponse));
+      expect((await refreshSchema()).schema.getType('User')).toBeTruthy();
+
+      vi.mocked(readSchemaFile).mockReturnValue(JSON.stringify({ data: mockIntrospectionResponse }));
+      expect((await refreshSchema()).schema.getType('User')).toBeTruthy();
+    });
+
+    it('should report invalid schema files', async () => {
+      process.env['MCP_GRAPHQL_SCHEMA_FILE'] = 'schema.json';
+      process.env['MCP_GRAPHQL_SCHEMA_FILE_MODE'] = 'only';
+      vi.mocked(readSchemaFile).mockReturnValue('{"types": []}');
+
+      await expect(refreshSchema()).rejects.toThrow("Invalid schema file 'schema.json': missing __schema");
+    });
+
+    it('should fall back to the schema file saved for a named endpoint', async () => {
+      vi.mocked(getEndpointNames).mockReturnValue(['default', 'github']);
+      vi.mocked(findEndpointSchemaFile).mockReturnValueOnce('./data/schema/github.graphql');
+      mockGithubClient.request.mockRejectedValueOnce(new Error('GraphQL introspection is not allowed'));
+
+      const schema = await getSchema('github');
+
+      expect(findEndpointSchemaFile).toHaveBeenCalledWith('github');
+      expect(readSchemaFile).toHaveBeenCalledWith('./data/schema/github.graphql');
+      expect(schema?.getQueryType()?.getFields()['orders']).toBeTruthy();
+      expect(getSchemaSource('github')).toBe('file');
+    });
+
+    it('should not apply the schema file settings to named endpoints', async () => {
+      vi.mocked(getEndpointNames).mockReturnValue(['default', 'github']);
+      process.env['MCP_GRAPHQL_SCHEMA_FILE_MODE'] = 'only';
+      mockGithubClient.request.mockResolvedValueOnce(mockIntrospectionResponse);
+
+      const result = await refreshSchema('github');
+
+      expect(result.source).toBe('introspection');
+      expect(readSchemaFile).not.toHaveBeenCalled();
+    });
+
+    it('should report both errors when introspection and the file fail', async () => {
+      mockClient.request.mockRejectedValueOnce(new Error('Network error'));
+      vi.mocked(readSchemaFile).mockImplementation(() => {
+        throw new Error('Schema file not found: schema.graphql');
+      });
+
+      expect(await getSchema()).toBeNull();
+      expect(getSchemaFetchError()).toBe(
+        'Failed to fetch schema: Network error; schema file fallback also failed: Schema file not found: schema.graphql'
+      );
+    });
+  });
+});
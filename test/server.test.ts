@@ -6,10 +6,27 @@ vi.mock('../src/dynamicToolHandler.js', () => ({
   registerAllTools: vi.fn(() => new Map()),
 }));
 
+vi.mock('../src/dynamicEnumerationRefresh.js', () => ({
+  startEnumerationRefresh: vi.fn(),
+}));
+
 vi.mock('../src/storage.js', () => ({
   ensureDataDirectory: vi.fn(),
 }));
 
+vi.mock('../src/schemaService.js', () => ({
+  startSchemaRefresh: vi.fn(),
+}));
+
+vi.mock('../src/contextStore.js', () => ({
+  loadConfiguredContext: vi.fn(),
+  loadPersistentContext: vi.fn(),
+}));
+
+vi.mock('../src/config.js', () => ({
+  getConfig: vi.fn(() => ({ context_variables: {}, enumerations: {}, mappings: {} })),
+}));
+
 // Mock the tool modules
 vi.mock('../src/tools/executeGraphqlQuery.js', () => ({
   name: 'execute_graphql_query',
@@ -41,6 +58,96 @@ vi.mock('../src/tools/showSavedQuery.js', () => ({
   handler: vi.fn(),
 }));
 
+vi.mock('../src/tools/manageResponseCache.js', () => ({
+  name: 'manage_response_cache',
+  config: { title: 'Manage Response Cache' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/setGraphqlContext.js', () => ({
+  name: 'set_graphql_context',
+  config: { title: 'Set GraphQL Context' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/listGraphqlContext.js', () => ({
+  name: 'list_graphql_context',
+  config: { title: 'List GraphQL Context' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/clearGraphqlContext.js', () => ({
+  name: 'clear_graphql_context',
+  config: { title: 'Clear GraphQL Context' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/createGraphqlType.js', () => ({
+  name: 'create_graphql_type',
+  config: { title: 'Create GraphQL Type' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/listGraphqlTypes.js', () => ({
+  name: 'list_graphql_types',
+  config: { title: 'List GraphQL Types' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/deleteGraphqlType.js', () => ({
+  name: 'delete_graphql_type',
+  config: { title: 'Delete GraphQL Type' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/getSchemaInfo.js', () => ({
+  name: 'get_schema_info',
+  config: { title: 'Get Schema Info' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/searchSchema.js', () => ({
+  name: 'search_schema',
+  config: { title: 'Search Schema' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/validateGraphqlQuery.js', () => ({
+  name: 'validate_graphql_query',
+  config: { title: 'Validate GraphQL Query' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/refreshGraphqlType.js', () => ({
+  name: 'refresh_graphql_type',
+  config: { title: 'Refresh GraphQL Type' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/refreshSchema.js', () => ({
+  name: 'refresh_schema',
+  config: { title: 'Refresh Schema' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/checkSavedQueries.js', () => ({
+  name: 'check_saved_queries',
+  config: { title: 'Check Saved Queries' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/snapshotSchema.js', () => ({
+  name: 'snapshot_schema',
+  config: { title: 'Snapshot Schema' },
+  handler: vi.fn(),
+}));
+
+vi.mock('../src/tools/testSavedQuery.js', () => ({
+  name: 'test_saved_query',
+  config: { title: 'Test Saved Query' },
+  handler: vi.fn(),
+}));
+
 describe('server', () => {
   let originalEnv: NodeJS.ProcessEnv;
   let registeredTools: string[];
@@ -78,7 +185,22 @@ describe('server', () => {
       expect(registeredTools).toContain('delete_saved_query');
       expect(registeredTools).toContain('list_saved_queries');
       expect(registeredTools).toContain('show_saved_query');
-      expect(registeredTools).toHaveLength(5);
+      expect(registeredTools).toContain('manage_response_cache');
+      expect(registeredTools).toContain('set_graphql_context');
+      expect(registeredTools).toContain('list_graphql_context');
+      expect(registeredTools).toContain('clear_graphql_context');
+      expect(registeredTools).toContain('create_graphql_type');
+      expect(registeredTools).toContain('list_graphql_types');
+      expect(registeredTools).toContain('delete_graphql_type');
+      expect(registeredTools).toContain('refresh_graphql_type');
+      expect(registeredTools).toContain('get_schema_info');
+      expect(registeredTools).toContain('search_schema');
+      expect(registeredTools).toContain('validate_graphql_query');
+      expect(registeredTools).toContain('refresh_schema');
+      expect(registeredTools).toContain('check_saved_queries');
+      expect(registeredTools).toContain('snapshot_schema');
+      expect(registeredTools).toContain('test_saved_query');
+      expect(registeredTools).toHaveLength(20);
     });
 
     it('should register all core tools when DISABLE_CORE_TOOLS is "none"', async () => {
@@ -93,7 +215,22 @@ describe('server', () => {
       expect(registeredTools).toContain('delete_saved_query');
       expect(registeredTools).toContain('list_saved_queries');
       expect(registeredTools).toContain('show_saved_query');
-      expect(registeredTools).toHaveLength(5);
+      expect(registeredTools).toContain('manage_response_cache');
+      expect(registeredTools).toContain('set_graphql_context');
+      expect(registeredTools).toContain('list_graphql_context');
+      expect(registeredTools).toContain('clear_graphql_context');
+      expect(registeredTools).toContain('create_graphql_type');
+      expect(registeredTools).toContain('list_graphql_types');
+      expect(registeredTools).toContain('delete_graphql_type');
+      expect(registeredTools).toContain('refresh_graphql_type');
+      expect(registeredTools).toContain('get_schema_info');
+      expect(registeredTools).toContain('search_schema');
+      expect(registeredTools).toContain('validate_graphql_query');
+      expect(registeredTools).toContain('refresh_schema');
+      expect(registeredTools).toContain('check_saved_queries');
+      expect(registeredTools).toContain('snapshot_schema');
+      expect(registeredTools).toContain('test_saved_query');
+      expect(registeredTools).toHaveLength(20);
     });
 
     it('should only register execute_graphql_query when DISABLE_CORE_TOOLS is "management"', async () => {
@@ -108,6 +245,16 @@ describe('server', () => {
       expect(registeredTools).not.toContain('delete_saved_query');
       expect(registeredTools).not.toContain('list_saved_queries');
       expect(registeredTools).not.toContain('show_saved_query');
+      expect(registeredTools).not.toContain('manage_response_cache');
+      expect(registeredTools).not.toContain('set_graphql_context');
+      expect(registeredTools).not.toContain('create_graphql_type');
+      expect(registeredTools).not.toContain('get_schema_info');
+      expect(registeredTools).not.toContain('search_schema');
+      expect(registeredTools).not.toContain('validate_graphql_query');
+      expect(registeredTools).not.toContain('refresh_schema');
+      expect(registeredTools).not.toContain('check_saved_queries');
+      expect(registeredTools).not.toContain('snapshot_schema');
+      expect(registeredTools).not.toContain('test_saved_query');
       expect(registeredTools).toHaveLength(1);
     });
 
@@ -123,6 +270,16 @@ describe('server', () => {
       expect(registeredTools).not.toContain('delete_saved_query');
       expect(registeredTools).not.toContain('list_saved_queries');
       expect(registeredTools).not.toContain('show_saved_query');
+      expect(registeredTools).not.toContain('manage_response_cache');
+      expect(registeredTools).not.toContain('set_graphql_context');
+      expect(registeredTools).not.toContain('create_graphql_type');
+      expect(registeredTools).not.toContain('get_schema_info');
+      expect(registeredTools).not.toContain('search_schema');
+      expect(registeredTools).not.toContain('validate_graphql_query');
+      expect(registeredTools).not.toContain('refresh_schema');
+      expect(registeredTools).not.toContain('check_saved_queries');
+      expect(registeredTools).not.toContain('snapshot_schema');
+      expect(registeredTools).not.toContain('test_saved_query');
       expect(registeredTools).toHaveLength(0);
     });
 
@@ -154,7 +311,90 @@ describe('server', () => {
       const { server, coreToolsStatus } = await import('../src/server.js');
 
       expect(coreToolsStatus).toBe('all core tools enabled');
-      expect(registeredTools).toHaveLength(5);
+      expect(registeredTools).toHaveLength(20);
+    });
+  });
+
+  describe('config file', () => {
+    it('should apply disable_core_tools from the config file', async () => {
+      delete process.env.DISABLE_CORE_TOOLS;
+
+      vi.resetModules();
+      const { getConfig } = await import('../src/config.js');
+      vi.mocked(getConfig).mockReturnValue({ context_variables: {}, enumerations: {}, mappings: {}, disable_core_tools: 'management' });
+      const { coreToolsStatus } = await import('../src/server.js');
+
+      expect(coreToolsStatus).toBe('management tools disabled, execute_graphql_query enabled');
+      expect(registeredTools).toEqual(['execute_graphql_query']);
+    });
+
+    it('should let DISABLE_CORE_TOOLS override the config file', async () => {
+      process.env.DISABLE_CORE_TOOLS = 'none';
+
+      vi.resetModules();
+      const { getConfig } = await import('../src/config.js');
+      vi.mocked(getConfig).mockReturnValue({ context_variables: {}, enumerations: {}, mappings: {}, disable_core_tools: 'all' });
+      const { coreToolsStatus } = await import('../src/server.js');
+
+      expect(coreToolsStatus).toBe('all core tools enabled');
+    });
+
+    it('should load configured context variables after persistent context', async () => {
+      vi.resetModules();
+      const { getConfig } = await import('../src/config.js');
+      vi.mocked(getConfig).mockReturnValue({ context_variables: { WORKSPACE_ID: 'workspace_123' }, enumerations: {}, mappings: {} });
+      const { loadConfiguredContext, loadPersistentContext: load } = await import('../src/contextStore.js');
+      await import('../src/server.js');
+
+      expect(loadConfiguredContext).toHaveBeenCalledWith({ WORKSPACE_ID: 'workspace_123' });
+      expect(vi.mocked(load).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(loadConfiguredContext).mock.invocationCallOrder[0] ?? 0);
+    });
+  });
+
+  describe('persistent context', () => {
+    it('should load persistent context at startup', async () => {
+      vi.resetModules();
+      const { loadPersistentContext: load } = await import('../src/contextStore.js');
+      await import('../src/server.js');
+
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still start when persistent context cannot be loaded', async () => {
+      vi.resetModules();
+      const { loadPersistentContext: load } = await import('../src/contextStore.js');
+      vi.mocked(load).mockImplementation(() => {
+        throw new Error('Failed to load persistent context: Unexpected token');
+      });
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const { coreToolsStatus } = await import('../src/server.js');
+
+      expect(coreToolsStatus).toBe('all core tools enabled');
+      expect(consoleError).toHaveBeenCalledWith('Failed to load persistent context: Unexpected token');
+    });
+  });
+
+  describe('schema refresh', () => {
+    it('should start background schema refresh at startup', async () => {
+      vi.resetModules();
+      const { startSchemaRefresh: start } = await import('../src/schemaService.js');
+      await import('../src/server.js');
+
+      expect(start).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('dynamic enumerations', () => {
+    it('should start loading the values of types populated from saved queries with the registered tools', async () => {
+      vi.resetModules();
+      const { registerAllTools } = await import('../src/dynamicToolHandler.js');
+      const savedTools = new Map();
+      vi.mocked(registerAllTools).mockReturnValueOnce(savedTools);
+      const { startEnumerationRefresh: start } = await import('../src/dynamicEnumerationRefresh.js');
+      await import('../src/server.js');
+
+      expect(start).toHaveBeenCalledWith(savedTools);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,7 +1,7 @@
 
 
 // Import the mocked modules
-import { existsSync, mkdirSync, writeFileSync, readFileSync, unlinkSync, readdirSync } from 'node:fs';
+import { existsSync, mkdirSync, writeFileSync, readFileSync, unlinkSync, readdirSync, renameSync } from 'node:fs';
 import { join } from 'node:path';
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
@@ -13,8 +13,23 @@ import {
   loadToolFromFile,
   loadAllTools,
   deleteToolFile,
+  hasToolFile,
+  loadResponseCacheFile,
+  saveResponseCacheFile,
+  loadPersistentContextFile,
+  savePersistentContextFile,
+  saveTypeToFile,
+  loadTypeFromFile,
+  loadAllTypes,
+  deleteTypeFile,
+  findEndpointSchemaFile,
+  getDefaultSchemaFilePath,
+  readConfigFile,
+  readSchemaFile,
+  resolveSchemaSnapshotPath,
+  writeSchemaFile,
 } from '../src/storage.js';
-import type { SavedToolConfig } from '../src/types.js';
+import type { SavedToolConfig, SavedTypeConfig } from '../src/types.js';
 
 // Mock Node.js fs and path modules
 vi.mock('node:fs', async (importOriginal) => {
@@ -25,6 +40,7 @@ vi.mock('node:fs', async (importOriginal) => {
     readFileSync: vi.fn(),
     unlinkSync: vi.fn(),
     readdirSync: vi.fn(),
+    renameSync: vi.fn(),
   };
   return {
     ...mocks,
@@ -33,8 +49,14 @@ vi.mock('node:fs', async (importOriginal) => {
 });
 
 vi.mock('node:path', async (importOriginal) => {
+  const { isAbsolute, relative, resolve, sep } = await importOriginal<typeof import('node:path')>();
   const mocks = {
     join: vi.fn((...paths: string[]) => paths.join('/')),
+    dirname: vi.fn((path: string) => path.slice(0, path.lastIndexOf('/'))),
+    isAbsolute,
+    relative,
+    resolve,
+    sep,
   };
   return {
     ...mocks,
@@ -57,7 +79,7 @@ describe('storage', () => {
         id: { type: 'string' },
       },
     },
-    variables: ['id'],
+    variables: [{ name: 'id', type: 'ID!', required: true }],
   };
 
   describe('ensureDataDirectory', () => {
@@ -207,6 +229,23 @@ describe('storage', () => {
       expect(result).toEqual(validToolConfig);
     });
 
+    it('should read variable definitions for tools that list variable names', () => {
+      const legacyConfig = {
+        ...validToolConfig,
+        graphql_query: 'query Test($id: ID!, $first: Int = 10) { test(id: $id, first: $first, label: "$notAVariable") { name } }',
+        variables: ['id', 'first', 'notAVariable'],
+      };
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(legacyConfig));
+
+      const result = loadToolFromFile('test_tool');
+
+      expect(result?.variables).toEqual([
+        { name: 'id', type: 'ID!', required: true },
+        { name: 'first', type: 'Int', required: false, default_value: 10 },
+      ]);
+    });
+
     it('should return null for non-existent files', () => {
       vi.mocked(existsSync).mockReturnValue(false);
 
@@ -299,7 +338,7 @@ describe('storage', () => {
       description: 'Second tool',
       graphql_query: 'query Tool2($id: ID!) { test(id: $id) }',
       parameter_schema: { type: 'object', properties: { id: { type: 'string' } } },
-      variables: ['id'],
+      variables: [{ name: 'id', type: 'ID!', required: true }],
     };
 
     it('should return empty Map when TOOLS_DIR does not exist', () => {
@@ -420,6 +459,15 @@ describe('storage', () => {
     });
   });
 
+  describe('hasToolFile', () => {
+    it('should check for the tool file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+
+      expect(hasToolFile('test_tool')).toBe(true);
+      expect(vi.mocked(existsSync)).toHaveBeenCalledWith('./data/tools/test_tool.json');
+    });
+  });
+
   describe('deleteToolFile', () => {
     it('should delete existing tool file', () => {
       vi.mocked(existsSync).mockReturnValue(true);
@@ -473,6 +521,329 @@ describe('storage', () => {
     });
   });
 
+  describe('type files', () => {
+    const priorityType: SavedTypeConfig = {
+      name: 'Priority',
+      type_definition: { type: 'string', enum: ['LOW', 'HIGH'] },
+    };
+
+    it('should save a type to the types directory', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+
+      saveTypeToFile('Priority', priorityType);
+
+      expect(vi.mocked(writeFileSync)).toHaveBeenCalledWith(
+        './data/types/Priority.json',
+        JSON.stringify(priorityType, null, 2),
+        'utf8'
+      );
+    });
+
+    it('should throw a helpful error when saving fails', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(writeFileSync).mockImplementationOnce(() => {
+        throw new Error('Disk full');
+      });
+
+      expect(() => saveTypeToFile('Priority', priorityType)).toThrow("Failed to save type 'Priority' to file: Disk full");
+    });
+
+    it('should load a type from file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(priorityType));
+
+      expect(loadTypeFromFile('Priority')).toEqual(priorityType);
+      expect(vi.mocked(readFileSync)).toHaveBeenCalledWith('./data/types/Priority.json', 'utf8');
+    });
+
+    it('should return null for a missing type', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(loadTypeFromFile('Missing')).toBeNull();
+    });
+
+    it('should reject invalid type files', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ name: 'Priority' }));
+
+      expect(() => loadTypeFromFile('Priority')).toThrow(
+        "Failed to load type 'Priority' from file: Invalid type configuration in file: ./data/types/Priority.json"
+      );
+    });
+
+    it('should load types populated from a saved query', () => {
+      const userType = {
+        name: 'WorkspaceUser',
+        type_definition: {},
+        source: { tool_name: 'list_workspace_users', name_path: 'name', value_path: 'id', refresh_seconds: 600 },
+      };
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(userType));
+
+      expect(loadTypeFromFile('WorkspaceUser')).toEqual(userType);
+    });
+
+    it('should reject types with an invalid source', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+        name: 'WorkspaceUser',
+        type_definition: {},
+        source: { tool_name: 'list_workspace_users', name_path: 'name' },
+      }));
+
+      expect(() => loadTypeFromFile('WorkspaceUser')).toThrow('Invalid type configuration in file: ./data/types/WorkspaceUser.json');
+    });
+
+    it('should load all types from the types directory', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readdirSync).mockReturnValue(['Priority.json', 'README.md'] as any);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify(priorityType));
+
+      const result = loadAllTypes();
+
+      expect(vi.mocked(readdirSync)).toHaveBeenCalledWith('./data/types');
+      expect(result).toEqual(new Map([['Priority', priorityType]]));
+    });
+
+    it('should return no types when the types directory does not exist', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(loadAllTypes()).toEqual(new Map());
+      expect(vi.mocked(readdirSync)).not.toHaveBeenCalled();
+    });
+
+    it('should delete a type file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(unlinkSync).mockReturnValue();
+
+      deleteTypeFile('Priority');
+
+      expect(vi.mocked(unlinkSync)).toHaveBeenCalledWith('./data/types/Priority.json');
+    });
+
+    it('should do nothing when deleting a missing type file', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      deleteTypeFile('Missing');
+
+      expect(vi.mocked(unlinkSync)).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadResponseCacheFile', () => {
+    const entry = {
+      key: 'get_user:[["id","1"]]',
+      toolName: 'get_user',
+      value: '{}',
+      createdAt: 1000,
+      expiresAt: 2000,
+    };
+
+    it('should return an empty list when the cache file does not exist', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(loadResponseCacheFile()).toEqual([]);
+      expect(vi.mocked(readFileSync)).not.toHaveBeenCalled();
+    });
+
+    it('should load valid entries and skip invalid ones', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify([entry, { key: 'broken' }]));
+
+      expect(loadResponseCacheFile()).toEqual([entry]);
+      expect(vi.mocked(readFileSync)).toHaveBeenCalledWith('./data/cache/responses.json', 'utf8');
+    });
+
+    it('should throw a helpful error for a corrupt cache file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue('{"not": "an array"}');
+
+      expect(() => loadResponseCacheFile()).toThrow('Failed to load response cache: expected an array of cache entries');
+    });
+  });
+
+  describe('saveResponseCacheFile', () => {
+    it('should write the cache atomically via a temporary file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(writeFileSync).mockImplementation(() => {});
+
+      saveResponseCacheFile([]);
+
+      expect(vi.mocked(writeFileSync)).toHaveBeenCalledWith('./data/cache/responses.json.tmp', '[]', 'utf8');
+      expect(vi.mocked(renameSync)).toHaveBeenCalledWith('./data/cache/responses.json.tmp', './data/cache/responses.json');
+    });
+
+    it('should create the cache directory if needed', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      vi.mocked(writeFileSync).mockImplementation(() => {});
+
+      saveResponseCacheFile([]);
+
+      expect(vi.mocked(mkdirSync)).toHaveBeenCalledWith('./data/cache', { recursive: true });
+    });
+
+    it('should throw a helpful error when the write fails', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(writeFileSync).mockImplementation(() => {
+        throw new Error('Disk full');
+      });
+
+      expect(() => saveResponseCacheFile([])).toThrow('Failed to save response cache: Disk full');
+      expect(vi.mocked(renameSync)).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadPersistentContextFile', () => {
+    it('should return no values when the context file does not exist', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(loadPersistentContextFile()).toEqual({});
+      expect(vi.mocked(readFileSync)).not.toHaveBeenCalled();
+    });
+
+    it('should load valid values and skip invalid ones', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({
+        workspaceId: 'ws_123',
+        limit: 25,
+        archived: false,
+        filter: { status: 'open' },
+      }));
+
+      expect(loadPersistentContextFile()).toEqual({ workspaceId: 'ws_123', limit: 25, archived: false });
+      expect(vi.mocked(readFileSync)).toHaveBeenCalledWith('./data/context/persistent_context.json', 'utf8');
+    });
+
+    it('should throw a helpful error for a corrupt context file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue('["ws_123"]');
+
+      expect(() => loadPersistentContextFile()).toThrow('Failed to load persistent context: expected an object of context values');
+    });
+  });
+
+  describe('savePersistentContextFile', () => {
+    it('should write the context atomically via a temporary file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(writeFileSync).mockImplementation(() => {});
+
+      savePersistentContextFile({ workspaceId: 'ws_123' });
+
+      expect(vi.mocked(writeFileSync)).toHaveBeenCalledWith(
+        './data/context/persistent_context.json.tmp',
+        JSON.stringify({ workspaceId: 'ws_123' }, null, 2),
+        'utf8'
+      );
+      expect(vi.mocked(renameSync)).toHaveBeenCalledWith(
+        './data/context/persistent_context.json.tmp',
+        './data/context/persistent_context.json'
+      );
+    });
+
+    it('should create the context directory if needed', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      vi.mocked(writeFileSync).mockImplementation(() => {});
+
+      savePersistentContextFile({});
+
+      expect(vi.mocked(mkdirSync)).toHaveBeenCalledWith('./data/context', { recursive: true });
+    });
+
+    it('should throw a helpful error when the write fails', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(writeFileSync).mockImplementation(() => {
+        throw new Error('Disk full');
+      });
+
+      expect(() => savePersistentContextFile({})).toThrow('Failed to save persistent context: Disk full');
+    });
+  });
+
+  describe('schema files', () => {
+    it('should default to a schema file in the data directory', () => {
+      expect(getDefaultSchemaFilePath()).toBe('./data/schema/schema.graphql');
+    });
+
+    it('should name schema files for other endpoints after the endpoint', () => {
+      expect(getDefaultSchemaFilePath('github')).toBe('./data/schema/github.graphql');
+    });
+
+    it('should only find a named endpoint\'s schema file when it exists', () => {
+      vi.mocked(existsSync).mockReturnValueOnce(true);
+      expect(findEndpointSchemaFile('github')).toBe('./data/schema/github.graphql');
+
+      vi.mocked(existsSync).mockReturnValueOnce(false);
+      expect(findEndpointSchemaFile('github')).toBe('');
+    });
+
+    it('should resolve snapshot paths within the schema directory', () => {
+      expect(resolveSchemaSnapshotPath('api.json')).toBe('./data/schema/api.json');
+      expect(resolveSchemaSnapshotPath('snapshots/../api.graphql')).toBe('./data/schema/snapshots/../api.graphql');
+    });
+
+    it('should allow the given file outside the schema directory', () => {
+      expect(resolveSchemaSnapshotPath('/etc/graphql/schema.graphql', '/etc/graphql/schema.graphql')).toBe('/etc/graphql/schema.graphql');
+      expect(() => resolveSchemaSnapshotPath('/etc/graphql/other.graphql', '/etc/graphql/schema.graphql')).toThrow('must be relative');
+    });
+
+    it('should reject snapshot paths outside the schema directory', () => {
+      expect(() => resolveSchemaSnapshotPath('/etc/schema.graphql')).toThrow(
+        'Schema file path must be relative to ./data/schema: /etc/schema.graphql'
+      );
+      expect(() => resolveSchemaSnapshotPath('../../package.json')).toThrow(
+        'Schema file path must stay within ./data/schema: ../../package.json'
+      );
+      expect(() => resolveSchemaSnapshotPath('snapshots/../../schema.json')).toThrow('must stay within');
+    });
+
+    it('should read a schema file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue('type Query { id: ID }');
+
+      expect(readSchemaFile('/schemas/api.graphql')).toBe('type Query { id: ID }');
+      expect(vi.mocked(readFileSync)).toHaveBeenCalledWith('/schemas/api.graphql', 'utf8');
+    });
+
+    it('should read a config file', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue('graphql_endpoint: https://api.example.com/graphql');
+
+      expect(readConfigFile('/etc/graphql-metatool.yaml')).toBe('graphql_endpoint: https://api.example.com/graphql');
+    });
+
+    it('should report missing config files', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(() => readConfigFile('/etc/graphql-metatool.yaml')).toThrow('Config file not found: /etc/graphql-metatool.yaml');
+    });
+
+    it('should report missing schema files', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(() => readSchemaFile('/schemas/api.graphql')).toThrow('Schema file not found: /schemas/api.graphql');
+    });
+
+    it('should write a schema file atomically, creating its directory if needed', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      vi.mocked(writeFileSync).mockImplementation(() => {});
+
+      writeSchemaFile('/schemas/api.graphql', 'type Query { id: ID }');
+
+      expect(vi.mocked(mkdirSync)).toHaveBeenCalledWith('/schemas', { recursive: true });
+      expect(vi.mocked(writeFileSync)).toHaveBeenCalledWith('/schemas/api.graphql.tmp', 'type Query { id: ID }', 'utf8');
+      expect(vi.mocked(renameSync)).toHaveBeenCalledWith('/schemas/api.graphql.tmp', '/schemas/api.graphql');
+    });
+
+    it('should throw a helpful error when writing fails', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(writeFileSync).mockImplementation(() => {
+        throw new Error('Disk full');
+      });
+
+      expect(() => writeSchemaFile('/schemas/api.graphql', '')).toThrow("Failed to write schema file '/schemas/api.graphql': Disk full");
+    });
+  });
+
   describe('isValidToolConfig (internal function)', () => {
     it('should validate valid complete tool config', () => {
       // We can't directly test the internal function, but we can test it indirectly
@@ -590,9 +961,19 @@ describe('storage', () => {
       );
     });
 
+    it('should reject a non-string endpoint', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(JSON.stringify({ ...validToolConfig, endpoint: 42 }));
+
+      expect(() => loadToolFromFile('test_tool')).toThrow(
+        'Invalid tool configuration in file:'
+      );
+    });
+
     it('should accept config with optional fields', () => {
       const configWithOptionalFields: SavedToolConfig = {
         ...validToolConfig,
+        endpoint: 'github',
         pagination_config: {
           enabled: true,
           style: 'relay',
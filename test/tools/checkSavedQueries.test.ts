@@ -0,0 +1,112 @@
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { buildSchema } from 'graphql';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { refreshSchema } from '../../src/schemaService.js';
+import { loadAllTools } from '../../src/storage.js';
+import { handler } from '../../src/tools/checkSavedQueries.js';
+import type { SavedToolConfig } from '../../src/types.js';
+
+const mockRegisteredTools = new Map<string, RegisteredTool>();
+
+vi.mock('../../src/server.js', () => ({
+  get registeredTools(): Map<string, RegisteredTool> { return mockRegisteredTools; },
+}));
+
+vi.mock('../../src/schemaService.js', () => ({
+  refreshSchema: vi.fn(),
+}));
+
+vi.mock('../../src/storage.js', () => ({
+  loadAllTools: vi.fn(() => new Map()),
+}));
+
+const schema = buildSchema(`
+  type User {
+    id: ID!
+    name: String
+  }
+
+  type Query {
+    user(id: ID!): User
+  }
+`);
+
+function savedTool(name: string, graphqlQuery: string): SavedToolConfig {
+  return { name, description: name, graphql_query: graphqlQuery, parameter_schema: {}, variables: [] };
+}
+
+const tools = new Map([
+  ['get_user', savedTool('get_user', 'query ($id: ID!) { user(id: $id) { id name } }')],
+  ['get_email', savedTool('get_email', 'query ($id: ID!) { user(id: $id) { email } }')],
+]);
+
+describe('checkSavedQueries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRegisteredTools.clear();
+    vi.mocked(loadAllTools).mockReturnValue(tools);
+    vi.mocked(refreshSchema).mockResolvedValue({ schema, source: 'introspection', changes: null });
+  });
+
+  it('should report broken tools against the freshly fetched schema', async () => {
+    const result = await handler({});
+
+    expect(result.isError).toBeUndefined();
+    expect(refreshSchema).toHaveBeenCalledOnce();
+    expect(result.content[0]?.text).toBe(
+      'Checked 2 saved tools against the current schema: 1 broken, 0 using deprecated fields, 1 OK.\n\n' +
+        '- **get_email** (broken): Cannot query field "email" on type "User".'
+    );
+  });
+
+  it('should check a single tool', async () => {
+    const result = await handler({ tool_name: 'get_user' });
+
+    expect(result.content[0]?.text).toBe('Checked 1 saved tool against the current schema: 0 broken, 0 using deprecated fields, 1 OK.');
+  });
+
+  it('should report unknown tools', async () => {
+    const result = await handler({ tool_name: 'missing_tool' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Tool 'missing_tool' not found");
+  });
+
+  it('should not fetch the schema when there are no saved tools', async () => {
+    vi.mocked(loadAllTools).mockReturnValue(new Map());
+
+    const result = await handler({});
+
+    expect(result.content[0]?.text).toBe('No saved tools to check.');
+    expect(refreshSchema).not.toHaveBeenCalled();
+  });
+
+  it('should disable broken tools when asked to', async () => {
+    const disable = vi.fn();
+    mockRegisteredTools.set('get_email', { enabled: true, disable } as unknown as RegisteredTool);
+
+    const result = await handler({ disable_broken: true });
+
+    expect(disable).toHaveBeenCalledOnce();
+    expect(result.content[0]?.text).toContain('\n\nDisabled: get_email');
+  });
+
+  it('should not disable tools by default', async () => {
+    const disable = vi.fn();
+    mockRegisteredTools.set('get_email', { enabled: true, disable } as unknown as RegisteredTool);
+
+    await handler({});
+
+    expect(disable).not.toHaveBeenCalled();
+  });
+
+  it('should report schema fetch failures', async () => {
+    vi.mocked(refreshSchema).mockRejectedValue(new Error('Failed to fetch schema: Network error'));
+
+    const result = await handler({});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Failed to fetch schema: Network error');
+  });
+});
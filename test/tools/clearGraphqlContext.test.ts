@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { clearContext, getAllContext, getContextValue, setContextValue } from '../../src/contextStore.js';
+import { savePersistentContextFile } from '../../src/storage.js';
+import { handler } from '../../src/tools/clearGraphqlContext.js';
+
+vi.mock('../../src/storage.js', () => ({
+  loadPersistentContextFile: vi.fn(() => ({})),
+  savePersistentContextFile: vi.fn(),
+}));
+
+describe('clearGraphqlContext', () => {
+  beforeEach(() => {
+    clearContext();
+    setContextValue('workspaceId', 'ws_123');
+    setContextValue('limit', 25);
+  });
+
+  it('should clear a single context variable', () => {
+    const result = handler({ key: 'workspaceId' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe("Cleared context 'workspaceId'");
+    expect(getContextValue('workspaceId')).toBeUndefined();
+    expect(getContextValue('limit')).toBe(25);
+  });
+
+  it('should handle keys that are not set gracefully', () => {
+    const result = handler({ key: 'missing' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe("Context 'missing' was not set");
+  });
+
+  it('should clear all context when no key is given', () => {
+    const result = handler({});
+
+    expect(result.content[0]?.text).toBe('Cleared 2 context variables');
+    expect(getAllContext()).toEqual([]);
+  });
+
+  it('should remove cleared values from persistent context', () => {
+    setContextValue('orgId', 'org_1', true);
+
+    handler({ key: 'orgId' });
+
+    expect(savePersistentContextFile).toHaveBeenLastCalledWith({});
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { scheduleEnumerationRefresh, stopEnumerationRefresh } from '../../src/dynamicEnumerationRefresh.js';
+import { getEnumerationStatus, setEnumerationOptions } from '../../src/dynamicEnumerations.js';
+import { refreshToolsUsingType } from '../../src/dynamicToolHandler.js';
+import { loadAllTypes, loadToolFromFile, loadTypeFromFile, saveTypeToFile } from '../../src/storage.js';
+import { handler } from '../../src/tools/createGraphqlType.js';
+
+const mockRegisteredTools = new Map();
+
+vi.mock('../../src/server.js', () => ({
+  get registeredTools(): Map<string, unknown> { return mockRegisteredTools; },
+}));
+
+vi.mock('../../src/dynamicEnumerationRefresh.js', () => ({
+  scheduleEnumerationRefresh: vi.fn(),
+  stopEnumerationRefresh: vi.fn(),
+}));
+
+vi.mock('../../src/dynamicToolHandler.js', () => ({
+  refreshToolsUsingType: vi.fn(() => []),
+}));
+
+vi.mock('../../src/storage.js', () => ({
+  loadAllTypes: vi.fn(() => new Map()),
+  loadToolFromFile: vi.fn(() => null),
+  loadTypeFromFile: vi.fn(() => null),
+  saveTypeToFile: vi.fn(),
+}));
+
+const priorityDefinition = {
+  type: 'string',
+  oneOf: [
+    { const: 'LOW', description: 'Can wait' },
+    { const: 'HIGH', description: 'Needs attention today' },
+  ],
+};
+
+describe('createGraphqlType', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create a new type', () => {
+    const result = handler({ type_name: 'Priority', type_definition: priorityDefinition });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe(
+      'Successfully created type \'Priority\'. Reference it in a parameter_schema with {"$ref": "types/Priority.json"}'
+    );
+    expect(saveTypeToFile).toHaveBeenCalledWith('Priority', { name: 'Priority', type_definition: priorityDefinition });
+  });
+
+  it('should refuse to overwrite an existing type by default', () => {
+    vi.mocked(loadTypeFromFile).mockReturnValueOnce({ name: 'Priority', type_definition: { type: 'string' } });
+
+    const result = handler({ type_name: 'Priority', type_definition: priorityDefinition });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Type with name 'Priority' already exists. Set overwrite=true to update it.");
+    expect(saveTypeToFile).not.toHaveBeenCalled();
+  });
+
+  it('should update an existing type when overwrite is set', () => {
+    vi.mocked(loadTypeFromFile).mockReturnValueOnce({ name: 'Priority', type_definition: { type: 'string' } });
+
+    const result = handler({ type_name: 'Priority', type_definition: priorityDefinition, overwrite: true });
+
+    expect(result.content[0]?.text).toContain("Successfully updated type 'Priority'");
+    expect(saveTypeToFile).toHaveBeenCalledOnce();
+  });
+
+  it('should update registered tools that use an updated type', () => {
+    vi.mocked(loadTypeFromFile).mockReturnValueOnce({ name: 'Priority', type_definition: { type: 'string' } });
+    vi.mocked(refreshToolsUsingType).mockReturnValueOnce(['create_issue', 'list_issues']);
+
+    const result = handler({ type_name: 'Priority', type_definition: priorityDefinition, overwrite: true });
+
+    expect(refreshToolsUsingType).toHaveBeenCalledWith('Priority', mockRegisteredTools);
+    expect(result.content[0]?.text).toContain('Updated 2 dependent tools: create_issue, list_issues');
+  });
+
+  it('should not update tools when creating a new type', () => {
+    handler({ type_name: 'Priority', type_definition: priorityDefinition });
+
+    expect(refreshToolsUsingType).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid JSON Schema definitions', () => {
+    const result = handler({ type_name: 'Broken', type_definition: { type: 'not-a-type' } });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Invalid type_definition: must be a valid JSON Schema object');
+    expect(saveTypeToFile).not.toHaveBeenCalled();
+  });
+
+  it('should allow references to other existing types', () => {
+    vi.mocked(loadAllTypes).mockReturnValueOnce(new Map([
+      ['Priority', { name: 'Priority', type_definition: priorityDefinition }],
+    ]));
+
+    const result = handler({
+      type_name: 'PriorityList',
+      type_definition: { type: 'array', items: { $ref: 'types/Priority.json' } },
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(saveTypeToFile).toHaveBeenCalledOnce();
+  });
+
+  it('should reject references to unknown types', () => {
+    const result = handler({
+      type_name: 'PriorityList',
+      type_definition: { type: 'array', items: { $ref: 'types/Priority.json' } },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Unknown type 'Priority' referenced by $ref 'types/Priority.json'");
+  });
+
+  it('should reject types that reference themselves', () => {
+    const result = handler({
+      type_name: 'Tree',
+      type_definition: { type: 'array', items: { $ref: 'types/Tree.json' } },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Circular reference: Tree -> Tree');
+  });
+
+  describe('types populated from a saved query', () => {
+    const source = { tool_name: 'list_workspace_users', items_path: 'workspace.users.nodes', name_path: 'name', value_path: 'id' };
+
+    beforeEach(() => {
+      vi.mocked(loadToolFromFile).mockReturnValue({
+        name: 'list_workspace_users',
+        description: 'List workspace users',
+        graphql_query: 'query { workspace { users { nodes { id name } } } }',
+        parameter_schema: {},
+        variables: [],
+      });
+    });
+
+    it('should save the source and start loading the values', () => {
+      const result = handler({ type_name: 'WorkspaceUser', source });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0]?.text).toContain(
+        "Its values are being loaded from 'list_workspace_users' in the background; run refresh_graphql_type to load them now"
+      );
+      const typeConfig = { name: 'WorkspaceUser', type_definition: {}, source };
+      expect(saveTypeToFile).toHaveBeenCalledWith('WorkspaceUser', typeConfig);
+      expect(scheduleEnumerationRefresh).toHaveBeenCalledWith(typeConfig, mockRegisteredTools);
+    });
+
+    it('should keep a given type_definition alongside the source', () => {
+      handler({ type_name: 'WorkspaceUser', type_definition: { type: 'string', description: 'A workspace member' }, source });
+
+      expect(saveTypeToFile).toHaveBeenCalledWith('WorkspaceUser', {
+        name: 'WorkspaceUser',
+        type_definition: { type: 'string', description: 'A workspace member' },
+        source,
+      });
+    });
+
+    it('should require a type_definition or a source', () => {
+      const result = handler({ type_name: 'WorkspaceUser' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Provide a type_definition, a source, or both');
+    });
+
+    it('should reject sources whose saved tool does not exist', () => {
+      vi.mocked(loadToolFromFile).mockReturnValueOnce(null);
+
+      const result = handler({ type_name: 'WorkspaceUser', source });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("Invalid source: saved tool 'list_workspace_users' not found");
+      expect(saveTypeToFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid paths', () => {
+      const result = handler({ type_name: 'WorkspaceUser', source: { ...source, value_path: 'nodes[' } });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("Invalid source: Invalid value_path: Invalid path 'nodes['");
+    });
+
+    it('should discard values loaded from a previous source', () => {
+      vi.mocked(loadTypeFromFile).mockReturnValueOnce({ name: 'WorkspaceUser', type_definition: {}, source });
+      setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }]);
+
+      handler({ type_name: 'WorkspaceUser', source: { ...source, tool_name: 'list_project_members' }, overwrite: true });
+
+      expect(stopEnumerationRefresh).toHaveBeenCalledWith('WorkspaceUser');
+      expect(getEnumerationStatus('WorkspaceUser')).toBeNull();
+    });
+
+    it('should keep loaded values when the source is unchanged', () => {
+      vi.mocked(loadTypeFromFile).mockReturnValueOnce({ name: 'WorkspaceUser', type_definition: {}, source });
+      setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }]);
+
+      handler({ type_name: 'WorkspaceUser', type_definition: { type: 'string' }, source, overwrite: true });
+
+      expect(stopEnumerationRefresh).not.toHaveBeenCalled();
+      expect(getEnumerationStatus('WorkspaceUser')?.options).toEqual([{ name: 'John Doe', value: 'user_1' }]);
+    });
+  });
+});
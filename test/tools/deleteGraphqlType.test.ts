@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { stopEnumerationRefresh } from '../../src/dynamicEnumerationRefresh.js';
+import { getEnumerationStatus, setEnumerationOptions } from '../../src/dynamicEnumerations.js';
+import { deleteTypeFile, loadAllTools, loadAllTypes, loadTypeFromFile } from '../../src/storage.js';
+import { handler } from '../../src/tools/deleteGraphqlType.js';
+import type { SavedToolConfig } from '../../src/types.js';
+
+vi.mock('../../src/dynamicEnumerationRefresh.js', () => ({
+  stopEnumerationRefresh: vi.fn(),
+}));
+
+vi.mock('../../src/storage.js', () => ({
+  deleteTypeFile: vi.fn(),
+  loadAllTools: vi.fn(() => new Map()),
+  loadAllTypes: vi.fn(() => new Map()),
+  loadTypeFromFile: vi.fn(),
+}));
+
+function toolUsing(name: string, propertySchema: Record<string, unknown>): SavedToolConfig {
+  return {
+    name,
+    description: name,
+    graphql_query: 'query Q($priority: Priority) { issues(priority: $priority) { id } }',
+    parameter_schema: { type: 'object', properties: { priority: propertySchema } },
+    variables: [{ name: 'priority', type: 'Priority', required: false }],
+  };
+}
+
+describe('deleteGraphqlType', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadTypeFromFile).mockReturnValue({ name: 'Priority', type_definition: { type: 'string' } });
+  });
+
+  it('should delete an unreferenced type', () => {
+    vi.mocked(loadAllTools).mockReturnValueOnce(new Map([
+      ['list_issues', toolUsing('list_issues', { type: 'string' })],
+    ]));
+
+    const result = handler({ type_name: 'Priority' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe("Successfully deleted type 'Priority'");
+    expect(deleteTypeFile).toHaveBeenCalledWith('Priority');
+  });
+
+  it('should stop loading the values of a type populated from a saved query', () => {
+    setEnumerationOptions('Priority', [{ name: 'Low', value: 'LOW' }]);
+
+    handler({ type_name: 'Priority' });
+
+    expect(stopEnumerationRefresh).toHaveBeenCalledWith('Priority');
+    expect(getEnumerationStatus('Priority')).toBeNull();
+  });
+
+  it('should report unknown types', () => {
+    vi.mocked(loadTypeFromFile).mockReturnValueOnce(null);
+
+    const result = handler({ type_name: 'Missing' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Type 'Missing' not found");
+    expect(deleteTypeFile).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to delete a type referenced by saved tools', () => {
+    vi.mocked(loadAllTools).mockReturnValueOnce(new Map([
+      ['list_issues', toolUsing('list_issues', { $ref: 'types/Priority.json' })],
+      ['create_issue', toolUsing('create_issue', { type: 'array', items: { $ref: 'types/Priority.json' } })],
+      ['get_issue', toolUsing('get_issue', { type: 'string' })],
+    ]));
+
+    const result = handler({ type_name: 'Priority' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain(
+      "Cannot delete type 'Priority': it is referenced by saved tools: create_issue, list_issues"
+    );
+    expect(deleteTypeFile).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to delete a type referenced by other types', () => {
+    vi.mocked(loadAllTypes).mockReturnValueOnce(new Map([
+      ['Priority', { name: 'Priority', type_definition: { type: 'string' } }],
+      ['PriorityList', { name: 'PriorityList', type_definition: { type: 'array', items: { $ref: 'types/Priority.json' } } }],
+    ]));
+
+    const result = handler({ type_name: 'Priority' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Cannot delete type 'Priority': it is referenced by types: PriorityList");
+    expect(deleteTypeFile).not.toHaveBeenCalled();
+  });
+
+  it('should list both referencing tools and types', () => {
+    vi.mocked(loadAllTools).mockReturnValueOnce(new Map([
+      ['list_issues', toolUsing('list_issues', { $ref: 'types/Priority.json' })],
+    ]));
+    vi.mocked(loadAllTypes).mockReturnValueOnce(new Map([
+      ['PriorityList', { name: 'PriorityList', type_definition: { type: 'array', items: { $ref: 'types/Priority.json' } } }],
+    ]));
+
+    const result = handler({ type_name: 'Priority' });
+
+    expect(result.content[0]?.text).toContain('it is referenced by saved tools: list_issues; types: PriorityList');
+  });
+});
@@ -1,18 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
-import { deleteToolFile } from '../../src/storage.js';
+import { deleteToolFile, hasToolFile } from '../../src/storage.js';
 
 // Mock the client
-vi.mock('../../src/client.js', () => ({
-  client: {
-    request: vi.fn(),
-  },
-}));
+vi.mock('../../src/client.js', () => {
+  const client = { request: vi.fn() };
+  return {
+    describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+    getClient: vi.fn(() => client),
+    resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+  };
+});
 
 // Mock the storage module
 vi.mock('../../src/storage.js', () => ({
   deleteToolFile: vi.fn(),
   ensureDataDirectory: vi.fn(),
+  hasToolFile: vi.fn(() => false),
 }));
 
 // Mock the dynamic tool handler
@@ -121,6 +125,17 @@ describe('deleteSavedQuery', () => {
     expect(deleteToolFile).not.toHaveBeenCalled();
   });
 
+  it('should delete the file of a saved query that failed to register', () => {
+    vi.mocked(hasToolFile).mockReturnValueOnce(true);
+
+    const result = handler({ tool_name: 'unregistered_query' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe("Successfully deleted saved query 'unregistered_query'");
+    expect(hasToolFile).toHaveBeenCalledWith('unregistered_query');
+    expect(deleteToolFile).toHaveBeenCalledWith('unregistered_query');
+  });
+
   it('should maintain atomicity: MCP removal before file deletion', () => {
     const callOrder: string[] = [];
     const mockRemove = vi.fn(() => {
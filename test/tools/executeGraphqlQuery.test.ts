@@ -1,14 +1,19 @@
+import { ClientError } from 'graphql-request';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
+import { getClient } from '../../src/client.js';
 import { handler } from '../../src/tools/executeGraphqlQuery.js';
 
-vi.mock('../../src/client.js', () => ({
-  client: {
-    request: vi.fn(),
-  },
-}));
+vi.mock('../../src/client.js', () => {
+  const client = { request: vi.fn() };
+  return {
+    describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+    getClient: vi.fn(() => client),
+    resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+  };
+});
 
-const mockClient = vi.mocked(await import('../../src/client.js')).client;
+const mockClient = vi.mocked(getClient());
 
 describe('executeGraphqlQuery handler', () => {
   beforeEach(() => {
@@ -259,4 +264,69 @@ describe('executeGraphqlQuery handler', () => {
     expect(result.isError).toBe(true);
     expect(result.content[0].text).toContain('Invalid JSON in variables parameter');
   });
+
+  it('should return partial data together with the GraphQL errors', async () => {
+    mockClient.request.mockRejectedValueOnce(new ClientError(
+      {
+        data: { user: { name: 'John', orders: null } },
+        errors: [{ message: 'Orders service timed out', path: ['user', 'orders'] }],
+        status: 200,
+        headers: new Headers(),
+      } as ConstructorParameters<typeof ClientError>[0],
+      { query: 'query { user { name orders { id } } }' }
+    ));
+
+    const result = await handler({ query: 'query { user { name orders { id } } }' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('Partial data with 1 error (upstream execution error, HTTP 200).');
+    expect(result.content[0].text).toContain('Orders service timed out');
+    expect(result.content[0].text).toContain('"name": "John"');
+  });
+
+  it('should report requests rejected by the API as tool configuration errors', async () => {
+    mockClient.request.mockRejectedValueOnce(new ClientError(
+      {
+        errors: [{ message: 'Cannot query field "nme" on type "User".', locations: [{ line: 1, column: 16 }] }],
+        status: 400,
+        headers: new Headers(),
+      } as ConstructorParameters<typeof ClientError>[0],
+      { query: 'query { user { nme } }' }
+    ));
+
+    const result = await handler({ query: 'query { user { nme } }' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Tool configuration error (HTTP 400)');
+    expect(result.content[0].text).toContain('"line": 1');
+  });
+
+  it('should send only the chosen operation when operationName is given', async () => {
+    mockClient.request.mockResolvedValueOnce({ users: [] });
+    const query = 'query GetUser($id: ID!) { user(id: $id) { ...UserFields } } query ListUsers { users { ...UserFields } } fragment UserFields on User { name }';
+
+    const result = await handler({ query, operationName: 'ListUsers' });
+
+    expect(result.isError).toBeUndefined();
+    const sentQuery = mockClient.request.mock.calls[0]?.[0] as string;
+    expect(sentQuery).toContain('query ListUsers');
+    expect(sentQuery).toContain('fragment UserFields on User');
+    expect(sentQuery).not.toContain('GetUser');
+  });
+
+  it('should return an error for an unknown operationName', async () => {
+    const result = await handler({ query: 'query GetUser { user { name } }', operationName: 'ListUsers' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Operation 'ListUsers' not found; the document contains: GetUser");
+    expect(mockClient.request).not.toHaveBeenCalled();
+  });
+
+  it('should send the query to the named endpoint', async () => {
+    mockClient.request.mockResolvedValueOnce({ viewer: { login: 'octocat' } });
+
+    await handler({ query: '{ viewer { login } }', endpoint: 'github' });
+
+    expect(getClient).toHaveBeenCalledWith('github');
+  });
 });
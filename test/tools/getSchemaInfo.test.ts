@@ -0,0 +1,74 @@
+import { buildSchema } from 'graphql';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { getSchema } from '../../src/schemaService.js';
+import { handler } from '../../src/tools/getSchemaInfo.js';
+
+vi.mock('../../src/client.js', () => ({
+  describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+}));
+
+vi.mock('../../src/schemaService.js', () => ({
+  getSchema: vi.fn(),
+}));
+
+const schema = buildSchema(`
+  type User {
+    id: ID!
+    name: String
+  }
+
+  type Query {
+    user(id: ID!): User
+  }
+`);
+
+describe('getSchemaInfo', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSchema).mockResolvedValue(schema);
+  });
+
+  it('should return a schema overview when no type is given', async () => {
+    const result = await handler({});
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe('## Query\n- user(id: ID!): User\n\n## Objects (1)\nUser');
+  });
+
+  it('should return details for a named type', async () => {
+    const result = await handler({ type_name: 'User' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe('type User\n\nFields:\n- id: ID!\n- name: String');
+  });
+
+  it('should report unknown types', async () => {
+    const result = await handler({ type_name: 'Account' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Type 'Account' not found in schema");
+  });
+
+  it('should suggest types that differ only in case', async () => {
+    const result = await handler({ type_name: 'user' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Type 'user' not found in schema. Did you mean 'User'?");
+  });
+
+  it('should use the named endpoint\'s schema', async () => {
+    await handler({ type_name: 'User', endpoint: 'github' });
+
+    expect(getSchema).toHaveBeenCalledWith('github');
+  });
+
+  it('should report when the schema is unavailable', async () => {
+    vi.mocked(getSchema).mockResolvedValueOnce(null);
+
+    const result = await handler({});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Schema is unavailable: introspection failed or is disabled');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { clearContext, setContextValue } from '../../src/contextStore.js';
+import { handler } from '../../src/tools/listGraphqlContext.js';
+
+vi.mock('../../src/storage.js', () => ({
+  loadPersistentContextFile: vi.fn(() => ({})),
+  savePersistentContextFile: vi.fn(),
+}));
+
+describe('listGraphqlContext', () => {
+  beforeEach(() => {
+    clearContext();
+  });
+
+  it('should report when no context is set', () => {
+    const result = handler();
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe('No context variables set.');
+  });
+
+  it('should list a single context variable', () => {
+    setContextValue('workspaceId', 'ws_123');
+
+    expect(handler().content[0]?.text).toBe('Found 1 context variable:\n\n- **workspaceId**: "ws_123"');
+  });
+
+  it('should list all context variables sorted by key', () => {
+    setContextValue('workspaceId', 'ws_123', true);
+    setContextValue('limit', 25);
+    setContextValue('archived', false);
+
+    expect(handler().content[0]?.text).toBe(
+      'Found 3 context variables:\n\n- **archived**: false\n- **limit**: 25\n- **workspaceId**: "ws_123" (persistent)'
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { clearEnumerationOptions, setEnumerationError, setEnumerationOptions } from '../../src/dynamicEnumerations.js';
+import { loadAllTypes } from '../../src/storage.js';
+import { handler } from '../../src/tools/listGraphqlTypes.js';
+
+vi.mock('../../src/storage.js', () => ({
+  loadAllTypes: vi.fn(() => new Map()),
+}));
+
+describe('listGraphqlTypes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report when no types exist', () => {
+    const result = handler();
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe('No custom types found.');
+  });
+
+  it('should list types sorted by name with their definitions', () => {
+    vi.mocked(loadAllTypes).mockReturnValueOnce(new Map([
+      ['Status', { name: 'Status', type_definition: { type: 'string', enum: ['OPEN', 'CLOSED'] } }],
+      ['Priority', { name: 'Priority', type_definition: { type: 'string', enum: ['LOW', 'HIGH'] } }],
+    ]));
+
+    const text = handler().content[0]?.text ?? '';
+
+    expect(text).toMatch(/^Found 2 custom types:\n\n/);
+    expect(text.indexOf('**Priority**')).toBeLessThan(text.indexOf('**Status**'));
+    expect(text).toContain('- **Priority** (`types/Priority.json`):\n```json\n');
+    expect(text).toContain(JSON.stringify({ type: 'string', enum: ['OPEN', 'CLOSED'] }, null, 2));
+  });
+
+  it('should use the singular for a single type', () => {
+    vi.mocked(loadAllTypes).mockReturnValueOnce(new Map([
+      ['Priority', { name: 'Priority', type_definition: { type: 'string' } }],
+    ]));
+
+    expect(handler().content[0]?.text).toMatch(/^Found 1 custom type:/);
+  });
+
+  it('should describe where types populated from a saved query get their values', () => {
+    const source = { tool_name: 'list_workspace_users', name_path: 'name', value_path: 'id' };
+    vi.mocked(loadAllTypes).mockReturnValue(new Map([
+      ['WorkspaceUser', { name: 'WorkspaceUser', type_definition: {}, source }],
+    ]));
+    clearEnumerationOptions();
+
+    expect(handler().content[0]?.text).toContain(
+      '- **WorkspaceUser** (`types/WorkspaceUser.json`), values from `list_workspace_users` (not loaded yet):\n'
+    );
+
+    setEnumerationOptions('WorkspaceUser', [{ name: 'John Doe', value: 'user_1' }]);
+    setEnumerationError('WorkspaceUser', 'Network error');
+
+    expect(handler().content[0]?.text).toMatch(
+      /values from `list_workspace_users` \(1 loaded at \d{4}-\d{2}-\d{2}T[\d:.]+Z; last load failed: Network error\):/
+    );
+  });
+
+  it('should report storage errors', () => {
+    vi.mocked(loadAllTypes).mockImplementationOnce(() => {
+      throw new Error('Failed to load types from directory: EACCES');
+    });
+
+    const result = handler();
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Failed to load types from directory: EACCES');
+  });
+});
@@ -3,11 +3,14 @@ import { describe, expect, it, vi, beforeEach } from 'vitest';
 import type { SavedToolConfig } from '../../src/types.js';
 
 // Mock the client
-vi.mock('../../src/client.js', () => ({
-  client: {
-    request: vi.fn(),
-  },
-}));
+vi.mock('../../src/client.js', () => {
+  const client = { request: vi.fn() };
+  return {
+    describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+    getClient: vi.fn(() => client),
+    resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+  };
+});
 
 // Mock the storage module
 const mockSavedTools = new Map();
@@ -59,7 +62,7 @@ describe('listSavedQueries', () => {
       description: 'Get user by ID',
       graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name email } }',
       parameter_schema: {},
-      variables: ['id'],
+      variables: [{ name: 'id', type: 'ID!', required: true }],
     });
     
     mockSavedTools.set('complex_query', {
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { clearCachedResponses, getCacheStats } from '../../src/responseCache.js';
+import { handler } from '../../src/tools/manageResponseCache.js';
+
+vi.mock('../../src/responseCache.js', () => ({
+  clearCachedResponses: vi.fn(),
+  getCacheStats: vi.fn(),
+}));
+
+describe('manageResponseCache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should describe an empty in-memory cache', () => {
+    vi.mocked(getCacheStats).mockReturnValue({
+      persistent: false,
+      location: 'memory',
+      entries: 0,
+      totalBytes: 0,
+      maxEntries: 1000,
+      maxBytes: 5 * 1024 * 1024,
+      tools: [],
+    });
+
+    const result = handler({ action: 'inspect' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe('Response cache (in memory)\nEntries: 0 / 1000\nSize: 0 B / 5.0 MB');
+  });
+
+  it('should list cached entries per tool for a persistent cache', () => {
+    vi.mocked(getCacheStats).mockReturnValue({
+      persistent: true,
+      location: './data/cache/responses.json',
+      entries: 3,
+      totalBytes: 2048,
+      maxEntries: 1000,
+      maxBytes: 5 * 1024 * 1024,
+      tools: [
+        { toolName: 'get_user', entries: 2, bytes: 2000, oldestAgeSeconds: 120 },
+        { toolName: 'get_team', entries: 1, bytes: 48, oldestAgeSeconds: 5 },
+      ],
+    });
+
+    const text = handler({ action: 'inspect' }).content[0]?.text;
+
+    expect(text).toContain('Response cache (persistent: ./data/cache/responses.json)');
+    expect(text).toContain('Size: 2.0 KB / 5.0 MB');
+    expect(text).toContain('- **get_user**: 2 entries, 2.0 KB, oldest 120s');
+    expect(text).toContain('- **get_team**: 1 entry, 48 B, oldest 5s');
+  });
+
+  it('should purge all cached responses', () => {
+    vi.mocked(clearCachedResponses).mockReturnValue(4);
+
+    const result = handler({ action: 'purge' });
+
+    expect(clearCachedResponses).toHaveBeenCalledWith(undefined);
+    expect(result.content[0]?.text).toBe('Purged 4 cached responses');
+  });
+
+  it('should purge cached responses for a single tool', () => {
+    vi.mocked(clearCachedResponses).mockReturnValue(1);
+
+    const result = handler({ action: 'purge', tool_name: 'get_user' });
+
+    expect(clearCachedResponses).toHaveBeenCalledWith('get_user');
+    expect(result.content[0]?.text).toBe("Purged 1 cached response for 'get_user'");
+  });
+
+  it('should report errors from the cache', () => {
+    vi.mocked(getCacheStats).mockImplementation(() => {
+      throw new Error('Cache unavailable');
+    });
+
+    const result = handler({ action: 'inspect' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Error inspecting response cache: Cache unavailable');
+  });
+});
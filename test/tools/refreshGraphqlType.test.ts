@@ -0,0 +1,93 @@
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { refreshEnumeration } from '../../src/dynamicEnumerationRefresh.js';
+import { loadAllTypes } from '../../src/storage.js';
+import { handler } from '../../src/tools/refreshGraphqlType.js';
+
+const mockRegisteredTools = new Map<string, RegisteredTool>();
+
+vi.mock('../../src/server.js', () => ({
+  get registeredTools(): Map<string, RegisteredTool> { return mockRegisteredTools; },
+}));
+
+vi.mock('../../src/dynamicEnumerationRefresh.js', () => ({
+  refreshEnumeration: vi.fn(),
+}));
+
+vi.mock('../../src/storage.js', () => ({
+  loadAllTypes: vi.fn(() => new Map()),
+}));
+
+const source = { tool_name: 'list_workspace_users', name_path: 'name', value_path: 'id' };
+
+describe('refreshGraphqlType', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(refreshEnumeration).mockImplementation((typeName: string) => Promise.resolve({
+      typeName,
+      toolName: 'list_workspace_users',
+      options: [{ name: 'John Doe', value: 'user_1' }, { name: 'Jane Smith', value: 'user_2' }],
+      changed: true,
+      updatedTools: ['assign_issue', 'list_issues'],
+    }));
+  });
+
+  it('should reload one type and list the updated tools', async () => {
+    const result = await handler({ type_name: 'WorkspaceUser' });
+
+    expect(refreshEnumeration).toHaveBeenCalledWith('WorkspaceUser', mockRegisteredTools);
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe(
+      "Loaded 2 values for type 'WorkspaceUser' from 'list_workspace_users'. Updated assign_issue, list_issues."
+    );
+  });
+
+  it('should say when the values are unchanged', async () => {
+    vi.mocked(refreshEnumeration).mockResolvedValueOnce({
+      typeName: 'WorkspaceUser',
+      toolName: 'list_workspace_users',
+      options: [{ name: 'John Doe', value: 'user_1' }],
+      changed: false,
+      updatedTools: [],
+    });
+
+    const result = await handler({ type_name: 'WorkspaceUser' });
+
+    expect(result.content[0]?.text).toBe("Loaded 1 value for type 'WorkspaceUser' from 'list_workspace_users', unchanged.");
+  });
+
+  it('should report failures for a single type as errors', async () => {
+    vi.mocked(refreshEnumeration).mockRejectedValueOnce(new Error("Type 'Priority' is not populated from a saved query"));
+
+    const result = await handler({ type_name: 'Priority' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain("Type 'Priority' is not populated from a saved query");
+  });
+
+  it('should reload every type populated from a saved query', async () => {
+    vi.mocked(loadAllTypes).mockReturnValueOnce(new Map([
+      ['WorkspaceUser', { name: 'WorkspaceUser', type_definition: {}, source }],
+      ['Priority', { name: 'Priority', type_definition: { type: 'string' } }],
+      ['Project', { name: 'Project', type_definition: {}, source: { ...source, tool_name: 'list_projects' } }],
+    ]));
+    vi.mocked(refreshEnumeration).mockRejectedValueOnce(new Error("Failed to load values for type 'Project' from 'list_projects': Network error"));
+
+    const result = await handler();
+
+    expect(refreshEnumeration).toHaveBeenCalledTimes(2);
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe([
+      "Failed to load values for type 'Project' from 'list_projects': Network error",
+      "Loaded 2 values for type 'WorkspaceUser' from 'list_workspace_users'. Updated assign_issue, list_issues.",
+    ].join('\n'));
+  });
+
+  it('should report when no types are populated from saved queries', async () => {
+    const result = await handler({});
+
+    expect(result.content[0]?.text).toBe('No types are populated from saved queries.');
+    expect(refreshEnumeration).not.toHaveBeenCalled();
+  });
+});
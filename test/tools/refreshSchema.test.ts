@@ -0,0 +1,90 @@
+import { buildSchema } from 'graphql';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { refreshSchema } from '../../src/schemaService.js';
+import { handler } from '../../src/tools/refreshSchema.js';
+
+vi.mock('../../src/client.js', () => ({
+  describeEndpoints: (): string => 'Configured endpoints: default, github (default: default)',
+  getDefaultEndpointName: (): string => 'default',
+  resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+}));
+
+vi.mock('../../src/schemaService.js', () => ({
+  refreshSchema: vi.fn(),
+}));
+
+const schema = buildSchema(`
+  type User {
+    id: ID!
+  }
+
+  type Query {
+    user(id: ID!): User
+  }
+`);
+
+describe('refreshSchema', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report a first load', async () => {
+    vi.mocked(refreshSchema).mockResolvedValue({ schema, source: 'introspection', changes: null });
+
+    const result = await handler();
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe('Schema loaded: 5 types.');
+  });
+
+  it('should report when nothing changed', async () => {
+    vi.mocked(refreshSchema).mockResolvedValue({ schema, source: 'introspection', changes: { breaking: [], dangerous: [], safe: [] } });
+
+    const result = await handler();
+
+    expect(result.content[0]?.text).toBe('Schema refreshed: 5 types, no changes since the previous schema.');
+  });
+
+  it('should list changes by severity', async () => {
+    vi.mocked(refreshSchema).mockResolvedValue({
+      schema,
+      source: 'introspection',
+      changes: { breaking: ['User.name was removed.'], dangerous: [], safe: ['Query.user was added.'] },
+    });
+
+    const result = await handler();
+
+    expect(result.content[0]?.text).toBe(
+      'Schema refreshed: 5 types, 2 changes since the previous schema.\n\n' +
+        'Breaking changes (1):\n- User.name was removed.\n\n' +
+        'Safe changes (1):\n- Query.user was added.'
+    );
+  });
+
+  it('should say when the schema came from the schema file', async () => {
+    vi.mocked(refreshSchema).mockResolvedValue({ schema, source: 'file', changes: null });
+
+    const result = await handler();
+
+    expect(result.content[0]?.text).toBe('Schema loaded from the schema file: 5 types.');
+  });
+
+  it('should name endpoints other than the default', async () => {
+    vi.mocked(refreshSchema).mockResolvedValue({ schema, source: 'introspection', changes: { breaking: [], dangerous: [], safe: [] } });
+
+    const result = await handler({ endpoint: 'github' });
+
+    expect(refreshSchema).toHaveBeenCalledWith('github');
+    expect(result.content[0]?.text).toBe("Schema for endpoint 'github' refreshed: 5 types, no changes since the previous schema.");
+  });
+
+  it('should report failed refreshes', async () => {
+    vi.mocked(refreshSchema).mockRejectedValue(new Error('Failed to fetch schema: Network error'));
+
+    const result = await handler();
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Failed to fetch schema: Network error');
+  });
+});
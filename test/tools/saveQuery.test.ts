@@ -1,7 +1,9 @@
 import { type McpServer, type RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildSchema } from 'graphql';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
-import { saveToolToFile } from '../../src/storage.js';
+import { getSchema, validateGraphQLQuery } from '../../src/schemaService.js';
+import { loadAllTypes, saveToolToFile } from '../../src/storage.js';
 import { handler } from '../../src/tools/saveQuery.js';
 
 // Create mock objects at module level
@@ -10,19 +12,24 @@ const mockServer = { registerTool: vi.fn(() => mockRegisteredTool) };
 const mockRegisteredTools = new Map();
 
 // Mock modules before imports
-vi.mock('../../src/client.js', () => ({
-  client: {
-    request: vi.fn(),
-  },
-}));
+vi.mock('../../src/client.js', () => {
+  const client = { request: vi.fn() };
+  return {
+    describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+    getClient: vi.fn(() => client),
+    resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+  };
+});
 
 vi.mock('../../src/storage.js', () => ({
   saveToolToFile: vi.fn(),
   ensureDataDirectory: vi.fn(),
+  loadAllTypes: vi.fn(() => new Map()),
 }));
 
 vi.mock('../../src/dynamicToolHandler.js', () => ({
   createDynamicToolHandler: vi.fn(() => vi.fn()),
+  getToolInputSchema: vi.fn(() => ({})),
   registerAllTools: vi.fn(() => new Map()),
 }));
 
@@ -33,6 +40,7 @@ vi.mock('../../src/server.js', () => ({
 
 vi.mock('../../src/schemaService.js', () => ({
   validateGraphQLQuery: vi.fn(() => Promise.resolve({ content: [{ type: 'text', text: 'Valid query' }] })),
+  getSchema: vi.fn(() => Promise.resolve(null)),
 }));
 
 describe('saveQuery', () => {
@@ -70,7 +78,7 @@ describe('saveQuery', () => {
             id: { type: 'string' },
           },
         },
-        variables: ['id'],
+        variables: [{ name: 'id', type: 'ID!', required: true }],
       })
     );
     expect(mockServer.registerTool).toHaveBeenCalledWith(
@@ -127,6 +135,7 @@ describe('saveQuery', () => {
       description: 'Updated description',
       paramsSchema: expect.anything(),
       callback: expect.any(Function),
+      enabled: true,
     });
   });
 
@@ -387,4 +396,281 @@ describe('saveQuery', () => {
     expect(result.isError).toBeUndefined();
     expect(callOrder).toEqual(['saveToolToFile', 'registerTool']);
   });
+
+  it('should persist a valid pagination config', async () => {
+    const paginationConfig = {
+      enabled: true,
+      style: 'relay' as const,
+      page_size: 50,
+      merge_strategy: 'concat_nodes' as const,
+    };
+    const params = {
+      tool_name: 'list_issues',
+      description: 'List issues',
+      graphql_query: 'query ListIssues($first: Int, $after: String) { issues(first: $first, after: $after) { nodes { id } pageInfo { hasNextPage endCursor } } }',
+      parameter_schema: { type: 'object' },
+      pagination_config: paginationConfig,
+    };
+
+    const result = await handler(params);
+
+    expect(result.isError).toBeUndefined();
+    // $first and $after are filled in by pagination
+    expect(result.content[0]?.text).not.toContain('Warning: parameter_schema does not match');
+    expect(saveToolToFile).toHaveBeenCalledWith(
+      'list_issues',
+      expect.objectContaining({ pagination_config: paginationConfig })
+    );
+  });
+
+  it('should reject a pagination config the query cannot support', async () => {
+    const params = {
+      tool_name: 'list_issues',
+      description: 'List issues',
+      graphql_query: 'query ListIssues($first: Int) { issues(first: $first) { nodes { id } } }',
+      parameter_schema: { type: 'object' },
+      pagination_config: {
+        enabled: true,
+        style: 'relay' as const,
+        page_size: 50,
+        merge_strategy: 'concat_nodes' as const,
+      },
+    };
+
+    const result = await handler(params);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('$after variable');
+    expect(saveToolToFile).not.toHaveBeenCalled();
+  });
+
+  it('should persist a valid idempotency config', async () => {
+    const idempotency = { enabled: true, cache_key_params: ['id'], ttl_seconds: 60 };
+    const params = {
+      tool_name: 'cached_user',
+      description: 'Cached user lookup',
+      graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+      parameter_schema: { type: 'object', properties: { id: { type: 'string' } } },
+      idempotency,
+    };
+
+    const result = await handler(params);
+
+    expect(result.isError).toBeUndefined();
+    expect(saveToolToFile).toHaveBeenCalledWith('cached_user', expect.objectContaining({ idempotency }));
+  });
+
+  it('should reject cache_key_params that are not tool parameters', async () => {
+    const params = {
+      tool_name: 'cached_user',
+      description: 'Cached user lookup',
+      graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+      parameter_schema: { type: 'object', properties: { id: { type: 'string' } } },
+      idempotency: { enabled: true, cache_key_params: ['id', 'userId'], ttl_seconds: 60 },
+    };
+
+    const result = await handler(params);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('unknown cache_key_params: userId');
+  });
+
+  it('should reject documents with several operations', async () => {
+    const result = await handler({
+      tool_name: 'user_ops',
+      description: 'User operations',
+      graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name } } query ListUsers { users { name } }',
+      parameter_schema: { type: 'object', properties: { id: { type: 'string' } } },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('The document contains 2 operations (GetUser, ListUsers)');
+    expect(saveToolToFile).not.toHaveBeenCalled();
+  });
+
+  it('should save one operation of a multi-operation document as a tool', async () => {
+    const graphqlQuery = 'query GetUser($id: ID!) { user(id: $id) { name } } query ListUsers($first: Int) { users(first: $first) { name } }';
+
+    const result = await handler({
+      tool_name: 'list_users',
+      description: 'List users',
+      graphql_query: graphqlQuery,
+      operation_name: 'ListUsers',
+    });
+
+    expect(result.content[0]?.text).toContain("Successfully created tool 'list_users' with 1 variables: first");
+    expect(saveToolToFile).toHaveBeenCalledWith('list_users', expect.objectContaining({
+      graphql_query: graphqlQuery,
+      operation_name: 'ListUsers',
+      parameter_schema: { type: 'object', properties: { first: { type: 'integer' } } },
+      variables: [{ name: 'first', type: 'Int', required: false }],
+    }));
+  });
+
+  it('should save the endpoint and validate against its schema', async () => {
+    const result = await handler({
+      tool_name: 'get_viewer',
+      description: 'Get the authenticated GitHub user',
+      graphql_query: 'query GetViewer { viewer { login } }',
+      endpoint: 'github',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(validateGraphQLQuery).toHaveBeenCalledWith('query GetViewer { viewer { login } }', undefined, undefined, 'github');
+    expect(getSchema).toHaveBeenCalledWith('github');
+    expect(saveToolToFile).toHaveBeenCalledWith('get_viewer', expect.objectContaining({ endpoint: 'github' }));
+  });
+
+  it('should reject parameters that use a mapping which is not configured', async () => {
+    const result = await handler({
+      tool_name: 'move_issue',
+      description: 'Move an issue',
+      graphql_query: 'mutation MoveIssue($pipelineId: ID!) { moveIssue(pipelineId: $pipelineId) { id } }',
+      parameter_schema: {
+        type: 'object',
+        properties: { pipelineId: { 'type': 'string', 'x-mapping': 'pipeline_name_to_id' } },
+        required: ['pipelineId'],
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain(
+      "Invalid parameter_schema: parameter 'pipelineId' uses mapping 'pipeline_name_to_id', which is not configured (no mappings are configured)"
+    );
+    expect(saveToolToFile).not.toHaveBeenCalled();
+  });
+
+  it('should only treat declared variables as variables', async () => {
+    const result = await handler({
+      tool_name: 'get_price',
+      description: 'Get a formatted price',
+      graphql_query: 'query GetPrice($id: ID!) { product(id: $id) { price(format: "$0.00 $currency") } }',
+      parameter_schema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+    });
+
+    expect(result.content[0]?.text).toContain("Successfully created tool 'get_price' with 1 variables: id");
+    expect(saveToolToFile).toHaveBeenCalledWith('get_price', expect.objectContaining({
+      variables: [{ name: 'id', type: 'ID!', required: true }],
+    }));
+  });
+
+  describe('generated parameter_schema', () => {
+    const schema = buildSchema(`
+      enum State { OPEN CLOSED }
+      type Issue { id: ID! }
+      type Query { issues(state: State, first: Int): [Issue!]! issue(id: ID!): Issue }
+    `);
+
+    it('should generate parameter_schema from the variable definitions when omitted', async () => {
+      vi.mocked(getSchema).mockResolvedValueOnce(schema);
+
+      const result = await handler({
+        tool_name: 'list_issues',
+        description: 'List issues',
+        graphql_query: 'query ListIssues($state: State!, $first: Int = 10) { issues(state: $state, first: $first) { id } }',
+      });
+
+      const parameterSchema = {
+        type: 'object',
+        properties: {
+          state: { type: 'string', enum: ['OPEN', 'CLOSED'] },
+          first: { type: 'integer', default: 10 },
+        },
+        required: ['state'],
+      };
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0]?.text).toContain("Generated parameter_schema from the query's variable definitions:");
+      expect(result.content[0]?.text).toContain(JSON.stringify(parameterSchema, null, 2));
+      expect(saveToolToFile).toHaveBeenCalledWith('list_issues', expect.objectContaining({ parameter_schema: parameterSchema }));
+    });
+
+    it('should note when the schema is unavailable for generation', async () => {
+      const result = await handler({
+        tool_name: 'get_issue',
+        description: 'Get an issue',
+        graphql_query: 'query GetIssue($id: ID!) { issue(id: $id) { id } }',
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0]?.text).toContain('The GraphQL schema is unavailable');
+      expect(saveToolToFile).toHaveBeenCalledWith('get_issue', expect.objectContaining({
+        parameter_schema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      }));
+    });
+
+    it('should warn when a provided parameter_schema does not match the variables', async () => {
+      vi.mocked(getSchema).mockResolvedValueOnce(schema);
+
+      const result = await handler({
+        tool_name: 'list_issues',
+        description: 'List issues',
+        graphql_query: 'query ListIssues($state: State!) { issues(state: $state) { id } }',
+        parameter_schema: {
+          type: 'object',
+          properties: { state: { type: 'string', enum: ['OPEN', 'MERGED'] }, limit: { type: 'integer' } },
+        },
+      });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0]?.text).toContain("Warning: parameter_schema does not match the query's variable definitions:");
+      expect(result.content[0]?.text).toContain('- $state is non-null in the query but not required in parameter_schema; require it, context values still satisfy required parameters');
+      expect(result.content[0]?.text).toContain('- $state allows values the API does not accept: "MERGED"');
+      expect(result.content[0]?.text).toContain("- 'limit' is in parameter_schema but is not a variable of the query");
+      expect(saveToolToFile).toHaveBeenCalled();
+    });
+
+    it('should not warn when the provided parameter_schema matches', async () => {
+      vi.mocked(getSchema).mockResolvedValueOnce(schema);
+
+      const result = await handler({
+        tool_name: 'get_issue',
+        description: 'Get an issue',
+        graphql_query: 'query GetIssue($id: ID!) { issue(id: $id) { id } }',
+        parameter_schema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      });
+
+      expect(result.content[0]?.text).not.toContain('Warning');
+      expect(result.content[0]?.text).not.toContain('Generated parameter_schema');
+    });
+  });
+
+  describe('custom type references', () => {
+    const params = {
+      tool_name: 'list_issues',
+      description: 'List issues by priority',
+      graphql_query: 'query ListIssues($priority: Priority) { issues(priority: $priority) { id } }',
+      parameter_schema: {
+        type: 'object',
+        properties: {
+          priority: { $ref: 'types/Priority.json' },
+        },
+      },
+    };
+
+    afterEach(() => {
+      vi.mocked(loadAllTypes).mockReturnValue(new Map());
+    });
+
+    it('should save tools that reference existing types', async () => {
+      vi.mocked(loadAllTypes).mockReturnValue(new Map([
+        ['Priority', { name: 'Priority', type_definition: { type: 'string', enum: ['LOW', 'HIGH'] } }],
+      ]));
+
+      const result = await handler(params);
+
+      expect(result.isError).toBeUndefined();
+      // The reference is stored as written so type changes apply to the tool
+      expect(saveToolToFile).toHaveBeenCalledWith('list_issues', expect.objectContaining({
+        parameter_schema: params.parameter_schema,
+      }));
+    });
+
+    it('should reject references to unknown types', async () => {
+      const result = await handler(params);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("Unknown type 'Priority' referenced by $ref 'types/Priority.json'");
+      expect(saveToolToFile).not.toHaveBeenCalled();
+    });
+  });
 });
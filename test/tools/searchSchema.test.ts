@@ -0,0 +1,78 @@
+import { buildSchema } from 'graphql';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { getSchema } from '../../src/schemaService.js';
+import { handler } from '../../src/tools/searchSchema.js';
+
+vi.mock('../../src/client.js', () => ({
+  describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+}));
+
+vi.mock('../../src/schemaService.js', () => ({
+  getSchema: vi.fn(),
+}));
+
+const schema = buildSchema(`
+  "A registered user"
+  type User {
+    id: ID!
+    username: String
+  }
+
+  type Query {
+    user(id: ID!): User
+    users: [User!]!
+  }
+`);
+
+describe('searchSchema', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSchema).mockResolvedValue(schema);
+  });
+
+  it('should list matches with coordinates and signatures', async () => {
+    const result = await handler({ query: 'user' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toMatch(/^Found 4 matches for 'user':\n\n/);
+    expect(result.content[0]?.text).toContain('- **User** (type): `type User` - A registered user');
+    expect(result.content[0]?.text).toContain('- **Query.user** (field): `user(id: ID!): User`');
+  });
+
+  it('should limit the number of matches shown', async () => {
+    const result = await handler({ query: 'user', limit: 2 });
+    const text = result.content[0]?.text ?? '';
+
+    expect(text).toMatch(/^Found 4 matches, showing the best 2, for 'user':/);
+    expect(text.split('\n').filter(line => line.startsWith('- '))).toHaveLength(2);
+  });
+
+  it('should filter by kind', async () => {
+    const result = await handler({ query: 'user', kind: 'type' });
+
+    expect(result.content[0]?.text).toBe("Found 1 match for 'user':\n\n- **User** (type): `type User` - A registered user");
+  });
+
+  it('should report when nothing matches', async () => {
+    const result = await handler({ query: 'zebra' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe("No schema matches found for 'zebra'.");
+  });
+
+  it('should search the named endpoint\'s schema', async () => {
+    await handler({ query: 'user', endpoint: 'github' });
+
+    expect(getSchema).toHaveBeenCalledWith('github');
+  });
+
+  it('should report when the schema is unavailable', async () => {
+    vi.mocked(getSchema).mockResolvedValueOnce(null);
+
+    const result = await handler({ query: 'user' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Schema is unavailable');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { clearContext, getContextEntry, getContextValue } from '../../src/contextStore.js';
+import { savePersistentContextFile } from '../../src/storage.js';
+import { config, handler } from '../../src/tools/setGraphqlContext.js';
+
+vi.mock('../../src/storage.js', () => ({
+  loadPersistentContextFile: vi.fn(() => ({})),
+  savePersistentContextFile: vi.fn(),
+}));
+
+describe('setGraphqlContext', () => {
+  beforeEach(() => {
+    clearContext();
+    vi.clearAllMocks();
+  });
+
+  it('should set a context value', () => {
+    const result = handler({ key: 'workspaceId', value: 'ws_123' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe('Set session-only context \'workspaceId\' to "ws_123"');
+    expect(getContextValue('workspaceId')).toBe('ws_123');
+  });
+
+  it('should report the previous value when overwriting', () => {
+    handler({ key: 'limit', value: 10 });
+    const result = handler({ key: 'limit', value: 20 });
+
+    expect(result.content[0]?.text).toBe("Set session-only context 'limit' to 20 (was 10)");
+    expect(getContextValue('limit')).toBe(20);
+  });
+
+  it('should accept boolean values', () => {
+    handler({ key: 'includeArchived', value: true });
+
+    expect(getContextValue('includeArchived')).toBe(true);
+  });
+
+  it('should persist the value when requested', () => {
+    const result = handler({ key: 'workspaceId', value: 'ws_123', persist: true });
+
+    expect(result.content[0]?.text).toBe('Set persistent context \'workspaceId\' to "ws_123"');
+    expect(getContextEntry('workspaceId')?.persistent).toBe(true);
+    expect(savePersistentContextFile).toHaveBeenCalledWith({ workspaceId: 'ws_123' });
+  });
+
+  it('should keep an existing key persistent when persist is omitted', () => {
+    handler({ key: 'workspaceId', value: 'ws_1', persist: true });
+    const result = handler({ key: 'workspaceId', value: 'ws_2' });
+
+    expect(result.content[0]?.text).toBe('Set persistent context \'workspaceId\' to "ws_2" (was "ws_1")');
+  });
+
+  it('should report errors saving persistent context', () => {
+    vi.mocked(savePersistentContextFile).mockImplementationOnce(() => {
+      throw new Error('Failed to save persistent context: Disk full');
+    });
+
+    const result = handler({ key: 'workspaceId', value: 'ws_123', persist: true });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Failed to save persistent context: Disk full');
+  });
+
+  it('should only accept keys that are valid GraphQL variable names', () => {
+    expect(config.inputSchema.key.safeParse('workspaceId').success).toBe(true);
+    expect(config.inputSchema.key.safeParse('_private').success).toBe(true);
+    expect(config.inputSchema.key.safeParse('$workspaceId').success).toBe(false);
+    expect(config.inputSchema.key.safeParse('workspace-id').success).toBe(false);
+    expect(config.inputSchema.key.safeParse('1st').success).toBe(false);
+  });
+
+  it('should reject unsupported value types', () => {
+    expect(config.inputSchema.value.safeParse({ id: 1 }).success).toBe(false);
+    expect(config.inputSchema.value.safeParse(null).success).toBe(false);
+  });
+});
@@ -1,13 +1,17 @@
 import { describe, expect, it, vi, beforeEach } from 'vitest';
 
 import type { SavedToolConfig } from '../../src/types.js';
+import { clearToolUsage, recordToolCall } from '../../src/usageStats.js';
 
 // Mock the client
-vi.mock('../../src/client.js', () => ({
-  client: {
-    request: vi.fn(),
-  },
-}));
+vi.mock('../../src/client.js', () => {
+  const client = { request: vi.fn() };
+  return {
+    describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+    getClient: vi.fn(() => client),
+    resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+  };
+});
 
 // Mock the storage module
 const mockLoadToolFromFile = vi.fn();
@@ -48,7 +52,7 @@ describe('showSavedQuery', () => {
           id: { type: 'string' }
         }
       },
-      variables: ['id']
+      variables: [{ name: 'id', type: 'ID!', required: true }]
     };
 
     mockRegisteredTools.set('get_user_by_id', {});
@@ -82,7 +86,7 @@ describe('showSavedQuery', () => {
           first: { type: 'number', default: 10 }
         }
       },
-      variables: ['workspaceId', 'first'],
+      variables: [{ name: 'workspaceId', type: 'ID!', required: true }, { name: 'first', type: 'Int', required: false }],
       pagination_config: {
         enabled: true,
         style: 'relay',
@@ -189,7 +193,7 @@ describe('showSavedQuery', () => {
       description: 'Minimal configuration',
       graphql_query: 'query Minimal { field }',
       parameter_schema: { type: 'object' },
-      variables: ['param1'],
+      variables: [{ name: 'param1', type: 'String', required: false }],
       // pagination_config and idempotency are undefined
     };
 
@@ -250,7 +254,7 @@ describe('showSavedQuery', () => {
           }
         }
       },
-      variables: ['filter', 'sort']
+      variables: [{ name: 'filter', type: 'FilterInput!', required: true }, { name: 'sort', type: 'SortInput', required: false }]
     };
 
     mockRegisteredTools.set('complex_params_query', {});
@@ -270,6 +274,27 @@ describe('showSavedQuery', () => {
     expect(text).toContain('"desc"');
   });
 
+  it('should show usage with test calls counted separately', () => {
+    const toolConfig: SavedToolConfig = {
+      name: 'get_user_by_id',
+      description: 'Get user by ID',
+      graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+      parameter_schema: { type: 'object' },
+      variables: [{ name: 'id', type: 'ID!', required: true }],
+    };
+    mockRegisteredTools.set('get_user_by_id', {});
+    mockLoadToolFromFile.mockReturnValue(toolConfig);
+    clearToolUsage();
+    recordToolCall('get_user_by_id', { test: false, failed: true }, Date.UTC(2024, 0, 1));
+    recordToolCall('get_user_by_id', { test: true, failed: false });
+
+    const result = handler({ tool_name: 'get_user_by_id' });
+
+    expect(result.content[0]?.text).toContain(
+      'Usage since the server started: 1 call (1 failed), 1 test call (0 failed). Last called at 2024-01-01T00:00:00.000Z.'
+    );
+  });
+
   it('should maintain consistent response structure', () => {
     const toolConfig: SavedToolConfig = {
       name: 'test_query',
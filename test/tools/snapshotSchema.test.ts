@@ -0,0 +1,128 @@
+import { buildSchema } from 'graphql';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { fetchIntrospectionSchema } from '../../src/schemaService.js';
+import { resolveSchemaSnapshotPath, writeSchemaFile } from '../../src/storage.js';
+import { handler } from '../../src/tools/snapshotSchema.js';
+
+vi.mock('../../src/client.js', () => ({
+  describeEndpoints: (): string => 'Configured endpoints: default, github (default: default)',
+  getDefaultEndpointName: (): string => 'default',
+  resolveEndpointName: (endpoint?: string): string => endpoint ?? 'default',
+}));
+
+vi.mock('../../src/schemaService.js', () => ({
+  fetchIntrospectionSchema: vi.fn(),
+}));
+
+vi.mock('../../src/storage.js', () => ({
+  getDefaultSchemaFilePath: vi.fn((endpoint?: string) => `./data/schema/${endpoint ?? 'schema'}.graphql`),
+  resolveSchemaSnapshotPath: vi.fn((filePath: string, allowedFile?: string) =>
+    filePath === allowedFile ? filePath : `./data/schema/${filePath}`),
+  writeSchemaFile: vi.fn(),
+}));
+
+const schema = buildSchema(`
+  type User {
+    id: ID!
+  }
+
+  type Query {
+    user(id: ID!): User
+  }
+`);
+
+describe('snapshotSchema', () => {
+  let originalEnv: typeof process.env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    originalEnv = { ...process.env };
+    delete process.env['MCP_GRAPHQL_SCHEMA_FILE'];
+    vi.mocked(fetchIntrospectionSchema).mockResolvedValue(schema);
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should save SDL to the default location', async () => {
+    const result = await handler({});
+
+    expect(result.isError).toBeUndefined();
+    expect(writeSchemaFile).toHaveBeenCalledWith('./data/schema/schema.graphql', expect.stringContaining('type User {\n  id: ID!\n}'));
+    expect(result.content[0]?.text).toBe(
+      'Saved SDL for 5 types to ./data/schema/schema.graphql. Set MCP_GRAPHQL_SCHEMA_FILE=./data/schema/schema.graphql to use it when introspection is unavailable.'
+    );
+  });
+
+  it('should save introspection JSON for .json paths', async () => {
+    const result = await handler({ file_path: 'snapshots/api.json' });
+
+    expect(resolveSchemaSnapshotPath).toHaveBeenCalledWith('snapshots/api.json', '');
+    const content = vi.mocked(writeSchemaFile).mock.calls[0]?.[1] ?? '';
+    expect(JSON.parse(content)).toHaveProperty('__schema.queryType.name', 'Query');
+    expect(result.content[0]?.text).toContain('Saved introspection JSON for 5 types to ./data/schema/snapshots/api.json.');
+  });
+
+  it('should reject paths outside the schema directory', async () => {
+    vi.mocked(resolveSchemaSnapshotPath).mockImplementationOnce((filePath: string) => {
+      throw new Error(`Schema file path must stay within ./data/schema: ${filePath}`);
+    });
+
+    const result = await handler({ file_path: '../package.json' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Schema file path must stay within ./data/schema: ../package.json');
+    expect(fetchIntrospectionSchema).not.toHaveBeenCalled();
+    expect(writeSchemaFile).not.toHaveBeenCalled();
+  });
+
+  it('should allow writing to the configured schema file', async () => {
+    process.env['MCP_GRAPHQL_SCHEMA_FILE'] = '/etc/graphql/schema.graphql';
+
+    const result = await handler({ file_path: '/etc/graphql/schema.graphql' });
+
+    expect(resolveSchemaSnapshotPath).toHaveBeenCalledWith('/etc/graphql/schema.graphql', '/etc/graphql/schema.graphql');
+    expect(writeSchemaFile).toHaveBeenCalledWith('/etc/graphql/schema.graphql', expect.any(String));
+    expect(result.content[0]?.text).toBe('Saved SDL for 5 types to /etc/graphql/schema.graphql.');
+  });
+
+  it('should default to the configured schema file', async () => {
+    process.env['MCP_GRAPHQL_SCHEMA_FILE'] = '/etc/graphql/schema.graphql';
+
+    const result = await handler({});
+
+    expect(writeSchemaFile).toHaveBeenCalledWith('/etc/graphql/schema.graphql', expect.any(String));
+    expect(result.content[0]?.text).toBe('Saved SDL for 5 types to /etc/graphql/schema.graphql.');
+  });
+
+  it('should save named endpoints to their own file without the schema file hint', async () => {
+    process.env['MCP_GRAPHQL_SCHEMA_FILE'] = '/etc/graphql/schema.graphql';
+
+    const result = await handler({ endpoint: 'github' });
+
+    expect(fetchIntrospectionSchema).toHaveBeenCalledWith('github');
+    expect(writeSchemaFile).toHaveBeenCalledWith('./data/schema/github.graphql', expect.any(String));
+    expect(result.content[0]?.text).toBe('Saved SDL for 5 types to ./data/schema/github.graphql.');
+  });
+
+  it('should point named endpoints at the file they fall back to', async () => {
+    const result = await handler({ endpoint: 'github', file_path: 'github-staging.graphql' });
+
+    expect(writeSchemaFile).toHaveBeenCalledWith('./data/schema/github-staging.graphql', expect.any(String));
+    expect(result.content[0]?.text).toBe(
+      "Saved SDL for 5 types to ./data/schema/github-staging.graphql. The 'github' endpoint only falls back to ./data/schema/github.graphql when introspection is unavailable."
+    );
+  });
+
+  it('should not write anything when introspection fails', async () => {
+    vi.mocked(fetchIntrospectionSchema).mockRejectedValue(new Error('Failed to fetch schema: GraphQL introspection is not allowed'));
+
+    const result = await handler({});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('GraphQL introspection is not allowed');
+    expect(writeSchemaFile).not.toHaveBeenCalled();
+  });
+});
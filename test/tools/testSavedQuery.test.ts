@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { createDynamicToolHandler } from '../../src/dynamicToolHandler.js';
+import { loadToolFromFile } from '../../src/storage.js';
+import { handler } from '../../src/tools/testSavedQuery.js';
+import type { SavedToolConfig } from '../../src/types.js';
+
+const mockTestHandler = vi.fn();
+
+vi.mock('../../src/dynamicToolHandler.js', () => ({
+  createDynamicToolHandler: vi.fn(() => mockTestHandler),
+}));
+
+vi.mock('../../src/storage.js', () => ({
+  loadToolFromFile: vi.fn(),
+}));
+
+const toolConfig: SavedToolConfig = {
+  name: 'get_user',
+  description: 'Get user by ID',
+  graphql_query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+  parameter_schema: { type: 'object', properties: { id: { type: 'string' } } },
+  variables: [{ name: 'id', type: 'ID!', required: true }],
+};
+
+describe('testSavedQuery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadToolFromFile).mockReturnValue(toolConfig);
+    mockTestHandler.mockResolvedValue({ content: [{ type: 'text', text: 'TEST MODE: get_user (query executed)' }] });
+  });
+
+  it('should run the saved tool in test mode with the given parameters', async () => {
+    const result = await handler({ tool_name: 'get_user', parameters: { id: '1' } });
+
+    expect(result.content[0]?.text).toBe('TEST MODE: get_user (query executed)');
+    expect(createDynamicToolHandler).toHaveBeenCalledWith(toolConfig, { test: true, validateOnly: false });
+    expect(mockTestHandler).toHaveBeenCalledWith({ id: '1' });
+  });
+
+  it('should pass validate_only through', async () => {
+    await handler({ tool_name: 'get_user', parameters: { id: '1' }, validate_only: true });
+
+    expect(createDynamicToolHandler).toHaveBeenCalledWith(toolConfig, { test: true, validateOnly: true });
+  });
+
+  it('should default to no parameters', async () => {
+    await handler({ tool_name: 'get_user' });
+
+    expect(mockTestHandler).toHaveBeenCalledWith({});
+  });
+
+  it('should report unknown tools', async () => {
+    vi.mocked(loadToolFromFile).mockReturnValue(null);
+
+    const result = await handler({ tool_name: 'missing_tool' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe("Error testing tool 'missing_tool': Saved query 'missing_tool' not found");
+    expect(createDynamicToolHandler).not.toHaveBeenCalled();
+  });
+
+  it('should report tool files that cannot be loaded', async () => {
+    vi.mocked(loadToolFromFile).mockImplementation(() => {
+      throw new Error("Failed to load tool 'get_user' from file: Unexpected token");
+    });
+
+    const result = await handler({ tool_name: 'get_user' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Unexpected token');
+  });
+
+  it('should report parameter schemas that cannot be resolved', async () => {
+    vi.mocked(createDynamicToolHandler).mockImplementationOnce(() => {
+      throw new Error("Unknown type 'Priority' referenced by $ref 'types/Priority.json'");
+    });
+
+    const result = await handler({ tool_name: 'get_user' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe(
+      "Error testing tool 'get_user': Unknown type 'Priority' referenced by $ref 'types/Priority.json'"
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { validateGraphQLQuery } from '../../src/schemaService.js';
+import { handler } from '../../src/tools/validateGraphqlQuery.js';
+
+vi.mock('../../src/client.js', () => ({
+  describeEndpoints: (): string => 'Configured endpoints: default (default: default)',
+}));
+
+vi.mock('../../src/schemaService.js', () => ({
+  validateGraphQLQuery: vi.fn(() => Promise.resolve({ content: [{ type: 'text', text: 'GraphQL query is valid' }] })),
+}));
+
+const query = 'query GetUser($id: ID!) { user(id: $id) { name } }';
+
+describe('validateGraphqlQuery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should validate a query without variables', async () => {
+    const result = await handler({ query });
+
+    expect(result.content[0]?.text).toBe('GraphQL query is valid');
+    expect(validateGraphQLQuery).toHaveBeenCalledWith(query, undefined, undefined, undefined);
+  });
+
+  it('should treat empty variables as no variables', async () => {
+    await handler({ query, variables: '' });
+
+    expect(validateGraphQLQuery).toHaveBeenCalledWith(query, undefined, undefined, undefined);
+  });
+
+  it('should pass parsed variables for checking', async () => {
+    await handler({ query, variables: '{"id": "123"}' });
+
+    expect(validateGraphQLQuery).toHaveBeenCalledWith(query, { id: '123' }, undefined, undefined);
+  });
+
+  it('should pass the operation name for documents with several operations', async () => {
+    await handler({ query, variables: '{"id": "123"}', operationName: 'GetUser' });
+
+    expect(validateGraphQLQuery).toHaveBeenCalledWith(query, { id: '123' }, 'GetUser', undefined);
+  });
+
+  it('should validate against the named endpoint\'s schema', async () => {
+    await handler({ query, variables: '{"id": "123"}', endpoint: 'github' });
+
+    expect(validateGraphQLQuery).toHaveBeenCalledWith(query, { id: '123' }, undefined, 'github');
+  });
+
+  it('should return validation errors from the schema service', async () => {
+    vi.mocked(validateGraphQLQuery).mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'Error validating GraphQL query: Variable validation failed: ...' }],
+      isError: true,
+    });
+
+    const result = await handler({ query, variables: '{}' });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it('should reject invalid JSON variables', async () => {
+    const result = await handler({ query, variables: '{id: 123}' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Error validating GraphQL query: Invalid JSON in variables parameter: {id: 123}');
+    expect(validateGraphQLQuery).not.toHaveBeenCalled();
+  });
+
+  it('should reject variables that are not an object', async () => {
+    const result = await handler({ query, variables: '["123"]' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Error validating GraphQL query: Variables must be a JSON object');
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+
+import { dereferenceSchema, findDependentTools, findTypeReferences, parseTypeReference, typeReference } from '../src/typeReferences.js';
+import type { SavedToolConfig, SavedTypeConfig } from '../src/types.js';
+
+function typeMap(...types: SavedTypeConfig[]): Map<string, SavedTypeConfig> {
+  return new Map(types.map(type => [type.name, type]));
+}
+
+const priorityType: SavedTypeConfig = {
+  name: 'Priority',
+  type_definition: {
+    type: 'string',
+    oneOf: [
+      { const: 'LOW', description: 'Can wait' },
+      { const: 'HIGH', description: 'Needs attention today' },
+    ],
+  },
+};
+
+describe('typeReferences', () => {
+  describe('typeReference', () => {
+    it('should build the reference for a type', () => {
+      expect(typeReference('Priority')).toBe('types/Priority.json');
+    });
+  });
+
+  describe('parseTypeReference', () => {
+    it('should return the type name for custom type references', () => {
+      expect(parseTypeReference('types/Priority.json')).toBe('Priority');
+    });
+
+    it('should return null for other references', () => {
+      expect(parseTypeReference('#/$defs/Priority')).toBeNull();
+      expect(parseTypeReference('types/../secret.json')).toBeNull();
+      expect(parseTypeReference('https://example.com/types/Priority.json')).toBeNull();
+    });
+  });
+
+  describe('findTypeReferences', () => {
+    it('should find references at any depth, without duplicates', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          priority: { $ref: 'types/Priority.json' },
+          filters: {
+            type: 'array',
+            items: { anyOf: [{ $ref: 'types/Status.json' }, { $ref: 'types/Priority.json' }] },
+          },
+          local: { $ref: '#/$defs/Local' },
+        },
+      };
+
+      expect(findTypeReferences(schema)).toEqual(['Priority', 'Status']);
+    });
+
+    it('should return an empty list for schemas without references', () => {
+      expect(findTypeReferences({ type: 'object', properties: { id: { type: 'string' } } })).toEqual([]);
+    });
+
+    it('should not treat a property named $ref as a reference', () => {
+      const schema = { type: 'object', properties: { $ref: { type: 'string' } } };
+
+      expect(findTypeReferences(schema)).toEqual([]);
+    });
+  });
+
+  describe('dereferenceSchema', () => {
+    it('should inline referenced type definitions', () => {
+      const schema = {
+        type: 'object',
+        properties: { priority: { $ref: 'types/Priority.json' } },
+      };
+
+      expect(dereferenceSchema(schema, typeMap(priorityType))).toEqual({
+        type: 'object',
+        properties: { priority: priorityType.type_definition },
+      });
+    });
+
+    it('should let keywords next to the reference override the definition', () => {
+      const schema = { $ref: 'types/Priority.json', description: 'Issue priority', default: 'LOW' };
+
+      expect(dereferenceSchema(schema, typeMap(priorityType))).toEqual({
+        ...priorityType.type_definition,
+        description: 'Issue priority',
+        default: 'LOW',
+      });
+    });
+
+    it('should resolve references inside type definitions', () => {
+      const listType: SavedTypeConfig = {
+        name: 'PriorityList',
+        type_definition: { type: 'array', items: { $ref: 'types/Priority.json' } },
+      };
+
+      expect(dereferenceSchema({ $ref: 'types/PriorityList.json' }, typeMap(priorityType, listType))).toEqual({
+        type: 'array',
+        items: priorityType.type_definition,
+      });
+    });
+
+    it('should resolve local references', () => {
+      const schema = {
+        type: 'object',
+        properties: { status: { $ref: '#/$defs/Status' } },
+        $defs: { Status: { type: 'string', enum: ['OPEN', 'CLOSED'] } },
+      };
+
+      expect(dereferenceSchema(schema, typeMap()).properties.status).toEqual({ type: 'string', enum: ['OPEN', 'CLOSED'] });
+    });
+
+    it('should resolve local references inside a type against the type definition', () => {
+      const filterType: SavedTypeConfig = {
+        name: 'Filter',
+        type_definition: {
+          type: 'object',
+          properties: { status: { $ref: '#/definitions/Status' } },
+          definitions: { Status: { type: 'string', enum: ['OPEN'] } },
+        },
+      };
+
+      const resolved = dereferenceSchema({ $ref: 'types/Filter.json' }, typeMap(filterType));
+
+      expect(resolved.properties.status).toEqual({ type: 'string', enum: ['OPEN'] });
+    });
+
+    it('should throw for unresolvable local references', () => {
+      expect(() => dereferenceSchema({ $ref: '#/$defs/Missing' }, typeMap())).toThrow("Unresolvable $ref '#/$defs/Missing'");
+    });
+
+    it('should leave remote references unchanged', () => {
+      const schema = { properties: { id: { $ref: 'https://example.com/schemas/id.json' } } };
+
+      expect(dereferenceSchema(schema, typeMap())).toEqual(schema);
+    });
+
+    it('should not modify the original schema', () => {
+      const schema = { properties: { priority: { $ref: 'types/Priority.json' } } };
+
+      dereferenceSchema(schema, typeMap(priorityType));
+
+      expect(schema).toEqual({ properties: { priority: { $ref: 'types/Priority.json' } } });
+    });
+
+    it('should throw for unknown types', () => {
+      expect(() => dereferenceSchema({ $ref: 'types/Missing.json' }, typeMap())).toThrow(
+        "Unknown type 'Missing' referenced by $ref 'types/Missing.json'"
+      );
+    });
+
+    it('should throw for circular references', () => {
+      const a: SavedTypeConfig = { name: 'A', type_definition: { type: 'array', items: { $ref: 'types/B.json' } } };
+      const b: SavedTypeConfig = { name: 'B', type_definition: { type: 'array', items: { $ref: 'types/A.json' } } };
+
+      expect(() => dereferenceSchema({ $ref: 'types/A.json' }, typeMap(a, b))).toThrow('Circular reference: A -> B -> A');
+    });
+
+    it('should throw for circular local references', () => {
+      const schema = { $ref: '#/$defs/Node', $defs: { Node: { type: 'array', items: { $ref: '#/$defs/Node' } } } };
+
+      expect(() => dereferenceSchema(schema, typeMap())).toThrow('Circular reference: #/$defs/Node -> #/$defs/Node');
+    });
+  });
+
+  describe('findDependentTools', () => {
+    function tool(name: string, parameterSchema: Record<string, any>): SavedToolConfig {
+      return { name, description: name, graphql_query: 'query Q { q }', parameter_schema: parameterSchema, variables: [] };
+    }
+
+    it('should find tools using a type directly or through other types', () => {
+      const types = typeMap(
+        priorityType,
+        { name: 'PriorityList', type_definition: { type: 'array', items: { $ref: 'types/Priority.json' } } },
+        { name: 'Filter', type_definition: { type: 'object', properties: { priorities: { $ref: 'types/PriorityList.json' } } } },
+        { name: 'Status', type_definition: { type: 'string' } }
+      );
+      const tools = new Map([
+        ['search', tool('search', { properties: { filter: { $ref: 'types/Filter.json' } } })],
+        ['list_issues', tool('list_issues', { properties: { priority: { $ref: 'types/Priority.json' } } })],
+        ['list_by_status', tool('list_by_status', { properties: { status: { $ref: 'types/Status.json' } } })],
+        ['get_issue', tool('get_issue', { properties: { id: { type: 'string' } } })],
+      ]);
+
+      expect(findDependentTools('Priority', tools, types)).toEqual(['list_issues', 'search']);
+      expect(findDependentTools('Status', tools, types)).toEqual(['list_by_status']);
+    });
+
+    it('should return an empty list for unused types', () => {
+      expect(findDependentTools('Priority', new Map(), typeMap(priorityType))).toEqual([]);
+    });
+  });
+});
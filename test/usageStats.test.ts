@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { clearToolUsage, getToolUsage, recordToolCall } from '../src/usageStats.js';
+
+describe('usageStats', () => {
+  beforeEach(() => {
+    clearToolUsage();
+  });
+
+  it('should report no usage for tools that were never called', () => {
+    expect(getToolUsage('get_user')).toEqual({ calls: 0, failures: 0, testCalls: 0, testFailures: 0, lastCalledAt: null });
+  });
+
+  it('should count calls and failures', () => {
+    recordToolCall('get_user', { test: false, failed: false }, 1000);
+    recordToolCall('get_user', { test: false, failed: true }, 2000);
+
+    expect(getToolUsage('get_user')).toEqual({ calls: 2, failures: 1, testCalls: 0, testFailures: 0, lastCalledAt: 2000 });
+  });
+
+  it('should count test calls separately without updating the last call time', () => {
+    recordToolCall('get_user', { test: false, failed: false }, 1000);
+    recordToolCall('get_user', { test: true, failed: true }, 2000);
+
+    expect(getToolUsage('get_user')).toEqual({ calls: 1, failures: 0, testCalls: 1, testFailures: 1, lastCalledAt: 1000 });
+  });
+
+  it('should clear usage for one tool or all tools', () => {
+    recordToolCall('get_user', { test: false, failed: false });
+    recordToolCall('list_users', { test: false, failed: false });
+
+    clearToolUsage('get_user');
+    expect(getToolUsage('get_user').calls).toBe(0);
+    expect(getToolUsage('list_users').calls).toBe(1);
+
+    clearToolUsage();
+    expect(getToolUsage('list_users').calls).toBe(0);
+  });
+});
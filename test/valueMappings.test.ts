@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import {
+  applyValueMappings,
+  expandValueMappings,
+  findUnknownValueMappings,
+  getValueMapping,
+  getValueMappingNames,
+} from '../src/valueMappings.js';
+
+vi.mock('../src/config.js', () => ({
+  getConfig: vi.fn(() => ({
+    context_variables: {},
+    enumerations: {
+      workspace_users: [
+        { name: 'John Doe', value: 'john_doe' },
+        { name: 'Jane Smith', value: 'jane_smith' },
+      ],
+    },
+    mappings: {
+      pipeline_name_to_id: { 'Backlog': 'pipeline_1', 'In Progress': 'pipeline_2' },
+      priority_levels: { Low: 1, High: 3 },
+    },
+  })),
+}));
+
+const parameterSchema = {
+  type: 'object',
+  properties: {
+    pipeline: { 'type': 'string', 'description': 'Pipeline to move the issue to', 'x-mapping': 'pipeline_name_to_id' },
+    assignees: { 'type': 'array', 'items': { 'type': 'string', 'x-mapping': 'workspace_users' } },
+    issue_id: { type: 'string' },
+  },
+  required: ['pipeline'],
+};
+
+describe('valueMappings', () => {
+  describe('getValueMapping', () => {
+    it('should return configured mappings', () => {
+      expect(getValueMapping('priority_levels')).toEqual({ Low: 1, High: 3 });
+    });
+
+    it('should use enumerations as mappings from option names to values', () => {
+      expect(getValueMapping('workspace_users')).toEqual({ 'John Doe': 'john_doe', 'Jane Smith': 'jane_smith' });
+    });
+
+    it('should return null for unknown mappings', () => {
+      expect(getValueMapping('label_ids')).toBeNull();
+    });
+
+    it('should list mapping and enumeration names', () => {
+      expect(getValueMappingNames()).toEqual(['pipeline_name_to_id', 'priority_levels', 'workspace_users']);
+    });
+  });
+
+  describe('expandValueMappings', () => {
+    it('should turn mapped parameters into enums of the mapping names', () => {
+      const expanded = expandValueMappings(parameterSchema);
+
+      expect(expanded['properties'].pipeline).toEqual({
+        'type': 'string',
+        'description': 'Pipeline to move the issue to',
+        'x-mapping': 'pipeline_name_to_id',
+        'enum': ['Backlog', 'In Progress'],
+      });
+      expect(expanded['properties'].assignees.items.enum).toEqual(['John Doe', 'Jane Smith']);
+      expect(expanded['properties'].issue_id).toEqual({ type: 'string' });
+      expect(expanded['required']).toEqual(['pipeline']);
+    });
+
+    it('should accept names for mappings to numbers', () => {
+      const expanded = expandValueMappings({
+        type: 'object',
+        properties: { priority: { 'type': 'integer', 'x-mapping': 'priority_levels' } },
+      });
+
+      expect(expanded['properties'].priority).toMatchObject({ type: 'string', enum: ['Low', 'High'] });
+    });
+
+    it('should leave schemas without mapped parameters unchanged', () => {
+      const schema = { type: 'object', properties: { id: { type: 'string' } } };
+
+      expect(expandValueMappings(schema)).toBe(schema);
+    });
+  });
+
+  describe('applyValueMappings', () => {
+    it('should replace names with the values they map to', () => {
+      const params = { pipeline: 'In Progress', assignees: ['Jane Smith', 'John Doe'], issue_id: 'issue_1' };
+
+      expect(applyValueMappings(parameterSchema, params)).toEqual({
+        pipeline: 'pipeline_2',
+        assignees: ['jane_smith', 'john_doe'],
+        issue_id: 'issue_1',
+      });
+    });
+
+    it('should leave omitted parameters out', () => {
+      expect(applyValueMappings(parameterSchema, { pipeline: 'Backlog' })).toEqual({ pipeline: 'pipeline_1' });
+    });
+
+    it('should reject unknown names, listing the valid ones', () => {
+      expect(() => applyValueMappings(parameterSchema, { pipeline: 'Done' })).toThrow(
+        'Unknown value "Done" for parameter \'pipeline\'; valid values: Backlog, In Progress'
+      );
+    });
+
+    it('should not treat inherited object properties as names', () => {
+      expect(() => applyValueMappings(parameterSchema, { pipeline: 'toString' })).toThrow('Unknown value "toString"');
+    });
+
+    it('should reject parameters whose mapping is not configured', () => {
+      const schema = { type: 'object', properties: { label: { 'type': 'string', 'x-mapping': 'label_ids' } } };
+
+      expect(() => applyValueMappings(schema, { label: 'bug' })).toThrow(
+        "Parameter 'label' uses mapping 'label_ids', which is not configured"
+      );
+    });
+  });
+
+  describe('findUnknownValueMappings', () => {
+    it('should report parameters whose mapping is not configured', () => {
+      const schema = {
+        type: 'object',
+        properties: {
+          pipeline: { 'type': 'string', 'x-mapping': 'pipeline_name_to_id' },
+          labels: { 'type': 'array', 'items': { 'type': 'string', 'x-mapping': 'label_ids' } },
+        },
+      };
+
+      expect(findUnknownValueMappings(schema)).toEqual([
+        "parameter 'labels' uses mapping 'label_ids', which is not configured (configured mappings: pipeline_name_to_id, priority_levels, workspace_users)",
+      ]);
+    });
+
+    it('should accept configured mappings', () => {
+      expect(findUnknownValueMappings(parameterSchema)).toEqual([]);
+    });
+  });
+});